@@ -0,0 +1,77 @@
+import { program } from "commander";
+import { logger } from "../helpers/logger";
+import { FilterPipeline, printFilterReport } from "./pipeline";
+import { FilterVenue, getFilterMetric, listFilterMetrics } from "./metrics";
+import { analyzeMint } from "../token/mint_safety";
+import { getHolderReport, printHolderReport } from "../raydium/token-filters/holders";
+
+let token: string = "",
+  venue: FilterVenue = "raydium",
+  rules: string | undefined = undefined,
+  timeoutMs: number | undefined,
+  minScore: number | undefined,
+  mintSafety = false,
+  holders = false;
+program
+  .option("--token <ADDRESS_TOKEN>", "Specify the token address")
+  .option("--venue <VENUE>", "Specify the venue of the pool: raydium, orca, meteora or pumpfun", "raydium")
+  .option("--rules <RULES>", "Specify the rules, FILTER_RULES by default")
+  .option("--timeout <MS>", "Specify the time limit of each metric")
+  .option("--min-score <PERCENT>", "Specify the score a token must reach")
+  .option("--metrics", "List the metrics the rules can use")
+  .option("--mint-safety", "Print the authorities, Token-2022 extensions and risks of the mint")
+  .option("--holders", "Print the concentration, creator holdings and funding clusters of the largest holders")
+  .option("-h, --help", "display help for command")
+  .action((options) => {
+    if (options.help) {
+      logger.info(
+        'ts-node check --token <ADDRESS_TOKEN> [--venue <VENUE>] [--rules "lpBurn >= 90, solInPool >= 20"] [--timeout <MS>] [--min-score <PERCENT>]'
+      );
+      process.exit(0);
+    }
+    if (options.metrics) {
+      for (const name of listFilterMetrics()) {
+        const metric = getFilterMetric(name)!;
+        logger.info(`${name} (${metric.type}, ${Object.keys(metric.fetch).join(" ")}): ${metric.description}`);
+      }
+      process.exit(0);
+    }
+    if (!options.token) {
+      console.error("❌ Missing required options");
+      process.exit(1);
+    }
+    token = options.token;
+    venue = options.venue;
+    rules = options.rules;
+    timeoutMs = options.timeout ? parseInt(options.timeout) : undefined;
+    minScore = options.minScore ? parseFloat(options.minScore) : undefined;
+    mintSafety = !!options.mintSafety;
+    holders = !!options.holders;
+  });
+program.parse();
+
+/**
+ * Checks a token against the filter rules and prints the report.
+ * @param {string} token_address - The address of the token to check.
+ * @returns {Promise<void>} - A promise that resolves when the report is printed.
+ */
+async function check(token_address: string) {
+  if (mintSafety) {
+    const safety = await analyzeMint(token_address);
+    logger.info(`${safety.mint} (${safety.token2022 ? "Token-2022" : "SPL token"}), extensions: ${safety.extensions.join(", ") || "none"}`);
+    if (safety.risks.length === 0) logger.info("  No mint risks found");
+    safety.risks.forEach((risk) => logger.info(`  ✘ ${risk}`));
+    return;
+  }
+  if (holders) {
+    printHolderReport(await getHolderReport(token_address));
+    return;
+  }
+  const pipeline = new FilterPipeline(rules, { venue, timeoutMs, minScore });
+  if (!pipeline.enabled) {
+    logger.info("No filter rules, set FILTER_RULES or --rules");
+    return;
+  }
+  printFilterReport(await pipeline.evaluate(token_address));
+}
+check(token);
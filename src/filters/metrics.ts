@@ -0,0 +1,212 @@
+import {
+  getLPBurnPercentage,
+  getCurrentMarketCap as getRaydiumMarketCap,
+  getCurrentSolInPool as getRaydiumSolInPool,
+  getDayVolume as getRaydiumDayVolume,
+  getWeekVolume as getRaydiumWeekVolume,
+  getMonthVolume as getRaydiumMonthVolume,
+  getHolderConcentration,
+  getHolderReport,
+  HolderReport,
+} from "../raydium/token-filters";
+import {
+  getCurrentMarketCap as getOrcaMarketCap,
+  getCurrentSolInPool as getOrcaSolInPool,
+  getDayVolume as getOrcaDayVolume,
+  getWeekVolume as getOrcaWeekVolume,
+  getMonthVolume as getOrcaMonthVolume,
+  getTVL as getOrcaTVL,
+  getFeeApr as getOrcaFeeApr,
+  getLiquidityWithinRange as getOrcaLiquidityWithinRange,
+} from "../orca/token-filters";
+import {
+  getCurrentMarketCap as getMeteoraMarketCap,
+  getCurrentSolInPool as getMeteoraSolInPool,
+  getDayVolume as getMeteoraDayVolume,
+  getWeekVolume as getMeteoraWeekVolume,
+  getMonthVolume as getMeteoraMonthVolume,
+} from "../meteora/token-filters";
+import { MintSafety, analyzeMint } from "../token/mint_safety";
+
+export type FilterVenue = "raydium" | "orca" | "meteora" | "pumpfun";
+
+export type MetricValue = number | string | boolean | null;
+
+/**
+ * Type of the value of a metric, it decides the operators and values its rules accept.
+ * "address" metrics are a public key or null, e.g. an authority that was revoked.
+ */
+export type MetricType = "number" | "address" | "boolean";
+
+export type MetricFetcher = (tokenAddress: string) => Promise<MetricValue | undefined>;
+
+/**
+ * A token metric the filter rules compare against.
+ * A fetcher per venue, or one under "any" that serves every venue.
+ * A fetcher that throws or returns undefined fails the rules of the metric.
+ */
+export interface FilterMetric {
+  type: MetricType;
+  description: string;
+  fetch: { [venue in FilterVenue | "any"]?: MetricFetcher };
+}
+
+// the raydium pool-sol filter returns a Decimal
+const toNumber = (fetcher: (tokenAddress: string) => Promise<any>): MetricFetcher =>
+  async (tokenAddress) => {
+    const value = await fetcher(tokenAddress);
+    return value === undefined || value === null ? undefined : Number(value);
+  };
+
+// the metrics of a token that read the same analysis share it while it is in flight
+const pendingAnalyses: Map<string, Promise<any>> = new Map();
+
+function shareAnalysis<T>(key: string, analyze: () => Promise<T>): Promise<T> {
+  let pending = pendingAnalyses.get(key);
+  if (!pending) {
+    pending = analyze().finally(() => pendingAnalyses.delete(key));
+    pendingAnalyses.set(key, pending);
+  }
+  return pending;
+}
+
+const mintMetric = (
+  type: MetricType,
+  description: string,
+  read: (safety: MintSafety) => MetricValue
+): FilterMetric => ({
+  type,
+  description,
+  fetch: {
+    any: async (tokenAddress) =>
+      read(await shareAnalysis(`mint:${tokenAddress}`, () => analyzeMint(tokenAddress))),
+  },
+});
+
+// the concentration needs no funder or creator lookups, the metrics that read only it do not wait for them
+const shareConcentration = (tokenAddress: string) =>
+  shareAnalysis(`concentration:${tokenAddress}`, () => getHolderConcentration(tokenAddress));
+
+const holderMetric = (
+  description: string,
+  read: (report: HolderReport) => number
+): FilterMetric => ({
+  type: "number",
+  description,
+  fetch: {
+    any: async (tokenAddress) =>
+      read(
+        await shareAnalysis(`holders:${tokenAddress}`, async () =>
+          getHolderReport(tokenAddress, 10, await shareConcentration(tokenAddress))
+        )
+      ),
+  },
+});
+
+const filterMetrics: { [name: string]: FilterMetric } = {
+  lpBurn: {
+    type: "number",
+    description: "Percent of the LP tokens burned",
+    fetch: { raydium: getLPBurnPercentage },
+  },
+  solInPool: {
+    type: "number",
+    description: "SOL in the pool of the token",
+    fetch: {
+      raydium: toNumber(getRaydiumSolInPool),
+      orca: getOrcaSolInPool,
+      meteora: getMeteoraSolInPool,
+    },
+  },
+  marketCap: {
+    type: "number",
+    description: "Market cap in USD",
+    fetch: {
+      raydium: getRaydiumMarketCap,
+      orca: getOrcaMarketCap,
+      meteora: getMeteoraMarketCap,
+    },
+  },
+  dayVolume: {
+    type: "number",
+    description: "Volume of the pool over the last 24 hours, in USD",
+    fetch: {
+      raydium: getRaydiumDayVolume,
+      orca: getOrcaDayVolume,
+      meteora: getMeteoraDayVolume,
+    },
+  },
+  weekVolume: {
+    type: "number",
+    description: "Volume of the pool over the last 7 days, in USD",
+    fetch: {
+      raydium: getRaydiumWeekVolume,
+      orca: getOrcaWeekVolume,
+      meteora: getMeteoraWeekVolume,
+    },
+  },
+  monthVolume: {
+    type: "number",
+    description: "Volume of the pool over the last 30 days, in USD",
+    fetch: {
+      raydium: getRaydiumMonthVolume,
+      orca: getOrcaMonthVolume,
+      meteora: getMeteoraMonthVolume,
+    },
+  },
+  tvl: {
+    type: "number",
+    description: "Total value locked in the pool, in USD",
+    fetch: { orca: getOrcaTVL },
+  },
+  feeApr: {
+    type: "number",
+    description: "Yearly fees of the pool over the last 24 hours against its TVL, in percent",
+    fetch: { orca: getOrcaFeeApr },
+  },
+  liquidityWithin2Pct: {
+    type: "number",
+    description: "Value of the liquidity within 2% of the current price, in SOL",
+    fetch: { orca: (tokenAddress) => getOrcaLiquidityWithinRange(tokenAddress, 2) },
+  },
+  mintAuthority: mintMetric("address", "Mint authority, null once revoked", (m) => m.mintAuthority),
+  freezeAuthority: mintMetric("address", "Freeze authority, null once revoked", (m) => m.freezeAuthority),
+  token2022: mintMetric("boolean", "Whether the token is a Token-2022 token", (m) => m.token2022),
+  transferFeeBps: mintMetric("number", "Token-2022 transfer fee in basis points", (m) => m.transferFeeBps),
+  permanentDelegate: mintMetric("address", "Token-2022 permanent delegate", (m) => m.permanentDelegate),
+  transferHook: mintMetric("address", "Token-2022 transfer hook program", (m) => m.transferHookProgram),
+  mintRisks: mintMetric("number", "Number of mint risks found by analyzeMint", (m) => m.risks.length),
+  top10Holders: {
+    type: "number",
+    description: "Percent of the circulating supply held by the 10 largest holders",
+    fetch: { any: async (tokenAddress) => (await shareConcentration(tokenAddress)).topConcentration },
+  },
+  creatorHolding: holderMetric("Percent of the circulating supply held by the creator", (r) => r.creatorPercent),
+  clusteredHolding: holderMetric("Percent of the circulating supply held by wallets funded from the same source", (r) => r.clusteredPercent),
+};
+
+/**
+ * Adds a metric the filter rules can use, or replaces one.
+ * @param {string} name - The name used in the rules.
+ * @param {FilterMetric} metric - The type and fetchers of the metric.
+ */
+export function registerFilterMetric(name: string, metric: FilterMetric) {
+  filterMetrics[name] = metric;
+}
+
+/**
+ * Gets a registered metric.
+ * @param {string} name - The name used in the rules.
+ * @returns {FilterMetric | undefined} The metric, undefined if it is not registered.
+ */
+export function getFilterMetric(name: string): FilterMetric | undefined {
+  return filterMetrics[name];
+}
+
+/**
+ * Lists the registered metrics.
+ * @returns {string[]} The names of the metrics.
+ */
+export function listFilterMetrics() {
+  return Object.keys(filterMetrics);
+}
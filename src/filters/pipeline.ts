@@ -0,0 +1,251 @@
+import {
+  filter_rules,
+  filter_timeout_ms,
+  filter_min_score,
+} from "../helpers/config";
+import { logger } from "../helpers/logger";
+import { withTimeout } from "../helpers/util";
+import {
+  FilterVenue,
+  MetricValue,
+  getFilterMetric,
+} from "./metrics";
+
+export type FilterOperator = ">=" | ">" | "<=" | "<" | "==" | "!=";
+
+/**
+ * A rule a token must pass, e.g. lpBurn >= 90.
+ */
+export interface FilterRule {
+  metric: string;
+  operator: FilterOperator;
+  value: MetricValue;
+  weight?: number; // share of the score, 1 by default
+}
+
+export interface FilterRuleResult {
+  rule: string;
+  metric: string;
+  value: MetricValue | undefined; // undefined when the metric could not be fetched
+  passed: boolean;
+  weight: number;
+  error: string | null;
+}
+
+/**
+ * Outcome of the rules for a token.
+ * The score is the weight of the passed rules in percent of the total weight,
+ * the token passes when it reaches the minimum score.
+ */
+export interface FilterReport {
+  tokenAddress: string;
+  venue: FilterVenue;
+  passed: boolean;
+  score: number;
+  results: FilterRuleResult[];
+  durationMs: number;
+}
+
+export interface FilterPipelineOptions {
+  venue?: FilterVenue; // raydium by default
+  timeoutMs?: number; // per metric, FILTER_TIMEOUT_MS by default
+  minScore?: number; // percent, FILTER_MIN_SCORE by default
+}
+
+const RULE_PATTERN = /^\s*([A-Za-z]\w*)\s*(>=|<=|==|!=|>|<)\s*(.+?)\s*$/;
+
+function parseValue(raw: string): MetricValue {
+  if (raw === "null") return null;
+  if (raw === "true" || raw === "false") return raw === "true";
+  const number = raw.endsWith("%") ? raw.slice(0, -1) : raw;
+  if (number !== "" && !isNaN(Number(number))) return Number(number);
+  return raw.replace(/^["']|["']$/g, "");
+}
+
+/**
+ * Checks a rule against the type of its metric.
+ * @param {FilterRule} rule - The rule.
+ * @throws {Error} If the metric is unknown or the operator or value do not fit its type.
+ */
+function validateRule(rule: FilterRule) {
+  const metric = getFilterMetric(rule.metric);
+  if (!metric) throw new Error(`Unknown filter metric ${rule.metric}`);
+  const equality = rule.operator === "==" || rule.operator === "!=";
+  if (metric.type === "number" && typeof rule.value !== "number") {
+    throw new Error(`${rule.metric} is compared with a number, got ${rule.value}`);
+  }
+  if (metric.type === "address" && (!equality || (rule.value !== null && typeof rule.value !== "string"))) {
+    throw new Error(`${rule.metric} is only compared with == or != to an address or null`);
+  }
+  if (metric.type === "boolean" && (!equality || typeof rule.value !== "boolean")) {
+    throw new Error(`${rule.metric} is only compared with == or != to true or false`);
+  }
+}
+
+/**
+ * Parses rules written as "metric operator value", separated by commas or semicolons.
+ * Percent signs are dropped, "null", "true" and "false" are literals, e.g.
+ * "lpBurn >= 90, solInPool >= 20, mintAuthority == null, top10Holders < 30%".
+ * @param {string} rules - The rules.
+ * @returns {FilterRule[]} The rules, checked against the type of their metric.
+ * @throws {Error} If a rule cannot be parsed or does not fit its metric.
+ */
+export function parseFilterRules(rules: string): FilterRule[] {
+  return rules
+    .split(/[,;]/)
+    .filter((rule) => rule.trim() !== "")
+    .map((rule) => {
+      const match = rule.match(RULE_PATTERN);
+      if (!match) throw new Error(`Invalid filter rule: ${rule.trim()}`);
+      const parsed: FilterRule = {
+        metric: match[1],
+        operator: match[2] as FilterOperator,
+        value: parseValue(match[3]),
+      };
+      validateRule(parsed);
+      return parsed;
+    });
+}
+
+function formatRule(rule: FilterRule) {
+  return `${rule.metric} ${rule.operator} ${rule.value}`;
+}
+
+function compare(value: MetricValue, operator: FilterOperator, expected: MetricValue) {
+  switch (operator) {
+    case "==":
+      return value === expected;
+    case "!=":
+      return value !== expected;
+  }
+  if (typeof value !== "number" || typeof expected !== "number") return false;
+  switch (operator) {
+    case ">=":
+      return value >= expected;
+    case ">":
+      return value > expected;
+    case "<=":
+      return value <= expected;
+    case "<":
+      return value < expected;
+  }
+}
+
+/**
+ * Evaluates token filter rules and scores tokens against them.
+ * Every metric the rules use is fetched once, all of them concurrently and each under
+ * a time limit, so one slow API fails its own rules without holding back the report.
+ */
+export class FilterPipeline {
+  readonly rules: FilterRule[];
+  private venue: FilterVenue;
+  private timeoutMs: number;
+  private minScore: number;
+
+  /**
+   * @param {string | FilterRule[]} rules - The rules, FILTER_RULES by default.
+   * @param {FilterPipelineOptions} options - The venue of the pools, the time limit per metric and the minimum score.
+   */
+  constructor(rules: string | FilterRule[] = filter_rules, options: FilterPipelineOptions = {}) {
+    this.rules = typeof rules === "string" ? parseFilterRules(rules) : rules;
+    this.rules.forEach(validateRule);
+    this.venue = options.venue || "raydium";
+    this.timeoutMs = options.timeoutMs ?? filter_timeout_ms;
+    this.minScore = options.minScore ?? filter_min_score;
+  }
+
+  /**
+   * Whether there is any rule to check, a pipeline without rules passes every token.
+   */
+  get enabled() {
+    return this.rules.length > 0;
+  }
+
+  private async fetchMetric(name: string, tokenAddress: string): Promise<MetricValue> {
+    const metric = getFilterMetric(name)!;
+    const fetcher = metric.fetch[this.venue] || metric.fetch.any;
+    if (!fetcher) throw new Error(`${name} is not available on ${this.venue}`);
+    const value = await withTimeout(fetcher(tokenAddress), this.timeoutMs, name);
+    if (value === undefined) throw new Error(`${name} could not be fetched`);
+    return value;
+  }
+
+  /**
+   * Evaluates the rules for a token.
+   * @param {string} tokenAddress - The token to check.
+   * @returns {Promise<FilterReport>} The result of every rule, the score and whether the token passed.
+   */
+  async evaluate(tokenAddress: string): Promise<FilterReport> {
+    const start = Date.now();
+    const names = [...new Set(this.rules.map((rule) => rule.metric))];
+    const settled = await Promise.allSettled(
+      names.map((name) => this.fetchMetric(name, tokenAddress))
+    );
+    const values = new Map(names.map((name, i) => [name, settled[i]]));
+
+    const results: FilterRuleResult[] = this.rules.map((rule) => {
+      const outcome = values.get(rule.metric)!;
+      const weight = rule.weight ?? 1;
+      if (outcome.status === "rejected") {
+        return {
+          rule: formatRule(rule),
+          metric: rule.metric,
+          value: undefined,
+          passed: false,
+          weight,
+          error: outcome.reason?.message || String(outcome.reason),
+        };
+      }
+      return {
+        rule: formatRule(rule),
+        metric: rule.metric,
+        value: outcome.value,
+        passed: compare(outcome.value, rule.operator, rule.value),
+        weight,
+        error: null,
+      };
+    });
+    const totalWeight = results.reduce((sum, result) => sum + result.weight, 0);
+    const passedWeight = results.reduce(
+      (sum, result) => sum + (result.passed ? result.weight : 0),
+      0
+    );
+    const score = totalWeight === 0 ? 100 : (passedWeight / totalWeight) * 100;
+    return {
+      tokenAddress,
+      venue: this.venue,
+      passed: score >= this.minScore,
+      score,
+      results,
+      durationMs: Date.now() - start,
+    };
+  }
+
+  /**
+   * Evaluates the rules for a token and logs the report, for bots gating their buys.
+   * @param {string} tokenAddress - The token to check.
+   * @returns {Promise<boolean>} Whether the token passed, true when there are no rules.
+   */
+  async check(tokenAddress: string) {
+    if (!this.enabled) return true;
+    const report = await this.evaluate(tokenAddress);
+    printFilterReport(report);
+    return report.passed;
+  }
+}
+
+/**
+ * Prints a filter report, one line per rule.
+ * @param {FilterReport} report - The report to print.
+ */
+export function printFilterReport(report: FilterReport) {
+  logger.info(
+    `${report.tokenAddress} on ${report.venue}: ${report.passed ? "passed" : "failed"} with a score of ${report.score.toFixed(1)}% in ${report.durationMs}ms`
+  );
+  for (const result of report.results) {
+    const outcome = result.error
+      ? `error: ${result.error}`
+      : `${result.value}`;
+    logger.info(`  ${result.passed ? "✔" : "✘"} ${result.rule} (${outcome})`);
+  }
+}
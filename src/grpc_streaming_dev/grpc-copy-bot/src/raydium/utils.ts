@@ -3,6 +3,7 @@ import { connection, wallet, wsol } from "../constants";
 import { formatAmmKeysById_swap } from "./formatAmmKeys";
 import { PublicKey } from "@solana/web3.js";
 import { logger } from "../../../../utils";
+import { resolvePoolEntry } from "../../../../helpers/pool_registry";
 
 export const initSdk = async () => {
   const raydium = await Raydium.load({
@@ -17,6 +18,15 @@ export const initSdk = async () => {
 };
 
 export async function fetchAMMPoolId(tokenAddress: string): Promise<string> {
+  // shares the pool ids of the dex modules through the pool registry
+  const entry = await resolvePoolEntry(tokenAddress, "raydium-amm", wsol, async () => ({
+    poolId: await lookupAMMPoolId(tokenAddress),
+    type: "amm",
+  }));
+  return entry ? entry.poolId : "";
+}
+
+async function lookupAMMPoolId(tokenAddress: string): Promise<string> {
   const raydium = await initSdk();
   const data:any = await raydium.api.fetchPoolByMints({
     mint1: wsol,
@@ -11,8 +11,11 @@ import { handleSubscribe, wsol } from "./utils";
 import { getSPLBalance, retriveWalletState } from "../../../../utils";
 import { connection, quoteToken, wallet, GRPC_XTOKEN, GRPC_URL } from "../constants/constants";
 import { sell, buy } from "../raydium";
+import { FilterPipeline } from "../../../../filters";
 let trader_balance_wallet:any = {};
 let targetTrader = "";
+// token filter rules of FILTER_RULES, every token passes when it is empty
+const tokenFilter = new FilterPipeline();
 export const raydium_authority = "5Q544fKrFoe6tsEbD7S8EmxGTJYAKtTVhAW5Q5pge4j1"; // ***it represent the person who extract/put the sol/token to the pool for every raydium swap txn***
 const client = new Client(
   GRPC_URL,
@@ -86,6 +89,10 @@ export async function checkTraderBuyOrSell(data: any, traderAddress: string) {
   }
   if(side==="buy") {
     logger.info(`Trader ${traderAddress} is ${side}ing ${swappedTokenAmount} of ${targetToken} using ${swappedSOLAmount}SOL in price of ${postPoolSOL/postPoolToken}`);
+    if (!(await tokenFilter.check(targetToken))) {
+      logger.info(`${targetToken} did not pass the token filters, not copying the buy`);
+      return;
+    }
     const { pool, txn } = await buy(
       "buy",
       targetToken,
@@ -38,6 +38,7 @@ import { sendBundle } from "../jito/bundle";
 import { logger } from "../utils/logger";
 import { MinimalMarketLayoutV3, getMinimalMarketV3 } from "../market";
 import { createPoolKeys, getTokenAccounts } from "../liquidity";
+import { FilterPipeline } from "../../../../filters";
 import { populateJitoLeaderArray } from "../streaming/raydium";
 import { retrieveEnvVariable } from "../utils";
 
@@ -157,6 +158,9 @@ async function simple_execute(transaction: VersionedTransaction) {
   });
 }
 
+// token filter rules of FILTER_RULES, every token passes when it is empty
+const tokenFilter = new FilterPipeline();
+
 // Create transaction
 
 export async function buy(
@@ -167,6 +171,11 @@ export async function buy(
   tokenType: string
 ): Promise<void> {
   try {
+    const mint = tokenType === "pump" ? poolState.quoteMint : poolState.baseMint;
+    if (!(await tokenFilter.check(mint.toBase58()))) {
+      logger.info(`${mint} did not pass the token filters, not buying`);
+      return;
+    }
     let ata:any = null;
     if (tokenType === "pump")
       ata = getAssociatedTokenAddressSync(
@@ -33,6 +33,28 @@ export const dev_endpoint = process.env.DEVNET_ENDPOINT || ""; // devnet endpoin
 export const main_endpoint = process.env.MAINNET_ENDPOINT || ""; // mainnet endpoint
 export const bloXRoute_auth_header = process.env.BLOXROUTE_AUTH_HEADER;
 export const bloXroute_fee = process.env.BLOXROUTE_FEE; // 0.001 SOL
+export const tx_executor = process.env.TX_EXECUTOR || "jito"; // jito, bloxroute, rpc, race or memory
+export const race_landers = process.env.RACE_LANDERS || "jito,bloxroute,rpc"; // paths used by the race executor
+export const fee_urgency = process.env.FEE_URGENCY || "medium"; // low, medium, high or max
+export const priority_fee_floor = parseInt(process.env.PRIORITY_FEE_FLOOR || "10000"); // microLamports per compute unit
+export const priority_fee_cap = parseInt(process.env.PRIORITY_FEE_CAP || "2000000"); // microLamports per compute unit
+export const jito_tip_floor = parseFloat(process.env.JITO_TIP_FLOOR || "0.00001"); // SOL
+export const jito_tip_cap = parseFloat(process.env.JITO_TIP_CAP || "0.01"); // SOL
+export const compute_unit_margin = parseFloat(process.env.COMPUTE_UNIT_MARGIN || "0.1"); // extra compute units on top of the simulated usage, 0.1 = 10%
+export const tx_rebroadcast_interval_ms = parseInt(process.env.TX_REBROADCAST_INTERVAL_MS || "2000"); // how often an unconfirmed transaction is sent again
+export const dry_run = process.env.DRY_RUN === "true"; // simulate swaps instead of sending them, also set with --dry-run
+export const keystore_path = process.env.KEYSTORE_PATH || path.join(__dirname, "keystore.json"); // encrypted wallets used by the --payer options
+export const keystore_passphrase = process.env.KEYSTORE_PASSPHRASE;
+export const slippage_bps = process.env.SLIPPAGE_BPS ? parseInt(process.env.SLIPPAGE_BPS) : undefined; // overrides the default slippage of every venue, 100 = 1%
+export const max_price_impact = process.env.MAX_PRICE_IMPACT ? parseFloat(process.env.MAX_PRICE_IMPACT) : undefined; // percent, swaps quoted above it are not sent
+export const router_use_jupiter = process.env.ROUTER_USE_JUPITER === "true"; // also quote through jupiter in the router
+export const router_quote_timeout_ms = parseInt(process.env.ROUTER_QUOTE_TIMEOUT_MS || "5000"); // venues slower than this are left out of a route
+export const pool_registry_path = process.env.POOL_REGISTRY_PATH || path.join(__dirname, "pool_registry.json"); // pool ids and keys shared by the dex modules and the bots
+export const pool_registry_ttl_ms = parseInt(process.env.POOL_REGISTRY_TTL_MS || "86400000"); // unpinned pools are fetched again after this, 0 keeps them forever
+export const lp_positions_path = process.env.LP_POSITIONS_PATH || path.join(__dirname, "lp_positions.json"); // deposits of the Raydium LP positions, used for their fees and impermanent loss
+export const filter_rules = process.env.FILTER_RULES || ""; // token filter rules the bots gate on, e.g. "lpBurn >= 90, solInPool >= 20"
+export const filter_timeout_ms = parseInt(process.env.FILTER_TIMEOUT_MS || "5000"); // a metric slower than this fails its rules
+export const filter_min_score = parseFloat(process.env.FILTER_MIN_SCORE || "100"); // percent of the rule weight a token must pass
 // const second_main_endpoint = process.env.SECOND_MAINNET_ENDPOINT; // if you use copy trade program, second mainnet endpoint
 // const RPC_Websocket_endpoint = process.env.WS_ENDPOINT;
 // const second_RPC_Websocket_endpoint = process.env.SECOND_WS_ENDPOINT; // if you use copy trade program
@@ -4,4 +4,5 @@ export * from "./unwrap_sol";
 export * from "./check_balance";
 export * from "./wrap_sol";
 export * from "./logger";
-export * from "./utils";
\ No newline at end of file
+export * from "./utils";
+export * from "./types";
\ No newline at end of file
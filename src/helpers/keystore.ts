@@ -0,0 +1,270 @@
+import { Keypair } from "@solana/web3.js";
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import bs58 from "bs58";
+import {
+  wallet,
+  private_key,
+  keystore_path,
+  keystore_passphrase,
+} from "./config";
+
+const SCRYPT_PARAMS = { N: 2 ** 15, r: 8, p: 1, maxmem: 64 * 1024 * 1024 };
+const KEY_LENGTH = 32; // aes-256
+
+export interface WalletInfo {
+  name: string;
+  publicKey: string;
+  label: string;
+  tags: string[];
+  createdAt: string;
+}
+
+interface EncryptedSecret {
+  kdf: "scrypt";
+  salt: string; // hex
+  cipher: "aes-256-gcm";
+  iv: string; // hex
+  authTag: string; // hex
+  ciphertext: string; // hex
+}
+
+interface KeystoreEntry extends Omit<WalletInfo, "name"> {
+  crypto: EncryptedSecret;
+}
+
+interface KeystoreFile {
+  version: 1;
+  wallets: { [name: string]: KeystoreEntry };
+}
+
+// decrypted signers of this process, so the passphrase is derived once per wallet
+const signerCache: Map<string, Keypair> = new Map();
+
+function getPassphrase(passphrase?: string) {
+  const res = passphrase || keystore_passphrase;
+  if (!res) {
+    throw new Error("Missing keystore passphrase, set KEYSTORE_PASSPHRASE");
+  }
+  return res;
+}
+
+function readKeystore(): KeystoreFile {
+  if (!fs.existsSync(keystore_path)) return { version: 1, wallets: {} };
+  return JSON.parse(fs.readFileSync(keystore_path, "utf8"));
+}
+
+function writeKeystore(keystore: KeystoreFile) {
+  fs.writeFileSync(keystore_path, JSON.stringify(keystore, null, 2), {
+    mode: 0o600,
+  });
+}
+
+function encryptSecret(secretKey: Uint8Array, passphrase: string): EncryptedSecret {
+  const salt = crypto.randomBytes(16);
+  const iv = crypto.randomBytes(12);
+  const key = crypto.scryptSync(passphrase, salt, KEY_LENGTH, SCRYPT_PARAMS);
+  const cipher = crypto.createCipheriv("aes-256-gcm", key, iv);
+  const ciphertext = Buffer.concat([cipher.update(secretKey), cipher.final()]);
+  return {
+    kdf: "scrypt",
+    salt: salt.toString("hex"),
+    cipher: "aes-256-gcm",
+    iv: iv.toString("hex"),
+    authTag: cipher.getAuthTag().toString("hex"),
+    ciphertext: ciphertext.toString("hex"),
+  };
+}
+
+function decryptSecret(secret: EncryptedSecret, passphrase: string) {
+  const key = crypto.scryptSync(
+    passphrase,
+    Buffer.from(secret.salt, "hex"),
+    KEY_LENGTH,
+    SCRYPT_PARAMS
+  );
+  const decipher = crypto.createDecipheriv(
+    "aes-256-gcm",
+    key,
+    Buffer.from(secret.iv, "hex")
+  );
+  decipher.setAuthTag(Buffer.from(secret.authTag, "hex"));
+  try {
+    return Buffer.concat([
+      decipher.update(Buffer.from(secret.ciphertext, "hex")),
+      decipher.final(),
+    ]);
+  } catch (e) {
+    throw new Error("Wrong keystore passphrase or corrupted wallet");
+  }
+}
+
+/**
+ * Encrypts a keypair and stores it in the keystore under a name.
+ * @param {string} name - The wallet name, used by getSigner and the --payer options.
+ * @param {Keypair} keypair - The keypair to store.
+ * @param {Object} meta - Optional label and tags of the wallet.
+ * @param {string} passphrase - The keystore passphrase, defaults to KEYSTORE_PASSPHRASE.
+ * @returns {WalletInfo} The public information of the stored wallet.
+ */
+export function addWallet(
+  name: string,
+  keypair: Keypair,
+  meta: { label?: string; tags?: string[] } = {},
+  passphrase?: string
+): WalletInfo {
+  const keystore = readKeystore();
+  if (name in keystore.wallets) {
+    throw new Error(`Wallet ${name} already exists in the keystore`);
+  }
+  const entry: KeystoreEntry = {
+    publicKey: keypair.publicKey.toBase58(),
+    label: meta.label || "",
+    tags: meta.tags || [],
+    createdAt: new Date().toISOString(),
+    crypto: encryptSecret(keypair.secretKey, getPassphrase(passphrase)),
+  };
+  keystore.wallets[name] = entry;
+  writeKeystore(keystore);
+  signerCache.set(name, keypair);
+  const { crypto: _, ...info } = entry;
+  return { name, ...info };
+}
+
+/**
+ * Imports the wallet of PRIVATE_KEY in the .env.
+ * @param {string} name - The wallet name, defaults to "default".
+ * @param {string} passphrase - The keystore passphrase.
+ * @returns {WalletInfo} The imported wallet.
+ */
+export function importFromEnv(name: string = "default", passphrase?: string) {
+  if (!private_key) throw new Error("PRIVATE_KEY is not set in the .env");
+  return addWallet(
+    name,
+    Keypair.fromSecretKey(bs58.decode(private_key)),
+    { label: "imported from PRIVATE_KEY" },
+    passphrase
+  );
+}
+
+/**
+ * Imports a keypair saved as a JSON byte array, the format read by loadOrCreateKeypair_wallet.
+ * @param {string} name - The wallet name.
+ * @param {string} filepath - The path to the JSON keypair file.
+ * @param {string} passphrase - The keystore passphrase.
+ * @returns {WalletInfo} The imported wallet.
+ */
+export function importFromJsonFile(
+  name: string,
+  filepath: string,
+  passphrase?: string
+) {
+  const secret = JSON.parse(fs.readFileSync(filepath, "utf8"));
+  return addWallet(
+    name,
+    Keypair.fromSecretKey(Uint8Array.from(secret)),
+    { label: `imported from ${path.basename(filepath)}` },
+    passphrase
+  );
+}
+
+/**
+ * Imports a list of base58 private keys, the format of WalletKeypairs/privateKeys.json.
+ * The wallets are named `${prefix}-0`, `${prefix}-1`, ... and tagged with the prefix.
+ * @param {string} prefix - The name prefix of the wallets.
+ * @param {string} filepath - The path to the JSON list of base58 private keys.
+ * @param {string} passphrase - The keystore passphrase.
+ * @returns {WalletInfo[]} The imported wallets.
+ */
+export function importFromBase58List(
+  prefix: string,
+  filepath: string,
+  passphrase?: string
+) {
+  const keys: string[] = JSON.parse(fs.readFileSync(filepath, "utf8"));
+  return keys.map((key, i) =>
+    addWallet(
+      `${prefix}-${i}`,
+      Keypair.fromSecretKey(bs58.decode(key)),
+      { label: `imported from ${path.basename(filepath)}`, tags: [prefix] },
+      passphrase
+    )
+  );
+}
+
+/**
+ * Lists the wallets of the keystore without decrypting them.
+ * @param {string} tag - Only list the wallets with this tag.
+ * @returns {WalletInfo[]} The public information of the wallets.
+ */
+export function listWallets(tag?: string): WalletInfo[] {
+  const keystore = readKeystore();
+  return Object.entries(keystore.wallets)
+    .map(([name, { crypto: _, ...info }]) => ({ name, ...info }))
+    .filter((info) => !tag || info.tags.includes(tag));
+}
+
+/**
+ * Updates the label and tags of a wallet.
+ * @param {string} name - The wallet name.
+ * @param {Object} meta - The new label and/or tags.
+ */
+export function updateWallet(
+  name: string,
+  meta: { label?: string; tags?: string[] }
+) {
+  const keystore = readKeystore();
+  const entry = keystore.wallets[name];
+  if (!entry) throw new Error(`Wallet ${name} not found in the keystore`);
+  if (meta.label !== undefined) entry.label = meta.label;
+  if (meta.tags !== undefined) entry.tags = meta.tags;
+  writeKeystore(keystore);
+}
+
+/**
+ * Removes a wallet from the keystore.
+ * @param {string} name - The wallet name.
+ */
+export function removeWallet(name: string) {
+  const keystore = readKeystore();
+  if (!(name in keystore.wallets)) {
+    throw new Error(`Wallet ${name} not found in the keystore`);
+  }
+  delete keystore.wallets[name];
+  writeKeystore(keystore);
+  signerCache.delete(name);
+}
+
+/**
+ * Resolves a wallet name to its decrypted keypair.
+ * Without a name, the PRIVATE_KEY wallet of the .env is returned.
+ * @param {string} name - The wallet name.
+ * @param {string} passphrase - The keystore passphrase, defaults to KEYSTORE_PASSPHRASE.
+ * @returns {Keypair} The signer.
+ */
+export function getSigner(name?: string | null, passphrase?: string) {
+  if (!name) return wallet;
+  const cached = signerCache.get(name);
+  if (cached) return cached;
+  const entry = readKeystore().wallets[name];
+  if (!entry) throw new Error(`Wallet ${name} not found in the keystore`);
+  const keypair = Keypair.fromSecretKey(
+    decryptSecret(entry.crypto, getPassphrase(passphrase))
+  );
+  if (keypair.publicKey.toBase58() !== entry.publicKey) {
+    throw new Error(`Wallet ${name} does not match its public key`);
+  }
+  signerCache.set(name, keypair);
+  return keypair;
+}
+
+/**
+ * Resolves every wallet with a tag, e.g. the sniper wallets of a bundle.
+ * @param {string} tag - The tag to look for.
+ * @param {string} passphrase - The keystore passphrase.
+ * @returns {Keypair[]} The signers, in keystore order.
+ */
+export function getSignersByTag(tag: string, passphrase?: string) {
+  return listWallets(tag).map((info) => getSigner(info.name, passphrase));
+}
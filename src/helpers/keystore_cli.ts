@@ -0,0 +1,91 @@
+import { Keypair } from "@solana/web3.js";
+import { program } from "commander";
+import {
+  addWallet,
+  importFromEnv,
+  importFromJsonFile,
+  importFromBase58List,
+  listWallets,
+  updateWallet,
+  removeWallet,
+} from "./keystore";
+import { logger } from "./logger";
+
+const parseTags = (tags?: string) =>
+  tags ? tags.split(",").map((t) => t.trim()) : undefined;
+
+program
+  .command("import-env")
+  .description("Import PRIVATE_KEY of the .env")
+  .option("--name <NAME>", "Specify the wallet name", "default")
+  .action((options: any) => {
+    console.log(importFromEnv(options.name));
+  });
+
+program
+  .command("import-json")
+  .description("Import a keypair saved as a JSON byte array")
+  .requiredOption("--name <NAME>", "Specify the wallet name")
+  .requiredOption("--file <PATH_TO_SECRET_KEY>", "Specify the path to the secret key")
+  .action((options: any) => {
+    console.log(importFromJsonFile(options.name, options.file));
+  });
+
+program
+  .command("import-base58")
+  .description("Import a JSON list of base58 private keys, e.g. WalletKeypairs/privateKeys.json")
+  .requiredOption("--prefix <PREFIX>", "Specify the name prefix, also used as tag")
+  .requiredOption("--file <PATH_TO_KEYS>", "Specify the path to the private keys")
+  .action((options: any) => {
+    console.log(importFromBase58List(options.prefix, options.file));
+  });
+
+program
+  .command("new")
+  .description("Generate a new wallet")
+  .requiredOption("--name <NAME>", "Specify the wallet name")
+  .option("--label <LABEL>", "Specify the wallet label")
+  .option("--tags <TAGS>", "Specify comma separated tags")
+  .action((options: any) => {
+    console.log(
+      addWallet(options.name, Keypair.generate(), {
+        label: options.label,
+        tags: parseTags(options.tags),
+      })
+    );
+  });
+
+program
+  .command("list")
+  .description("List the wallets of the keystore")
+  .option("--tag <TAG>", "Only list the wallets with this tag")
+  .action((options: any) => {
+    for (const info of listWallets(options.tag)) {
+      logger.info(
+        `${info.name}\t${info.publicKey}\t${info.label}\t[${info.tags.join(", ")}]`
+      );
+    }
+  });
+
+program
+  .command("tag")
+  .description("Set the label and tags of a wallet")
+  .requiredOption("--name <NAME>", "Specify the wallet name")
+  .option("--label <LABEL>", "Specify the wallet label")
+  .option("--tags <TAGS>", "Specify comma separated tags")
+  .action((options: any) => {
+    updateWallet(options.name, {
+      label: options.label,
+      tags: parseTags(options.tags),
+    });
+  });
+
+program
+  .command("remove")
+  .description("Remove a wallet from the keystore")
+  .requiredOption("--name <NAME>", "Specify the wallet name")
+  .action((options: any) => {
+    removeWallet(options.name);
+  });
+
+program.parse();
@@ -0,0 +1,287 @@
+import fs from "fs";
+import { NATIVE_MINT } from "@solana/spl-token";
+import { pool_registry_path, pool_registry_ttl_ms } from "./config";
+
+const WSOL_MINT = NATIVE_MINT.toBase58();
+
+/**
+ * Venue of a registered pool. The dex modules use "raydium" for the pool their swaps go
+ * through, "raydium-amm" for the AMM v4 pool of fetchAMMPoolId, "orca", "meteora" for the
+ * pool the Meteora swaps go through, of type "dlmm" or "damm", and "meteora-dlmm" for fetchDLMMPoolId.
+ */
+export type PoolVenue = string;
+
+export interface PoolEntry {
+  poolId: string;
+  type?: string; // venue specific pool type, e.g. "amm", "clmm" or "cpmm" on raydium
+  keys?: any; // pool keys as JSON, public keys as base58 strings
+  pinned: boolean; // pinned pools never expire and are kept by invalidatePool
+  updatedAt: string;
+}
+
+export interface PoolRegistryItem extends PoolEntry {
+  mint: string;
+  venue: PoolVenue;
+  quoteMint: string;
+  expired: boolean;
+}
+
+interface PoolRegistryFile {
+  version: 1;
+  pools: {
+    [mint: string]: { [venue: string]: { [quoteMint: string]: PoolEntry } };
+  };
+}
+
+const LOCK_RETRY_MS = 20;
+const LOCK_TIMEOUT_MS = 5_000;
+const LOCK_STALE_MS = 30_000; // a lock older than this was left by a process that died
+
+// the file is read again only when another process wrote it
+let registryCache: { mtimeMs: number; registry: PoolRegistryFile } | null = null;
+
+function readRegistry(): PoolRegistryFile {
+  if (!fs.existsSync(pool_registry_path)) return { version: 1, pools: {} };
+  const { mtimeMs } = fs.statSync(pool_registry_path);
+  if (!registryCache || registryCache.mtimeMs !== mtimeMs) {
+    registryCache = {
+      mtimeMs,
+      registry: JSON.parse(fs.readFileSync(pool_registry_path, "utf8")),
+    };
+  }
+  return registryCache.registry;
+}
+
+function writeRegistry(registry: PoolRegistryFile) {
+  // written to a temporary file first so a reader never sees half a registry
+  const tmp = `${pool_registry_path}.${process.pid}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify(registry, null, 2));
+  fs.renameSync(tmp, pool_registry_path);
+  registryCache = {
+    mtimeMs: fs.statSync(pool_registry_path).mtimeMs,
+    registry,
+  };
+}
+
+/**
+ * Reads, updates and writes the registry while holding a lock file, so processes
+ * registering pools at the same time do not drop each other's entries.
+ * The registry is read from the file again once the lock is held, waiting for the lock does not block the event loop.
+ * @param {Function} update - Changes the registry and writes it with writeRegistry if needed.
+ * @returns {Promise} The value returned by update.
+ * @throws {Error} If another process holds the lock for longer than LOCK_TIMEOUT_MS.
+ */
+async function updateRegistry<T>(update: (registry: PoolRegistryFile) => T): Promise<T> {
+  const lock = `${pool_registry_path}.lock`;
+  const start = Date.now();
+  let fd: number;
+  for (;;) {
+    try {
+      fd = fs.openSync(lock, "wx");
+      break;
+    } catch (e: any) {
+      if (e.code !== "EEXIST") throw e;
+    }
+    try {
+      if (Date.now() - fs.statSync(lock).mtimeMs > LOCK_STALE_MS) {
+        fs.unlinkSync(lock);
+        continue;
+      }
+    } catch (e) {
+      continue; // released in the meantime
+    }
+    if (Date.now() - start > LOCK_TIMEOUT_MS) {
+      throw new Error(`The pool registry is locked by another process, remove ${lock} if none is running`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS));
+  }
+  try {
+    registryCache = null;
+    return update(readRegistry());
+  } finally {
+    fs.closeSync(fd);
+    fs.unlinkSync(lock);
+  }
+}
+
+function isExpired(entry: PoolEntry) {
+  if (entry.pinned || pool_registry_ttl_ms <= 0) return false;
+  return Date.now() - new Date(entry.updatedAt).getTime() > pool_registry_ttl_ms;
+}
+
+/**
+ * Gets the registered pool of a token on a venue.
+ * @param {string} mint - The token mint.
+ * @param {PoolVenue} venue - The venue of the pool.
+ * @param {string} quoteMint - The mint the token is paired with, WSOL by default.
+ * @returns {PoolEntry | null} The pool, null if it is not registered or expired.
+ */
+export function getPoolEntry(
+  mint: string,
+  venue: PoolVenue,
+  quoteMint: string = WSOL_MINT
+): PoolEntry | null {
+  const entry = readRegistry().pools[mint]?.[venue]?.[quoteMint];
+  if (!entry || isExpired(entry)) return null;
+  return entry;
+}
+
+/**
+ * Registers the pool of a token on a venue.
+ * A pinned pool is kept, only its type and keys are updated when the pool ids match.
+ * @param {string} mint - The token mint.
+ * @param {PoolVenue} venue - The venue of the pool.
+ * @param {Object} pool - The pool id, and optionally its type and keys.
+ * @param {string} quoteMint - The mint the token is paired with, WSOL by default.
+ * @returns {Promise<PoolEntry>} The registered pool.
+ */
+export async function savePoolEntry(
+  mint: string,
+  venue: PoolVenue,
+  pool: { poolId: string; type?: string; keys?: any },
+  quoteMint: string = WSOL_MINT
+): Promise<PoolEntry> {
+  return await updateRegistry((registry) => {
+    const venues = (registry.pools[mint] = registry.pools[mint] || {});
+    const quotes = (venues[venue] = venues[venue] || {});
+    const current = quotes[quoteMint];
+    if (current?.pinned && current.poolId !== pool.poolId) return current;
+    const entry: PoolEntry = {
+      ...current,
+      poolId: pool.poolId,
+      type: pool.type ?? current?.type,
+      // JSON round trip so public keys are stored as strings
+      keys: pool.keys ? JSON.parse(JSON.stringify(pool.keys)) : current?.keys,
+      pinned: current?.pinned || false,
+      updatedAt: new Date().toISOString(),
+    };
+    quotes[quoteMint] = entry;
+    writeRegistry(registry);
+    return entry;
+  });
+}
+
+/**
+ * Gets the registered pool of a token, or fetches and registers it.
+ * @param {string} mint - The token mint.
+ * @param {PoolVenue} venue - The venue of the pool.
+ * @param {string} quoteMint - The mint the token is paired with.
+ * @param {Function} fetchPool - Looks the pool up when it is not registered, returns null or an empty id if there is none.
+ * @returns {Promise<PoolEntry | null>} The pool, null if it was not found.
+ */
+export async function resolvePoolEntry(
+  mint: string,
+  venue: PoolVenue,
+  quoteMint: string,
+  fetchPool: () => Promise<{ poolId: string; type?: string; keys?: any } | null>
+): Promise<PoolEntry | null> {
+  const entry = getPoolEntry(mint, venue, quoteMint);
+  if (entry) return entry;
+  const pool = await fetchPool();
+  if (!pool || !pool.poolId) return null;
+  return await savePoolEntry(mint, venue, pool, quoteMint);
+}
+
+/**
+ * Pins a pool, it is then used for the token on that venue until unpinned.
+ * @param {string} mint - The token mint.
+ * @param {PoolVenue} venue - The venue of the pool.
+ * @param {string} poolId - The pool to use.
+ * @param {string} quoteMint - The mint the token is paired with, WSOL by default.
+ * @param {string} type - The venue specific pool type.
+ * @returns {Promise<PoolEntry>} The pinned pool.
+ */
+export async function pinPool(
+  mint: string,
+  venue: PoolVenue,
+  poolId: string,
+  quoteMint: string = WSOL_MINT,
+  type?: string
+): Promise<PoolEntry> {
+  return await updateRegistry((registry) => {
+    const venues = (registry.pools[mint] = registry.pools[mint] || {});
+    const quotes = (venues[venue] = venues[venue] || {});
+    const current = quotes[quoteMint];
+    const entry: PoolEntry = {
+      poolId,
+      type: type ?? (current?.poolId === poolId ? current.type : undefined),
+      keys: current?.poolId === poolId ? current.keys : undefined,
+      pinned: true,
+      updatedAt: new Date().toISOString(),
+    };
+    quotes[quoteMint] = entry;
+    writeRegistry(registry);
+    return entry;
+  });
+}
+
+/**
+ * Unpins a pool, it then expires like any fetched pool.
+ * @param {string} mint - The token mint.
+ * @param {PoolVenue} venue - The venue of the pool.
+ * @param {string} quoteMint - The mint the token is paired with, WSOL by default.
+ */
+export async function unpinPool(
+  mint: string,
+  venue: PoolVenue,
+  quoteMint: string = WSOL_MINT
+) {
+  await updateRegistry((registry) => {
+    const entry = registry.pools[mint]?.[venue]?.[quoteMint];
+    if (!entry) throw new Error(`No ${venue} pool registered for ${mint}`);
+    entry.pinned = false;
+    writeRegistry(registry);
+  });
+}
+
+/**
+ * Removes the unpinned pools of a token so they are fetched again.
+ * @param {string} mint - The token mint.
+ * @param {PoolVenue} venue - Only remove the pools of this venue.
+ * @param {string} quoteMint - Only remove the pools paired with this mint.
+ * @returns {Promise<number>} The number of pools removed.
+ */
+export async function invalidatePool(
+  mint: string,
+  venue?: PoolVenue,
+  quoteMint?: string
+) {
+  return await updateRegistry((registry) => {
+    const venues = registry.pools[mint];
+    if (!venues) return 0;
+    let removed = 0;
+    for (const v of Object.keys(venues)) {
+      if (venue && v !== venue) continue;
+      for (const q of Object.keys(venues[v])) {
+        if (quoteMint && q !== quoteMint) continue;
+        if (venues[v][q].pinned) continue;
+        delete venues[v][q];
+        removed++;
+      }
+      if (Object.keys(venues[v]).length === 0) delete venues[v];
+    }
+    if (Object.keys(venues).length === 0) delete registry.pools[mint];
+    if (removed > 0) writeRegistry(registry);
+    return removed;
+  });
+}
+
+/**
+ * Lists the registered pools.
+ * @param {string} mint - Only list the pools of this token.
+ * @returns {PoolRegistryItem[]} The pools, expired ones included.
+ */
+export function listPoolEntries(mint?: string): PoolRegistryItem[] {
+  const registry = readRegistry();
+  const items: PoolRegistryItem[] = [];
+  for (const m of Object.keys(registry.pools)) {
+    if (mint && m !== mint) continue;
+    for (const venue of Object.keys(registry.pools[m])) {
+      for (const quoteMint of Object.keys(registry.pools[m][venue])) {
+        const entry = registry.pools[m][venue][quoteMint];
+        items.push({ mint: m, venue, quoteMint, ...entry, expired: isExpired(entry) });
+      }
+    }
+  }
+  return items;
+}
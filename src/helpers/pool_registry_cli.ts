@@ -0,0 +1,61 @@
+import { program } from "commander";
+import { NATIVE_MINT } from "@solana/spl-token";
+import {
+  listPoolEntries,
+  pinPool,
+  unpinPool,
+  invalidatePool,
+} from "./pool_registry";
+import { logger } from "./logger";
+
+const WSOL_MINT = NATIVE_MINT.toBase58();
+
+program
+  .command("list")
+  .description("List the registered pools")
+  .option("--token <ADDRESS_TOKEN>", "Only list the pools of this token")
+  .action((options: any) => {
+    for (const item of listPoolEntries(options.token)) {
+      logger.info(
+        `${item.mint}\t${item.venue}${item.type ? ` (${item.type})` : ""}\t${item.quoteMint}\t${item.poolId}\t${item.pinned ? "pinned" : item.expired ? "expired" : item.updatedAt}`
+      );
+    }
+  });
+
+program
+  .command("pin")
+  .description("Always use a pool for a token on a venue")
+  .requiredOption("--token <ADDRESS_TOKEN>", "Specify the token address")
+  .requiredOption("--venue <VENUE>", "Specify the venue, e.g. raydium, raydium-amm, orca or meteora")
+  .requiredOption("--pool <POOL_ID>", "Specify the pool id")
+  .option("--quote-mint <QUOTE_MINT>", "Specify the mint the token is paired with", WSOL_MINT)
+  .option("--type <TYPE>", "Specify the pool type, e.g. amm, clmm or cpmm on raydium, dlmm or damm on meteora")
+  .action(async (options: any) => {
+    console.log(
+      await pinPool(options.token, options.venue, options.pool, options.quoteMint, options.type)
+    );
+  });
+
+program
+  .command("unpin")
+  .description("Let a pinned pool expire like a fetched one")
+  .requiredOption("--token <ADDRESS_TOKEN>", "Specify the token address")
+  .requiredOption("--venue <VENUE>", "Specify the venue")
+  .option("--quote-mint <QUOTE_MINT>", "Specify the mint the token is paired with", WSOL_MINT)
+  .action(async (options: any) => {
+    await unpinPool(options.token, options.venue, options.quoteMint);
+  });
+
+program
+  .command("invalidate")
+  .description("Remove the unpinned pools of a token so they are fetched again")
+  .requiredOption("--token <ADDRESS_TOKEN>", "Specify the token address")
+  .option("--venue <VENUE>", "Only remove the pools of this venue")
+  .option("--quote-mint <QUOTE_MINT>", "Only remove the pools paired with this mint")
+  .action(async (options: any) => {
+    console.log(
+      `Removed ${await invalidatePool(options.token, options.venue, options.quoteMint)} pools`
+    );
+  });
+
+program.parse();
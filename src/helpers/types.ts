@@ -0,0 +1,41 @@
+import type {
+  ExecutorName,
+  TransactionExecutor,
+} from "../transactions/tx_executor";
+import type { Urgency } from "../transactions/fee_estimator";
+
+/**
+ * Per-call options accepted by the DEX swap functions.
+ */
+export interface SwapOptions {
+  executor?: ExecutorName | TransactionExecutor; // defaults to TX_EXECUTOR
+  urgency?: Urgency; // priority fee and tip level, defaults to FEE_URGENCY
+  dryRun?: boolean; // simulate and print the expected outcome instead of sending, defaults to DRY_RUN
+  slippageBps?: number; // tolerated slippage in basis points, defaults to SLIPPAGE_BPS or the venue default
+  maxPriceImpact?: number; // in percent, the swap is aborted before signing above it, defaults to MAX_PRICE_IMPACT
+}
+
+export type SwapStatus = "confirmed" | "failed" | "simulated";
+
+/**
+ * Outcome of a swap, returned by every DEX swap function.
+ * Amounts are in UI units of their mint; SOL is reported under the WSOL mint.
+ */
+export interface SwapResult {
+  signature: string | null; // null when the swap was not sent
+  status: SwapStatus;
+  inputMint: string;
+  outputMint: string;
+  inAmount: number | null; // amount spent, read from the post-balances
+  outAmount: number | null; // amount received, read from the post-balances
+  priceImpact: number | null; // in percent, as quoted before sending
+  feesPaid: number; // network fee and tip in SOL
+  executor: string;
+  slot: number | null;
+  error: string | null;
+  timings: {
+    buildMs: number; // quote and transaction assembly
+    submitMs: number; // submission until landing, failure or expiry
+    totalMs: number; // includes reading the balances
+  };
+}
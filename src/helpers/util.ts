@@ -11,6 +11,8 @@ import {
   wallet,
 } from "./config";
 import { Metaplex } from "@metaplex-foundation/js";
+import { getPriorityFeeInstruction } from "../transactions/fee_estimator";
+import { fitComputeUnitLimit } from "../transactions/compute_budget";
 import fs from "fs";
 import {
   Connection,
@@ -19,7 +21,6 @@ import {
   TransactionInstruction,
   TransactionMessage,
   Transaction,
-  ComputeBudgetProgram,
 } from "@solana/web3.js";
 
 /**
@@ -109,29 +110,32 @@ export async function getWalletTokenAccount(localconnection:Connection, localwal
 export async function buildAndSendTx(innerSimpleV0Transaction:any, options:any) {
   try {
     const recentBlockhash = await connection.getLatestBlockhash("confirmed");
-    const priority_fee_arr = [
-      ComputeBudgetProgram.setComputeUnitLimit({
-        units: 101337,
-      }),
-      ComputeBudgetProgram.setComputeUnitPrice({
-        microLamports: 421197,
-      }),
-    ];
     console.log(innerSimpleV0Transaction);
     const original_inner_instructions =
       innerSimpleV0Transaction[0].instructions;
     innerSimpleV0Transaction[0].instructions = [
-      ...priority_fee_arr,
+      await getPriorityFeeInstruction(original_inner_instructions),
       ...original_inner_instructions,
     ];
     console.log("innerSimpleV0Transaction: ", innerSimpleV0Transaction);
-    const willSendTx = await buildSimpleTransaction({
+    const builtTxs = await buildSimpleTransaction({
       connection: connection,
       makeTxVersion: makeTxVersion,
       payer: wallet.publicKey,
       innerTransactions: innerSimpleV0Transaction,
       addLookupTableInfo: addLookupTableInfo,
     });
+    // size the compute unit limit of every transaction from a simulation,
+    // then restore the signatures of the extra signers dropped by the rebuild
+    const willSendTx = await Promise.all(
+      builtTxs.map(async (tx: any, i: number) => {
+        if (!(tx instanceof VersionedTransaction)) return tx;
+        const fitted = await fitComputeUnitLimit(tx);
+        const signers = innerSimpleV0Transaction[i].signers;
+        if (fitted !== tx && signers.length > 0) fitted.sign(signers);
+        return fitted;
+      })
+    );
     console.log("willSendTx", willSendTx);
 
     return await sendTx(connection, wallet, willSendTx, options);
@@ -172,21 +176,14 @@ export async function loadOrCreateKeypair_wallet(filepath:string) {
     return newKeypair;
   }
 }
+/**
+ * Checks whether a blockhash can no longer land a transaction.
+ * @param {number} lastValidBlockHeight - The last valid block height of a finalized blockhash.
+ * @returns {Promise<boolean>} True if the blockhash has expired.
+ */
 export async function isBlockhashExpired(lastValidBlockHeight:number) {
-  let currentBlockHeight = await connection.getBlockHeight("finalized");
-  console.log("                           ");
-  console.log("Current Block height:             ", currentBlockHeight);
-  console.log(
-    "Last Valid Block height - 150:     ",
-    lastValidBlockHeight - 150
-  );
-  console.log("--------------------------------------------");
-  console.log(
-    "Difference:                      ",
-    currentBlockHeight - (lastValidBlockHeight - 150)
-  ); // If Difference is positive, blockhash has expired.
-  console.log("                           ");
-
+  const currentBlockHeight = await connection.getBlockHeight("finalized");
+  // a finalized blockhash is already about 150 blocks old when fetched
   return currentBlockHeight > lastValidBlockHeight - 150;
 }
 export const sleep = (ms:number) => {
@@ -237,4 +234,29 @@ export async function getDecimals(mintAddress: PublicKey): Promise<number> {
   const info: any = await connection.getParsedAccountInfo(mintAddress);
   const result = (info.value?.data).parsed.info.decimals || 0;
   return result;
-}
\ No newline at end of file
+}
+/**
+ * Rejects if a promise does not settle in time.
+ * @param {Promise<T>} promise - The promise to wait for.
+ * @param {number} ms - The time limit in milliseconds.
+ * @param {string} label - Names the operation in the timeout error.
+ * @returns {Promise<T>} The value of the promise.
+ */
+export async function withTimeout<T>(
+  promise: Promise<T>,
+  ms: number,
+  label: string = "operation"
+): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new Error(`${label} timed out after ${ms}ms`)),
+      ms
+    );
+  });
+  try {
+    return await Promise.race([promise, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
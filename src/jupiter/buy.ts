@@ -2,11 +2,17 @@ import { logger } from "../helpers/logger";
 import { program } from "commander";
 import { buy } from "./swap";
 import { wallet } from "../helpers/config";
+import { exitOnPriceImpact } from "../transactions/swap_guard";
 let token:string="",
   sol:number=0;
+let dryRun = false;
+let slippageBps: number | undefined, maxPriceImpact: number | undefined;
 program
   .option("--token <ADDRESS_TOKEN>", "Specify the token address")
   .option("--sol <NUMBER_OF_SOL>", "Specify the number of SOL")
+  .option("--dry-run", "Simulate the swap and print the expected outcome without sending it")
+  .option("--slippage <BPS>", "Specify the slippage in basis points, 100 = 1%")
+  .option("--max-price-impact <PERCENT>", "Abort the swap before signing if the price impact is above this percentage")
   .option("-h, --help", "display help for command")
   .action((options) => {
     if (options.help) {
@@ -21,6 +27,11 @@ program
     }
     token = options.token;
     sol = options.sol;
+    dryRun = !!options.dryRun;
+    slippageBps = options.slippage ? parseInt(options.slippage) : undefined;
+    maxPriceImpact = options.maxPriceImpact
+      ? parseFloat(options.maxPriceImpact)
+      : undefined;
   });
 program.parse();
 
@@ -33,6 +44,6 @@ program.parse();
  * @returns {Promise<void>} - A promise that resolves when the swap is completed.
  */
 async function buy_cli(side:string, token_address:string, no_of_sol:number) {
-  await buy(token_address, no_of_sol, 1); // using 1% slippage
+  await buy(token_address, no_of_sol, 1, { dryRun, slippageBps, maxPriceImpact }); // using 1% slippage
 }
-buy_cli("buy", token, sol);
+buy_cli("buy", token, sol).catch(exitOnPriceImpact);
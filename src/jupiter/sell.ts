@@ -4,12 +4,18 @@ import { program } from "commander";
 import {getSPLTokenBalance} from "../helpers/check_balance"
 import { connection, wallet } from "../helpers/config";
 import { PublicKey } from "@solana/web3.js";
+import { exitOnPriceImpact } from "../transactions/swap_guard";
 
 let token:string="",
   percentage:number=0;
+let dryRun = false;
+let slippageBps: number | undefined, maxPriceImpact: number | undefined;
 program
   .option("--token <ADDRESS_TOKEN>", "Specify the token address")
   .option("--percentage <SELL_PERCENTAGE>", "Specify the sell percentage")
+  .option("--dry-run", "Simulate the swap and print the expected outcome without sending it")
+  .option("--slippage <BPS>", "Specify the slippage in basis points, 100 = 1%")
+  .option("--max-price-impact <PERCENT>", "Abort the swap before signing if the price impact is above this percentage")
   .option("-h, --help", "display help for command")
   .action((options) => {
     if (options.help) {
@@ -24,6 +30,11 @@ program
     }
     token = options.token;
     percentage = options.percentage;
+    dryRun = !!options.dryRun;
+    slippageBps = options.slippage ? parseInt(options.slippage) : undefined;
+    maxPriceImpact = options.maxPriceImpact
+      ? parseFloat(options.maxPriceImpact)
+      : undefined;
   });
 program.parse();
 
@@ -37,6 +48,6 @@ program.parse();
  */
 async function sell_cli(side:string, token_address:string, sell_percentage:number) {
   const balance = await getSPLTokenBalance(connection, new PublicKey(token_address), wallet.publicKey);
-  await sell(token_address, balance*percentage/100, 1); // using 1% slippage
+  await sell(token_address, balance*percentage/100, 1, { dryRun, slippageBps, maxPriceImpact }); // using 1% slippage
 }
-sell_cli("sell", token, percentage);
+sell_cli("sell", token, percentage).catch(exitOnPriceImpact);
@@ -1,47 +1,38 @@
-import {getQuote, getSwapTransaction, convertToInteger, finalizeTransaction} from "./swap-helper";
+import { convertToInteger, executeSwap } from "./swap-helper";
+import { PriceImpactError } from "../../transactions/swap_guard";
 import { PublicKey } from "@solana/web3.js";
 import { wallet } from "../../helpers/config";
 import { getDecimals } from "../../helpers/util";
+import { SwapOptions, SwapResult } from "../../helpers/types";
 const wsol = "So11111111111111111111111111111111111111112";
 
 /**
  * Buys a token using the specified parameters.
  *
  * @param {string} tokenToBuy - The token to be swapped for.
- * @param {number} amountTokenOut - The amount of token to be received.
- * @param {number} slippage - The slippage tolerance percentage.
- * @returns {Promise<void>} - A promise that resolves when the buy operation is completed.
- * @throws {Error} - If an error occurs during the buy operation.
+ * @param {number} amountTokenOut - The amount of SOL to spend.
+ * @param {number} slippage - The slippage tolerance in basis points.
+ * @param {SwapOptions} options - Per-call options such as the transaction executor and the maximum price impact.
+ * @returns {Promise<SwapResult | null>} - The result of the buy operation, null if it could not be quoted or built.
+ * @throws {PriceImpactError} If the price impact is above options.maxPriceImpact.
  */
-export async function buy(tokenToBuy:string, amountTokenOut:number, slippage:any) {
+export async function buy(tokenToBuy:string, amountTokenOut:number, slippage:any, options:SwapOptions = {}): Promise<SwapResult | null> {
   try {
     const convertedAmountOfTokenOut = await convertToInteger(
       amountTokenOut,
       9
     );
-    const quoteResponse = await getQuote(
+    return await executeSwap(
       wsol,
       tokenToBuy,
       convertedAmountOfTokenOut,
-      slippage
+      slippage,
+      options
     );
-    console.log(quoteResponse);
-    const wallet_PubKey = wallet.publicKey.toBase58();
-    const swapTransaction = await getSwapTransaction(
-      quoteResponse,
-      wallet_PubKey
-    );
-    const { confirmed, signature } =
-      await finalizeTransaction(swapTransaction);
-    if (confirmed) {
-      console.log("http://solscan.io/tx/" + signature);
-    } else {
-      console.log("Transaction failed");
-      console.log("retrying transaction...");
-      await buy(tokenToBuy, amountTokenOut, slippage);
-    }
   } catch (error) {
+    if (error instanceof PriceImpactError) throw error;
     console.error(error);
+    return null;
   }
 }
 
@@ -1,55 +1,43 @@
-import {
-  convertToInteger,
-  getQuote,
-  getSwapTransaction,
-  finalizeTransaction,
-} from "./swap-helper";
+import { convertToInteger, executeSwap } from "./swap-helper";
+import { PriceImpactError } from "../../transactions/swap_guard";
 import { PublicKey } from "@solana/web3.js";
 import { wallet } from "../../helpers/config";
 import { getDecimals } from "../../helpers/util";
+import { SwapOptions, SwapResult } from "../../helpers/types";
 const wsol = "So11111111111111111111111111111111111111112";
 
 /**
  * Sells a specified amount of a token on the DEX.
  * @param {string} tokenToSell - The address of the token to sell.
  * @param {number} amountOfTokenToSell - The amount of the token to sell.
- * @param {number} slippage - The slippage tolerance percentage.
- * @returns {Promise<void>} - A promise that resolves when the sell operation is completed.
+ * @param {number} slippage - The slippage tolerance in basis points.
+ * @param {SwapOptions} options - Per-call options such as the transaction executor and the maximum price impact.
+ * @returns {Promise<SwapResult | null>} - The result of the sell operation, null if it could not be quoted or built.
+ * @throws {PriceImpactError} If the price impact is above options.maxPriceImpact.
  */
 export async function sell(
   tokenToSell: string,
   amountOfTokenToSell: number,
-  slippage: any
-) {
+  slippage: any,
+  options: SwapOptions = {}
+): Promise<SwapResult | null> {
   try {
     const decimals = await getDecimals(new PublicKey(tokenToSell));
-    console.log(decimals);
     const convertedAmountOfTokenOut = await convertToInteger(
       amountOfTokenToSell,
       decimals
     );
-    console.log(convertedAmountOfTokenOut);
-    const quoteResponse = await getQuote(
+    return await executeSwap(
       tokenToSell,
       wsol,
       convertedAmountOfTokenOut,
-      slippage
+      slippage,
+      options
     );
-    const wallet_PubKey = wallet.publicKey.toBase58();
-    const swapTransaction = await getSwapTransaction(
-      quoteResponse,
-      wallet_PubKey
-    );
-    const { confirmed, signature } = await finalizeTransaction(swapTransaction);
-    if (confirmed) {
-      console.log("http://solscan.io/tx/" + signature);
-    } else {
-      console.log("Transaction failed");
-      console.log("retrying transaction...");
-      await sell(tokenToSell, amountOfTokenToSell, slippage);
-    }
   } catch (error) {
+    if (error instanceof PriceImpactError) throw error;
     console.error(error);
+    return null;
   }
 }
 
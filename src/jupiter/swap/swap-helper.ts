@@ -1,8 +1,22 @@
 import { VersionedTransaction, PublicKey } from "@solana/web3.js";
 import fetch from "cross-fetch";
-import { connection, wallet, jito_fee } from "../../helpers/config";
-import { jito_executeAndConfirm } from "../../transactions/jito_tips_tx_executor";
+import { connection, wallet } from "../../helpers/config";
+import { resolveExecutor } from "../../transactions/tx_executor";
+import { SwapOptions } from "../../helpers/types";
+import { Urgency, estimatePriorityFee } from "../../transactions/fee_estimator";
+import { fitComputeUnitLimit } from "../../transactions/compute_budget";
 import { getDecimals } from "../../helpers/util";
+import {
+  buildSwapResult,
+  printSwapResult,
+  startSwapTimer,
+} from "../../transactions/swap_result";
+import {
+  PriceImpactError,
+  checkPriceImpact,
+  getSlippageBps,
+} from "../../transactions/swap_guard";
+import { SwapResult } from "../../helpers/types";
 /**
  * Retrieves a quote for swapping tokens.
  *
@@ -28,21 +42,26 @@ export async function getQuote(
  * Retrieves the swap transaction from the quote API.
  * @param {Object} quoteResponse - The quote response object.
  * @param {string} wallet_pubKey - The public key of the user's wallet.
+ * @param {Urgency} urgency - The priority fee level, defaults to FEE_URGENCY.
  * @returns {Promise<string>} - The swap transaction.
  * @throws {Error} - If an error occurs during the process.
  */
 export async function getSwapTransaction(
   quoteResponse: any,
-  wallet_pubKey: string
+  wallet_pubKey: string,
+  urgency?: Urgency
 ) {
   try {
+    // the pools of the route are the accounts the swap write-locks
+    const ammKeys = (quoteResponse.routePlan || []).map(
+      (step: any) => new PublicKey(step.swapInfo.ammKey)
+    );
     let body = null;
     body = {
       quoteResponse,
       userPublicKey: wallet_pubKey,
       wrapAndUnwrapSol: true,
-      dynamicComputeUnitLimit: true, // allow dynamic compute limit instead of max 1,400,000
-      prioritizationFeeLamports: 4211970, // prioritization fee
+      computeUnitPriceMicroLamports: await estimatePriorityFee(ammKeys, urgency), // prioritization fee
     };
     const resp = await fetch("https://quote-api.jup.ag/v6/swap", {
       method: "POST",
@@ -69,76 +88,136 @@ export async function convertToInteger(amount: number, decimals: number) {
 
 /**
  * Finalizes a swap transaction by deserializing, signing, and executing the transaction.
+ * Jupiter transactions use address lookup tables, so the bloXroute executor cannot re-pack them.
  * @param {string} swapTransaction - The base64 encoded swap transaction.
- * @returns {Promise<{ confirmed: boolean, signature: string }>} - A promise that resolves to an object containing the confirmation status and transaction signature.
+ * @param {SwapOptions} options - Per-call options such as the transaction executor.
+ * @returns {Promise<{ confirmed: boolean, signature: string, simulation?: SimulationReport, result: SubmitResult, executor: string }>} - A promise that resolves to an object containing the confirmation status, the transaction signature, in dry-run mode the simulation report, and the raw result of the executor.
  * @throws {Error} - If an error occurs during the transaction finalization process.
  */
-export async function finalizeTransaction(swapTransaction: any) {
+export async function finalizeTransaction(
+  swapTransaction: any,
+  options: SwapOptions = {}
+) {
   try {
-    let confirmed = null,
-      signature = null;
     // deserialize the transaction
     const swapTransactionBuf = Buffer.from(swapTransaction, "base64");
     let transaction = VersionedTransaction.deserialize(swapTransactionBuf);
-    // sign the transaction
-    transaction.sign([wallet]);
+    // replace the default 1,400,000 compute unit limit with the simulated usage
+    transaction = await fitComputeUnitLimit(transaction);
 
     const latestBlockhash = await connection.getLatestBlockhash("confirmed");
-    const res = await jito_executeAndConfirm(
-      transaction,
-      wallet,
+    const executor = resolveExecutor(options);
+    const res = await executor.submit(transaction, [wallet], {
       latestBlockhash,
-      jito_fee
-    );
-    confirmed = res.confirmed;
-    signature = res.signature;
-    return { confirmed, signature };
+      urgency: options.urgency,
+    });
+    return {
+      confirmed: res.landed,
+      signature: res.signature,
+      simulation: res.simulation,
+      result: res,
+      executor: executor.name,
+    };
   } catch (error: any) {
     throw new Error(error);
   }
-  return { confirmed: false, signature: null };
 }
+
+/**
+ * Quotes, builds and sends a swap, quoting again when the transaction does not land.
+ * @param {string} inputMint - The mint of the token to sell.
+ * @param {string} outputMint - The mint of the token to buy.
+ * @param {number} amount - The amount of input token, in its smallest unit.
+ * @param {number} slippage - The allowed slippage in basis points, options.slippageBps takes precedence.
+ * @param {SwapOptions} options - Per-call options such as the transaction executor and the maximum price impact.
+ * @param {number} maxAttempts - The number of quotes to try before giving up.
+ * @returns {Promise<SwapResult>} - The result of the last attempt.
+ * @throws {PriceImpactError} If a quote has a price impact above options.maxPriceImpact.
+ */
+export async function executeSwap(
+  inputMint: string,
+  outputMint: string,
+  amount: number,
+  slippage: any,
+  options: SwapOptions = {},
+  maxAttempts: number = 3
+): Promise<SwapResult> {
+  const slippageBps = getSlippageBps(
+    { ...options, slippageBps: options.slippageBps ?? slippage },
+    slippage
+  );
+  let result: SwapResult | null = null;
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const timer = startSwapTimer();
+    const quoteResponse = await getQuote(inputMint, outputMint, amount, slippageBps);
+    if (quoteResponse.error) {
+      throw new Error(`Jupiter quote failed: ${quoteResponse.error}`);
+    }
+    const priceImpact = parseFloat(quoteResponse.priceImpactPct) * 100;
+    checkPriceImpact("jupiter", priceImpact, options);
+    const swapTransaction = await getSwapTransaction(
+      quoteResponse,
+      wallet.publicKey.toBase58(),
+      options.urgency
+    );
+    timer.submitStart = Date.now();
+    const { result: res, executor } = await finalizeTransaction(
+      swapTransaction,
+      options
+    );
+    timer.submitEnd = Date.now();
+    result = await buildSwapResult(
+      {
+        owner: wallet.publicKey,
+        inputMint,
+        outputMint,
+        priceImpact,
+        executor,
+      },
+      res,
+      timer
+    );
+    printSwapResult(result);
+    if (result.status !== "failed") break;
+    if (attempt < maxAttempts) console.log("retrying transaction...");
+  }
+  return result as SwapResult;
+}
+
 /**
  * Performs a token swap transaction.
  *
  * @param {string} tokenToSell - The token to sell.
  * @param {string} tokenToBuy - The token to buy.
- * @param {number} amountTokenOut - The amount of token to receive.
- * @param {number} slippage - The allowed slippage percentage.
- * @returns {Promise<void>} - A promise that resolves when the swap transaction is completed.
+ * @param {number} amountTokenOut - The amount of token to sell.
+ * @param {number} slippage - The allowed slippage in basis points.
+ * @param {SwapOptions} options - Per-call options such as the transaction executor.
+ * @returns {Promise<SwapResult | null>} - The result of the swap, null if it could not be quoted or built.
+ * @throws {PriceImpactError} If the price impact is above options.maxPriceImpact.
  */
 export async function swap(
   tokenToSell: string,
   tokenToBuy: string,
   amountTokenOut: number,
-  slippage: any
-) {
+  slippage: any,
+  options: SwapOptions = {}
+): Promise<SwapResult | null> {
   try {
     const decimals = await getDecimals(new PublicKey(tokenToSell));
     const convertedAmountOfTokenOut = await convertToInteger(
       amountTokenOut,
       decimals
     );
-    const quoteResponse = await getQuote(
+    return await executeSwap(
       tokenToSell,
       tokenToBuy,
       convertedAmountOfTokenOut,
-      slippage
-    );
-    const wallet_PubKey = wallet.publicKey.toBase58();
-    const swapTransaction = await getSwapTransaction(
-      quoteResponse,
-      wallet_PubKey
+      slippage,
+      options
     );
-    const { confirmed, signature } = await finalizeTransaction(swapTransaction);
-    if (confirmed) {
-      console.log("http://solscan.io/tx/" + signature);
-    } else {
-      console.log("Transaction failed");
-      console.log("retrying transaction...");
-      await swap(tokenToSell, tokenToBuy, amountTokenOut, slippage);
-    }
   } catch (error) {
+    if (error instanceof PriceImpactError) throw error;
     console.error(error);
+    return null;
   }
 }
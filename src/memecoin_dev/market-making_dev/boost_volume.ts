@@ -10,6 +10,7 @@ import {
 } from "@solana/web3.js";
 import { swapForVolume } from "../../raydium/Pool/swap";
 import { logger } from "../../helpers";
+import { getSigner } from "../../helpers/keystore";
 let slippage = null,
   tokenAddress: any = null,
   payer: any = null,
@@ -18,7 +19,7 @@ let slippage = null,
 
 program
   .option("--token_address <TOKEN_ADDRESS>", "Specify the token address")
-  .option("--payer <PATH_TO_SECRET_KEY>", "Specify the path to the secret key")
+  .option("--payer <WALLET_NAME>", "Specify the keystore wallet name")
   .option("--cluster <CLUSTER>", "Specify the cluster")
   .option(
     "--sol_per_order <SOL_PER_ORDER>",
@@ -28,7 +29,7 @@ program
   .action((options: any) => {
     if (options.help) {
       logger.info(
-        "ts-node boost_volume --token_address <TOKEN_ADDRESS> --payer <PATH_TO_SECRET_KEY> --cluster <CLUSTER> --sol_per_order <SOL_PER_ORDER>"
+        "ts-node boost_volume --token_address <TOKEN_ADDRESS> --payer <WALLET_NAME> --cluster <CLUSTER> --sol_per_order <SOL_PER_ORDER>"
       );
       process.exit(0);
     }
@@ -37,7 +38,7 @@ program
       process.exit(1);
     }
     tokenAddress = options.token_address;
-    if (payer) payer = options.payer;
+    if (options.payer) payer = getSigner(options.payer);
     cluster = options.cluster;
     solPerOrder = options.sol_per_order;
   });
@@ -55,7 +56,7 @@ async function boost_volume() {
       `Boosting volume..., buying and selling ${tokenAddress} in one transaction...`
     );
     try {
-      const res: any = await swapForVolume(tokenAddress, solPerOrder);
+      const res: any = await swapForVolume(tokenAddress, solPerOrder, payer || wallet);
       await error_handling(res.signature, res.confirmed);
     } catch (e) {
       console.log(e);
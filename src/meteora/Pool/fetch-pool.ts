@@ -1,8 +1,37 @@
 import { PublicKey, Keypair } from "@solana/web3.js";
 import DLMM from "@meteora-ag/dlmm";
+import AmmImpl from "@mercurial-finance/dynamic-amm-sdk";
+import { NATIVE_MINT } from "@solana/spl-token";
 import { connection, wallet } from "../../helpers/config";
+import { resolvePoolEntry } from "../../helpers/pool_registry";
 
+const WSOL_MINT = NATIVE_MINT.toBase58();
+
+/**
+ * Meteora pool types: "dlmm" for the DLMM pools, "damm" for the Dynamic AMM pools.
+ */
+export type MeteoraPoolType = "dlmm" | "damm";
+
+export interface MeteoraPoolInfo {
+  poolId: string;
+  type: MeteoraPoolType;
+  solReserve: number; // SOL held by the pool, compares the liquidity of both types
+}
+
+/**
+ * Fetches the id of the deepest DLMM pool pairing a token with SOL.
+ * The id is kept in the pool registry under the "meteora-dlmm" venue.
+ * @param {string} tokenAddress - The address of the token.
+ * @returns {Promise<string>} The pool id, an empty string if the token has no SOL pool.
+ */
 export async function fetchDLMMPoolId(tokenAddress: string) {
+  const entry = await resolvePoolEntry(tokenAddress, "meteora-dlmm", WSOL_MINT, async () => ({
+    poolId: await lookupDLMMPoolId(tokenAddress),
+  }));
+  return entry ? entry.poolId : "";
+}
+
+async function lookupDLMMPoolId(tokenAddress: string) {
   const url = `https://dlmm-api.meteora.ag/pair/all_by_groups?sort_key=tvl&order_by=desc&search_term=${tokenAddress}&include_unknown=false`;
   const response = await (await fetch(url)).json();
   // check if the string start with "SOL" or end with "SOL"
@@ -20,12 +49,93 @@ export async function fetchDLMMPoolId(tokenAddress: string) {
   );
   return ""; // return empty string if no DLMMPool ID is found
 }
+
+/**
+ * Finds the enabled Dynamic AMM pools pairing a token with SOL.
+ * @param {string} tokenAddress - The address of the token.
+ * @returns {Promise<string[]>} The pool ids.
+ */
+async function lookupDynamicAmmPoolIds(tokenAddress: string) {
+  const pools = await AmmImpl.searchPoolsByToken(connection, new PublicKey(tokenAddress));
+  return pools
+    .filter(
+      ({ account }) =>
+        account.enabled &&
+        (account.tokenAMint.toBase58() === WSOL_MINT || account.tokenBMint.toBase58() === WSOL_MINT)
+    )
+    .map((pool) => pool.publicKey.toBase58());
+}
+
+/**
+ * Lists the DLMM and Dynamic AMM pools pairing a token with SOL.
+ * @param {string} tokenAddress - The address of the token.
+ * @returns {Promise<MeteoraPoolInfo[]>} The pools, the one holding the most SOL first.
+ */
+export async function fetchMeteoraPools(tokenAddress: string) {
+  const [dlmmPoolId, dammPoolIds] = await Promise.all([
+    lookupDLMMPoolId(tokenAddress).catch(() => ""),
+    lookupDynamicAmmPoolIds(tokenAddress).catch(() => [] as string[]),
+  ]);
+  const pools: MeteoraPoolInfo[] = [];
+  if (dlmmPoolId) {
+    const dlmmPool = await DLMM.create(connection, new PublicKey(dlmmPoolId));
+    const sol = dlmmPool.tokenX.publicKey.toBase58() === WSOL_MINT ? dlmmPool.tokenX : dlmmPool.tokenY;
+    pools.push({
+      poolId: dlmmPoolId,
+      type: "dlmm",
+      solReserve: Number(sol.amount) / 10 ** sol.mint.decimals,
+    });
+  }
+  if (dammPoolIds.length > 0) {
+    const dammPools = await AmmImpl.createMultiple(
+      connection,
+      dammPoolIds.map((poolId) => new PublicKey(poolId))
+    );
+    for (const pool of dammPools) {
+      const solIsA = pool.poolState.tokenAMint.toBase58() === WSOL_MINT;
+      const solReserve = solIsA ? pool.poolInfo.tokenAAmount : pool.poolInfo.tokenBAmount;
+      pools.push({
+        poolId: pool.address.toBase58(),
+        type: "damm",
+        solReserve: Number(solReserve.toString()) / 10 ** 9,
+      });
+    }
+  }
+  return pools.sort((a, b) => b.solReserve - a.solReserve);
+}
+
+/**
+ * Fetches the Meteora pool, DLMM or Dynamic AMM, holding the most SOL for a token.
+ * The pool is kept in the pool registry under the "meteora" venue with its type;
+ * entries registered before Dynamic AMM pools were supported have no type and are DLMM pools.
+ * @param {string} tokenAddress - The address of the token.
+ * @returns {Promise<{poolId: string, type: MeteoraPoolType} | null>} The pool, null if the token has no SOL pool.
+ */
+export async function fetchMeteoraPoolId(tokenAddress: string) {
+  const entry = await resolvePoolEntry(tokenAddress, "meteora", WSOL_MINT, async () => {
+    const [deepest] = await fetchMeteoraPools(tokenAddress);
+    return deepest ? { poolId: deepest.poolId, type: deepest.type } : null;
+  });
+  if (!entry) return null;
+  return { poolId: entry.poolId, type: (entry.type || "dlmm") as MeteoraPoolType };
+}
+
 export async function fetchDLMMPool(tokenAddress: string) {
   const poolId = await fetchDLMMPoolId(tokenAddress);
   console.log("Pool ID: ", poolId);
   const dlmmPool = await DLMM.create(connection, new PublicKey(poolId));
   return dlmmPool;
 }
+
+/**
+ * Fetches the Dynamic AMM pool of an id.
+ * @param {string} poolId - The pool id.
+ * @returns {Promise<AmmImpl>} The pool with its reserves.
+ */
+export async function fetchDynamicAmmPool(poolId: string) {
+  return await AmmImpl.create(connection, new PublicKey(poolId));
+}
+
 async function main() {
   const tokenAddress = "7GCihgDB8fe6KNjn2MYtkzZcRjQy3t9GHdC8uHYmW2hr";
   // const poolId = await fetchDLMMPoolId(tokenAddress);
@@ -1,2 +1,3 @@
 export * from "./fetch-pool";
-export * from "./swap";
\ No newline at end of file
+export * from "./swap";
+export * from "./positions";
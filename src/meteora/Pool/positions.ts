@@ -0,0 +1,352 @@
+import { BN } from "@coral-xyz/anchor";
+import DLMM, {
+  DEFAULT_BIN_PER_POSITION,
+  LbPosition,
+  StrategyType,
+  getPriceOfBinByBinId,
+} from "@meteora-ag/dlmm";
+import {
+  ComputeBudgetProgram,
+  Keypair,
+  PublicKey,
+  Transaction,
+  TransactionMessage,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import { connection, wallet } from "../../helpers/config";
+import { SwapOptions } from "../../helpers/types";
+import { resolveExecutor } from "../../transactions/tx_executor";
+import { getPriorityFeeInstruction } from "../../transactions/fee_estimator";
+import { fitComputeUnitLimit } from "../../transactions/compute_budget";
+import { fetchDLMMPool } from "./fetch-pool";
+
+const DEFAULT_SLIPPAGE_BPS = 100;
+const FULL_WITHDRAWAL_BPS = 10000;
+
+/**
+ * How the liquidity of a position is spread over its bins:
+ * "spot" evenly, "curve" concentrated around the active bin, "bidask" concentrated at the edges.
+ */
+export type DLMMStrategy = "spot" | "curve" | "bidask";
+
+const STRATEGY_TYPES: { [strategy: string]: StrategyType } = {
+  spot: StrategyType.Spot,
+  curve: StrategyType.Curve,
+  bidask: StrategyType.BidAsk,
+};
+
+/**
+ * A DLMM position and what it is worth at the active bin.
+ * Prices and values are of token X in token Y.
+ */
+export interface DLMMPosition {
+  address: string;
+  lbPair: string;
+  tokenMintX: string;
+  tokenMintY: string;
+  lowerBinId: number;
+  upperBinId: number;
+  activeBinId: number;
+  lowerPrice: number;
+  upperPrice: number;
+  currentPrice: number;
+  inRange: boolean;
+  amountX: number;
+  amountY: number;
+  feesX: number;
+  feesY: number;
+  value: number; // amounts and fees, in token Y
+}
+
+/**
+ * Signs and sends the instructions of a DLMM sdk transaction through the configured executor.
+ * The compute budget instructions of the sdk are replaced by the priority fee and a fitted limit.
+ * @param {Transaction} tx - The transaction built by the DLMM sdk.
+ * @param {string} label - Names the operation in the logs.
+ * @param {Keypair[]} signers - The signers besides the wallet, such as a new position.
+ * @param {SwapOptions} options - The executor, the urgency and the dry run.
+ * @returns {Promise<string | null>} The signature, null if the transaction did not land.
+ */
+async function sendDLMMTx(tx: Transaction, label: string, signers: Keypair[] = [], options: SwapOptions = {}) {
+  const ixList = tx.instructions.filter((ix) => !ix.programId.equals(ComputeBudgetProgram.programId));
+  const executor = resolveExecutor(options);
+  const recentBlockhash = await connection.getLatestBlockhash();
+  const messageV0 = new TransactionMessage({
+    payerKey: wallet.publicKey,
+    recentBlockhash: recentBlockhash.blockhash,
+    instructions: [await getPriorityFeeInstruction(ixList, options.urgency), ...ixList],
+  }).compileToV0Message();
+  const transaction = await fitComputeUnitLimit(new VersionedTransaction(messageV0));
+  const res = await executor.submit(transaction, [wallet, ...signers], {
+    latestBlockhash: recentBlockhash,
+    urgency: options.urgency,
+  });
+  if (!res.landed) {
+    if (!res.simulation) console.log(`${executor.name} transaction failed when trying to ${label}: ${res.error}`);
+    return null;
+  }
+  console.log(`${label}: https://solscan.io/tx/${res.signature}`);
+  return res.signature;
+}
+
+/**
+ * Sends the transactions of an operation one after the other, stopping at the first failure.
+ * @param {Transaction[]} txs - The transactions built by the DLMM sdk.
+ * @param {string} label - Names the operation in the logs.
+ * @param {SwapOptions} options - The executor, the urgency and the dry run.
+ * @returns {Promise<string[] | null>} The signatures, null if a transaction failed.
+ */
+async function sendDLMMTxs(txs: Transaction[], label: string, options: SwapOptions = {}) {
+  const signatures: string[] = [];
+  for (const tx of txs) {
+    const signature = await sendDLMMTx(tx, label, [], options);
+    if (!signature) return null;
+    signatures.push(signature);
+  }
+  return signatures;
+}
+
+/**
+ * Gets the price of token X in token Y at a bin.
+ * @param {DLMM} dlmmPool - The pool.
+ * @param {number} binId - The bin id.
+ * @returns {number} The price, in UI units.
+ */
+function getBinPrice(dlmmPool: DLMM, binId: number) {
+  const decimals = dlmmPool.tokenX.mint.decimals - dlmmPool.tokenY.mint.decimals;
+  return getPriceOfBinByBinId(binId, dlmmPool.lbPair.binStep).mul(10 ** decimals).toNumber();
+}
+
+/**
+ * Deposits amounts of token X and token Y into a new position over a bin range.
+ * @param {DLMM} dlmmPool - The pool.
+ * @param {BN} totalXAmount - The raw amount of token X.
+ * @param {BN} totalYAmount - The raw amount of token Y.
+ * @param {number} minBinId - The lowest bin of the position.
+ * @param {number} maxBinId - The highest bin of the position.
+ * @param {DLMMStrategy} strategy - How the liquidity is spread over the bins.
+ * @param {number} slippageBps - How far the active bin may move before the deposit fails, 100 = 1%.
+ * @param {SwapOptions} options - The executor, the urgency and the dry run.
+ * @returns {Promise<{position: string, signature: string} | null>} The position, null if the transaction failed.
+ * @throws {Error} If the range holds more bins than a position.
+ */
+async function depositByStrategy(
+  dlmmPool: DLMM,
+  totalXAmount: BN,
+  totalYAmount: BN,
+  minBinId: number,
+  maxBinId: number,
+  strategy: DLMMStrategy,
+  slippageBps: number,
+  options: SwapOptions
+) {
+  const maxBins = DEFAULT_BIN_PER_POSITION.toNumber();
+  if (maxBinId - minBinId + 1 > maxBins) {
+    throw new Error(`A position holds at most ${maxBins} bins, the range ${minBinId} - ${maxBinId} holds ${maxBinId - minBinId + 1}`);
+  }
+  if (!(strategy in STRATEGY_TYPES)) {
+    throw new Error(`Unknown strategy ${strategy}, expected spot, curve or bidask`);
+  }
+  const positionKeypair = Keypair.generate();
+  const tx = await dlmmPool.initializePositionAndAddLiquidityByStrategy({
+    positionPubKey: positionKeypair.publicKey,
+    totalXAmount,
+    totalYAmount,
+    strategy: { minBinId, maxBinId, strategyType: STRATEGY_TYPES[strategy] },
+    user: wallet.publicKey,
+    // the slippage of the DLMM sdk is in percent
+    slippage: slippageBps / 100,
+  });
+  const signature = await sendDLMMTx(tx, "open the position", [positionKeypair], options);
+  if (!signature) return null;
+  const position = positionKeypair.publicKey.toBase58();
+  console.log(`Position ${position} opened on bins ${minBinId} - ${maxBinId} with the ${strategy} strategy`);
+  return { position, signature };
+}
+
+/**
+ * Opens a position in the DLMM pool of a token over bins around the active bin and deposits into it.
+ * Bins below the active bin hold token Y and bins above it token X, so an amount of only one token
+ * only fills the bins on its side.
+ * @param {string} tokenAddress - The token paired with SOL.
+ * @param {number} tokenAmount - The amount of the token, in UI units.
+ * @param {number} solAmount - The amount of SOL, in UI units.
+ * @param {DLMMStrategy} strategy - How the liquidity is spread over the bins.
+ * @param {number} binsBelow - How many bins below the active bin the range starts.
+ * @param {number} binsAbove - How many bins above the active bin the range ends.
+ * @param {number} slippageBps - How far the active bin may move before the deposit fails, 100 = 1%.
+ * @param {SwapOptions} options - The executor, the urgency and the dry run.
+ * @returns {Promise<{position: string, signature: string} | null>} The position, null if the transaction failed.
+ * @throws {Error} If the range holds more bins than a position.
+ */
+export async function openPosition(
+  tokenAddress: string,
+  tokenAmount: number,
+  solAmount: number,
+  strategy: DLMMStrategy = "spot",
+  binsBelow: number = 10,
+  binsAbove: number = 10,
+  slippageBps: number = DEFAULT_SLIPPAGE_BPS,
+  options: SwapOptions = {}
+) {
+  const dlmmPool = await fetchDLMMPool(tokenAddress);
+  const tokenIsX = dlmmPool.tokenX.publicKey.toBase58() === tokenAddress;
+  const [xAmount, yAmount] = tokenIsX ? [tokenAmount, solAmount] : [solAmount, tokenAmount];
+  const toRaw = (amount: number, decimals: number) => new BN(Math.floor(amount * 10 ** decimals).toString());
+  const activeBin = await dlmmPool.getActiveBin();
+  return await depositByStrategy(
+    dlmmPool,
+    toRaw(xAmount, dlmmPool.tokenX.mint.decimals),
+    toRaw(yAmount, dlmmPool.tokenY.mint.decimals),
+    activeBin.binId - binsBelow,
+    activeBin.binId + binsAbove,
+    strategy,
+    slippageBps,
+    options
+  );
+}
+
+/**
+ * Lists the positions of a wallet in the DLMM pool of a token with their range status, amounts, fees and value.
+ * @param {string} tokenAddress - The token paired with SOL.
+ * @param {PublicKey} owner - The wallet, the configured wallet by default.
+ * @returns {Promise<DLMMPosition[]>} The positions.
+ */
+export async function getPositions(tokenAddress: string, owner: PublicKey = wallet.publicKey): Promise<DLMMPosition[]> {
+  const dlmmPool = await fetchDLMMPool(tokenAddress);
+  const { activeBin, userPositions } = await dlmmPool.getPositionsByUserAndLbPair(owner);
+  const decimalsX = dlmmPool.tokenX.mint.decimals;
+  const decimalsY = dlmmPool.tokenY.mint.decimals;
+  const currentPrice = getBinPrice(dlmmPool, activeBin.binId);
+  return userPositions.map(({ publicKey, positionData }) => {
+    const amountX = Number(positionData.totalXAmount) / 10 ** decimalsX;
+    const amountY = Number(positionData.totalYAmount) / 10 ** decimalsY;
+    const feesX = positionData.feeX.toNumber() / 10 ** decimalsX;
+    const feesY = positionData.feeY.toNumber() / 10 ** decimalsY;
+    return {
+      address: publicKey.toBase58(),
+      lbPair: dlmmPool.pubkey.toBase58(),
+      tokenMintX: dlmmPool.tokenX.publicKey.toBase58(),
+      tokenMintY: dlmmPool.tokenY.publicKey.toBase58(),
+      lowerBinId: positionData.lowerBinId,
+      upperBinId: positionData.upperBinId,
+      activeBinId: activeBin.binId,
+      lowerPrice: getBinPrice(dlmmPool, positionData.lowerBinId),
+      upperPrice: getBinPrice(dlmmPool, positionData.upperBinId),
+      currentPrice,
+      inRange: activeBin.binId >= positionData.lowerBinId && activeBin.binId <= positionData.upperBinId,
+      amountX,
+      amountY,
+      feesX,
+      feesY,
+      value: (amountX + feesX) * currentPrice + amountY + feesY,
+    };
+  });
+}
+
+/**
+ * Claims the swap fees and the rewards of a position, the position stays open.
+ * @param {string} tokenAddress - The token paired with SOL.
+ * @param {string} positionAddress - The position address.
+ * @param {SwapOptions} options - The executor, the urgency and the dry run.
+ * @returns {Promise<string[] | null>} The signatures, null if a transaction failed.
+ */
+export async function claimFees(tokenAddress: string, positionAddress: string, options: SwapOptions = {}) {
+  const dlmmPool = await fetchDLMMPool(tokenAddress);
+  const position: LbPosition = await dlmmPool.getPosition(new PublicKey(positionAddress));
+  const feeTxs = await dlmmPool.claimSwapFee({ owner: wallet.publicKey, position });
+  const rewardTxs = await dlmmPool.claimAllRewardsByPosition({ owner: wallet.publicKey, position });
+  if (feeTxs.length === 0 && rewardTxs.length === 0) {
+    console.log("The position has no fees or rewards to claim");
+    return [];
+  }
+  return await sendDLMMTxs([...feeTxs, ...rewardTxs], "claim the fees", options);
+}
+
+/**
+ * Withdraws all the liquidity of a position with its fees and rewards, then closes it.
+ * @param {DLMM} dlmmPool - The pool.
+ * @param {LbPosition} position - The position.
+ * @param {SwapOptions} options - The executor, the urgency and the dry run.
+ * @returns {Promise<string[] | null>} The signatures, null if a transaction failed.
+ */
+async function withdrawAndClose(dlmmPool: DLMM, position: LbPosition, options: SwapOptions) {
+  const { lowerBinId, upperBinId, totalXAmount, totalYAmount } = position.positionData;
+  if (totalXAmount === "0" && totalYAmount === "0") {
+    // an empty position has nothing to withdraw, it is only closed
+    const tx = await dlmmPool.closePosition({ owner: wallet.publicKey, position });
+    const signature = await sendDLMMTx(tx, "close the position", [], options);
+    return signature ? [signature] : null;
+  }
+  const txs = await dlmmPool.removeLiquidity({
+    user: wallet.publicKey,
+    position: position.publicKey,
+    fromBinId: lowerBinId,
+    toBinId: upperBinId,
+    bps: new BN(FULL_WITHDRAWAL_BPS),
+    shouldClaimAndClose: true,
+  });
+  return await sendDLMMTxs(txs, "close the position", options);
+}
+
+/**
+ * Withdraws all the liquidity, fees and rewards of a position, then closes it and returns its rent.
+ * @param {string} tokenAddress - The token paired with SOL.
+ * @param {string} positionAddress - The position address.
+ * @param {SwapOptions} options - The executor, the urgency and the dry run.
+ * @returns {Promise<string[] | null>} The signatures, null if a transaction failed.
+ */
+export async function closePosition(tokenAddress: string, positionAddress: string, options: SwapOptions = {}) {
+  const dlmmPool = await fetchDLMMPool(tokenAddress);
+  const position = await dlmmPool.getPosition(new PublicKey(positionAddress));
+  return await withdrawAndClose(dlmmPool, position, options);
+}
+
+/**
+ * Moves a position back around the active bin once the price has left its range.
+ * The position is closed with its fees and rewards, and its amounts are deposited into a new position
+ * of the same width. Out of range a position holds only one token: token Y when the price is above it,
+ * deposited in the bins up to the active bin, token X when the price is below it, deposited from the active bin.
+ * @param {string} tokenAddress - The token paired with SOL.
+ * @param {string} positionAddress - The position address.
+ * @param {DLMMStrategy} strategy - How the liquidity of the new position is spread over the bins.
+ * @param {number} slippageBps - How far the active bin may move before the deposit fails, 100 = 1%.
+ * @param {SwapOptions} options - The executor, the urgency and the dry run.
+ * @returns {Promise<{position: string, signature: string} | null>} The new position, null if the position is in range or a transaction failed.
+ */
+export async function rebalancePosition(
+  tokenAddress: string,
+  positionAddress: string,
+  strategy: DLMMStrategy = "spot",
+  slippageBps: number = DEFAULT_SLIPPAGE_BPS,
+  options: SwapOptions = {}
+) {
+  const dlmmPool = await fetchDLMMPool(tokenAddress);
+  const position = await dlmmPool.getPosition(new PublicKey(positionAddress));
+  const { lowerBinId, upperBinId, totalXAmountExcludeTransferFee, totalYAmountExcludeTransferFee } =
+    position.positionData;
+  const activeBin = await dlmmPool.getActiveBin();
+  if (activeBin.binId >= lowerBinId && activeBin.binId <= upperBinId) {
+    console.log(`Position ${positionAddress} is in range, active bin ${activeBin.binId} in ${lowerBinId} - ${upperBinId}`);
+    return null;
+  }
+  if (!(await withdrawAndClose(dlmmPool, position, options))) return null;
+
+  const width = upperBinId - lowerBinId;
+  const [minBinId, maxBinId] =
+    activeBin.binId > upperBinId
+      ? [activeBin.binId - width, activeBin.binId]
+      : [activeBin.binId, activeBin.binId + width];
+  // the deposit checks its slippage against the active bin cached by the pool
+  await dlmmPool.refetchStates();
+  return await depositByStrategy(
+    dlmmPool,
+    totalXAmountExcludeTransferFee,
+    totalYAmountExcludeTransferFee,
+    minBinId,
+    maxBinId,
+    strategy,
+    slippageBps,
+    options
+  );
+}
@@ -11,128 +11,215 @@ import DLMM from "@meteora-ag/dlmm";
 import { connection, wallet } from "../../helpers/config";
 import { getSPLTokenBalance } from "../../helpers/check_balance";
 import { PROGRAM_ID, wsol } from "../constants";
-import { fetchDLMMPoolId, fetchDLMMPool } from "./fetch-pool";
+import AmmImpl from "@mercurial-finance/dynamic-amm-sdk";
+import { fetchMeteoraPoolId, fetchDynamicAmmPool } from "./fetch-pool";
 import {
   TransactionMessage,
   ComputeBudgetProgram,
+  TransactionInstruction,
   VersionedTransaction,
 } from "@solana/web3.js";
-import { jito_executeAndConfirm } from "../../transactions/jito_tips_tx_executor";
-import { jito_fee } from "../../helpers/config";
+import { resolveExecutor } from "../../transactions/tx_executor";
+import { getPriorityFeeInstruction } from "../../transactions/fee_estimator";
+import { fitComputeUnitLimit } from "../../transactions/compute_budget";
+import {
+  buildSwapResult,
+  printSwapResult,
+  startSwapTimer,
+} from "../../transactions/swap_result";
+import {
+  checkPriceImpact,
+  getSlippageBps,
+} from "../../transactions/swap_guard";
+import { SwapOptions, SwapResult } from "../../helpers/types";
 import { C } from "@raydium-io/raydium-sdk-v2/lib/raydium-276d396e";
 const BN = require("bn.js");
+const DEFAULT_SLIPPAGE_BPS = 10;
 
 /**
- * Performs a swap operation in a DLMM pool.
+ * Quotes a swap in the Meteora pool of a token without building a transaction.
+ * The pool is the DLMM or Dynamic AMM pool holding the most SOL, see fetchMeteoraPoolId.
+ * @param side "buy" to swap SOL for the token, "sell" to swap the token for SOL.
+ * @param tokenAddress The address of the token.
+ * @param amountIn The amount of the input token, SOL for a buy.
+ * @param options The slippage used for the minimum amount out.
+ * @returns The pool id and type, the mints, the amounts out in UI units, the price impact in percent, and the pool and raw amounts the swap is built from.
+ */
+export async function quoteSwap(
+  side: string,
+  tokenAddress: string,
+  amountIn: number,
+  options: SwapOptions = {}
+) {
+  const meteoraPool = await fetchMeteoraPoolId(tokenAddress);
+  if (!meteoraPool) throw new Error(`No Meteora pool found for ${tokenAddress}`);
+  const slippageBps = getSlippageBps(options, DEFAULT_SLIPPAGE_BPS);
+
+  if (meteoraPool.type === "damm") {
+    const pool = await fetchDynamicAmmPool(meteoraPool.poolId);
+    const mintA = pool.poolState.tokenAMint;
+    const mintB = pool.poolState.tokenBMint;
+    const tokenIsA = mintA.toBase58() === tokenAddress;
+    // the token is sold for SOL, or SOL for the token
+    const inIsA = side === "buy" ? !tokenIsA : tokenIsA;
+    const [inToken, outToken] = inIsA ? [mintA, mintB] : [mintB, mintA];
+    const [inDecimals, outDecimals] = inIsA
+      ? [pool.tokenAMint.decimals, pool.tokenBMint.decimals]
+      : [pool.tokenBMint.decimals, pool.tokenAMint.decimals];
+    const rawAmountIn = new BN(Math.floor(amountIn * 10 ** inDecimals));
+    // the slippage of the Dynamic AMM sdk is in percent
+    const swapQuote = pool.getSwapQuote(inToken, rawAmountIn, slippageBps / 100);
+    return {
+      poolId: meteoraPool.poolId,
+      type: meteoraPool.type,
+      pool,
+      inToken,
+      outToken,
+      rawAmountIn,
+      rawMinAmountOut: swapQuote.minSwapOutAmount,
+      binArraysPubkey: [] as PublicKey[],
+      amountOut: swapQuote.swapOutAmount.toNumber() / 10 ** outDecimals,
+      minAmountOut: swapQuote.minSwapOutAmount.toNumber() / 10 ** outDecimals,
+      priceImpact: swapQuote.priceImpact.mul(100).toNumber(),
+    };
+  }
+
+  const dlmmPool = await DLMM.create(connection, new PublicKey(meteoraPool.poolId));
+  const tokenIsX = dlmmPool.tokenX.publicKey.toBase58() === tokenAddress;
+  // the token is sold for SOL, or SOL for the token
+  const inIsX = side === "buy" ? !tokenIsX : tokenIsX;
+  const [inToken, outToken] = inIsX
+    ? [dlmmPool.tokenX, dlmmPool.tokenY]
+    : [dlmmPool.tokenY, dlmmPool.tokenX];
+  const swapForY = inIsX;
+  const rawAmountIn = new BN(Math.floor(amountIn * 10 ** inToken.mint.decimals));
+  const binArrays = await dlmmPool.getBinArrayForSwap(swapForY);
+  const swapQuote = await dlmmPool.swapQuote(
+    rawAmountIn,
+    swapForY,
+    new BN(slippageBps),
+    binArrays
+  );
+  return {
+    poolId: meteoraPool.poolId,
+    type: meteoraPool.type,
+    pool: dlmmPool,
+    inToken: inToken.publicKey,
+    outToken: outToken.publicKey,
+    rawAmountIn,
+    rawMinAmountOut: swapQuote.minOutAmount,
+    binArraysPubkey: swapQuote.binArraysPubkey,
+    amountOut: swapQuote.outAmount.toNumber() / 10 ** outToken.mint.decimals,
+    minAmountOut: swapQuote.minOutAmount.toNumber() / 10 ** outToken.mint.decimals,
+    priceImpact: swapQuote.priceImpact.toNumber(),
+  };
+}
+
+/**
+ * Builds the swap instructions of a quote, for its pool type.
+ * @param quote The quote of quoteSwap.
+ * @returns The instructions, paid and signed by the wallet.
+ */
+async function buildSwapInstructions(
+  quote: Awaited<ReturnType<typeof quoteSwap>>
+): Promise<TransactionInstruction[]> {
+  if (quote.type === "damm") {
+    const swapTx = await (quote.pool as AmmImpl).swap(
+      wallet.publicKey,
+      quote.inToken,
+      quote.rawAmountIn,
+      quote.rawMinAmountOut
+    );
+    return swapTx.instructions;
+  }
+  const swapTx = await (quote.pool as DLMM).swap({
+    inToken: quote.inToken,
+    binArraysPubkey: quote.binArraysPubkey,
+    inAmount: quote.rawAmountIn,
+    lbPair: (quote.pool as DLMM).pubkey,
+    user: wallet.publicKey,
+    minOutAmount: quote.rawMinAmountOut,
+    outToken: quote.outToken,
+  });
+  return swapTx.instructions;
+}
+
+/**
+ * Performs a swap operation in the Meteora pool of a token, DLMM or Dynamic AMM.
  * @param side The side of the swap operation, either "buy" or "sell". Default is "buy".
  * @param tokenAddress The address of the token to be swapped.
  * @param buyAmountInSOL The amount of SOL to be used for buying the token. Default is 0.1.
  * @param sellPercentage The percentage of the token to be sold. Default is 100%.
- * @returns A Promise that resolves to the transaction hash if the swap is successful, otherwise an error object.
+ * @param options Per-call options such as the transaction executor, the slippage and the maximum price impact.
+ * @returns A Promise that resolves to the swap result, null if the transaction could not be built.
+ * @throws {PriceImpactError} If the quoted price impact is above options.maxPriceImpact.
  */
 export async function swap(
   side: string = "buy",
   tokenAddress: string,
   buyAmountInSOL: number = 0.1,
-  sellPercentage: number = 100
-) {
-  let swapYtoX = true,
-    decimalY: number,
-    decimalX: number,
-    inToken: PublicKey,
-    outToken: PublicKey,
-    swapAmount: any;
-  const dlmmPool = await fetchDLMMPool(tokenAddress); // fetch the DLMM pool object for swapping
-  decimalY = dlmmPool.tokenY.decimal;
-  decimalX = dlmmPool.tokenX.decimal;
+  sellPercentage: number = 100,
+  options: SwapOptions = {}
+): Promise<SwapResult | null> {
+  const timer = startSwapTimer();
+  let amountIn: number;
   if (side === "buy") {
-    // inToken = wsol
-    if (dlmmPool.tokenY.publicKey.toBase58() === wsol) {
-      inToken = dlmmPool.tokenY.publicKey;
-      outToken = dlmmPool.tokenX.publicKey;
-    } else {
-      inToken = dlmmPool.tokenX.publicKey;
-      outToken = dlmmPool.tokenY.publicKey;
-    }
-    swapAmount = new BN(buyAmountInSOL * 10 ** 9); // convert to lamports
+    amountIn = buyAmountInSOL;
   } else {
-    if (dlmmPool.tokenY.publicKey.toBase58() === wsol) {
-      inToken = dlmmPool.tokenX.publicKey;
-      outToken = dlmmPool.tokenY.publicKey;
-      const balance = await getSPLTokenBalance(
-        connection,
-        inToken,
-        wallet.publicKey
-      );
-      const amount = balance * (sellPercentage / 100);
-      swapAmount = new BN(amount * 10 ** decimalX); // convert to lamports
-    } else {
-      inToken = dlmmPool.tokenY.publicKey;
-      outToken = dlmmPool.tokenX.publicKey;
-      const balance = await getSPLTokenBalance(
-        connection,
-        inToken,
-        wallet.publicKey
-      );
-      const amount = balance * (sellPercentage / 100);
-      swapAmount = new BN(amount * 10 ** decimalY); // convert to lamports
-    }
+    const balance = await getSPLTokenBalance(
+      connection,
+      new PublicKey(tokenAddress),
+      wallet.publicKey
+    );
+    amountIn = balance * (sellPercentage / 100);
   }
-
-  const binArrays = await dlmmPool.getBinArrayForSwap(swapYtoX); // list of pools
-  const swapQuote = await dlmmPool.swapQuote(
-    // get the swap quote
-    swapAmount,
-    swapYtoX,
-    new BN(10),
-    binArrays
-  );
-  const swapTx: any = await dlmmPool.swap({
-    inToken: inToken,
-    binArraysPubkey: swapQuote.binArraysPubkey,
-    inAmount: swapAmount,
-    lbPair: dlmmPool.pubkey,
-    user: wallet.publicKey,
-    minOutAmount: swapQuote.minOutAmount,
-    outToken: outToken,
-  });
-  console.log(swapTx);
-  // try {
-  //   const swapTxHash = await sendAndConfirmTransaction(connection, swapTx, [
-  //     wallet,
-  //   ]);
-  //   console.log(`🚀 https://solscan.io/tx/${swapTxHash}`);
-  // } catch (error) {
-  //   console.log("🚀 ~ error:", JSON.parse(JSON.stringify(error)));
-  // }
+  const quote = await quoteSwap(side, tokenAddress, amountIn, options);
+  checkPriceImpact("meteora", quote.priceImpact, options);
+  const { inToken, outToken } = quote;
+  const instructions = await buildSwapInstructions(quote);
   try {
     const recentBlockhash = await connection.getLatestBlockhash();
     const messageV0 = new TransactionMessage({
       payerKey: wallet.publicKey,
       recentBlockhash: recentBlockhash.blockhash,
-      instructions: [...swapTx.instructions],
+      instructions: [
+        await getPriorityFeeInstruction(instructions, options.urgency),
+        ...instructions,
+      ],
     }).compileToV0Message();
 
-    const transaction = new VersionedTransaction(messageV0);
-    transaction.sign([wallet]);
-    const res = await jito_executeAndConfirm(
-      transaction,
-      wallet,
-      recentBlockhash,
-      jito_fee
+    const transaction = await fitComputeUnitLimit(
+      new VersionedTransaction(messageV0)
     );
-    const signature = res.signature;
-    const confirmed = res.confirmed;
+    const executor = resolveExecutor(options);
+    timer.submitStart = Date.now();
+    const res = await executor.submit(transaction, [wallet], {
+      latestBlockhash: recentBlockhash,
+      urgency: options.urgency,
+    });
+    timer.submitEnd = Date.now();
 
-    if (confirmed) {
-      console.log(`🚀 https://solscan.io/tx/${signature}`);
-    } else {
+    if (!res.landed && !res.simulation) {
       console.log(
-        "jito fee transaction failed when swapping token in a DLMM pool"
+        `${executor.name} transaction failed when swapping token in a Meteora ${quote.type} pool: ${res.error}`
       );
     }
+    const result = await buildSwapResult(
+      {
+        owner: wallet.publicKey,
+        inputMint: inToken.toBase58(),
+        outputMint: outToken.toBase58(),
+        priceImpact: quote.priceImpact,
+        executor: executor.name,
+      },
+      res,
+      timer
+    );
+    printSwapResult(result);
+    return result;
   } catch (error: any) {
     console.log("🚀 ~ error:", JSON.parse(JSON.stringify(error)));
+    return null;
   }
 }
 async function main() {
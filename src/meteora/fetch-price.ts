@@ -1,14 +1,24 @@
-import { fetchDLMMPoolId, fetchDLMMPool } from "./Pool";
-import {usdc} from "./constants";
+import { fetchDLMMPoolId, fetchDLMMPool, fetchMeteoraPoolId, fetchDynamicAmmPool } from "./Pool";
+import {usdc, wsol} from "./constants";
 
 // on-chain rpc method to get the current price of the token
 export async function getCurrentPriceInSOL(tokenAddress:string):Promise<any> {
+  const meteoraPool = await fetchMeteoraPoolId(tokenAddress);
+  if (meteoraPool && meteoraPool.type === "damm") {
+    // the price of a Dynamic AMM pool is the ratio of its reserves
+    const pool = await fetchDynamicAmmPool(meteoraPool.poolId);
+    const amountA = Number(pool.poolInfo.tokenAAmount.toString()) / 10 ** pool.tokenAMint.decimals;
+    const amountB = Number(pool.poolInfo.tokenBAmount.toString()) / 10 ** pool.tokenBMint.decimals;
+    return pool.poolState.tokenAMint.toBase58() === wsol ? amountA / amountB : amountB / amountA;
+  }
   const dlmmPool = await fetchDLMMPool(tokenAddress);
   dlmmPool.refetchStates();
   const activeBin = await dlmmPool.getActiveBin();
   const activeBinPricePerToken = dlmmPool.fromPricePerLamport(
     Number(activeBin.price)
   );
+  // the price is of token X in token Y
+  if (dlmmPool.tokenX.publicKey.toBase58() === wsol) return 1 / Number(activeBinPricePerToken);
   return activeBinPricePerToken;
 }
 export async function getCurrentSolPrice():Promise<any> {
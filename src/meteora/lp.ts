@@ -0,0 +1,105 @@
+import { PublicKey } from "@solana/web3.js";
+import { program } from "commander";
+import {
+  claimFees,
+  closePosition,
+  DLMMPosition,
+  getPositions,
+  openPosition,
+  rebalancePosition,
+} from "./Pool/positions";
+import { logger } from "../helpers/logger";
+
+/**
+ * Prints a DLMM position.
+ * @param {DLMMPosition} position - The position to print.
+ */
+function printPosition(position: DLMMPosition) {
+  logger.info(`Position ${position.address} in ${position.lbPair}`);
+  logger.info(`  Bins: ${position.lowerBinId} - ${position.upperBinId}, active ${position.activeBinId} (${position.inRange ? "in range" : "out of range"})`);
+  logger.info(`  Range: ${position.lowerPrice} - ${position.upperPrice}, price ${position.currentPrice}`);
+  logger.info(`  Amounts: ${position.amountX} ${position.tokenMintX}`);
+  logger.info(`           ${position.amountY} ${position.tokenMintY}`);
+  logger.info(`  Fees: ${position.feesX} X, ${position.feesY} Y`);
+  logger.info(`  Value: ${position.value} (token Y)`);
+}
+
+const toSlippage = (options: any) => (options.slippage ? parseInt(options.slippage) : undefined);
+
+program
+  .command("open")
+  .description("Open a position over bins around the active bin and deposit into it")
+  .requiredOption("--token <ADDRESS_TOKEN>", "Specify the token paired with SOL")
+  .option("--amount <AMOUNT>", "Specify the amount of the token", "0")
+  .option("--sol <NUMBER_OF_SOL>", "Specify the amount of SOL", "0")
+  .option("--strategy <STRATEGY>", "Specify how the liquidity is spread: spot, curve or bidask", "spot")
+  .option("--bins-below <BINS>", "Specify how many bins below the active bin the range starts", "10")
+  .option("--bins-above <BINS>", "Specify how many bins above the active bin the range ends", "10")
+  .option("--slippage <BPS>", "Specify how far the active bin may move, 100 = 1%")
+  .option("--dry-run", "Simulate the transaction without sending it")
+  .action(async (options: any) => {
+    const res = await openPosition(
+      options.token,
+      parseFloat(options.amount),
+      parseFloat(options.sol),
+      options.strategy,
+      parseInt(options.binsBelow),
+      parseInt(options.binsAbove),
+      toSlippage(options),
+      { dryRun: options.dryRun }
+    );
+    if (res) logger.info(`Position opened: ${res.position}`);
+  });
+
+program
+  .command("rebalance")
+  .description("Move a position back around the active bin when the price has left its range")
+  .requiredOption("--token <ADDRESS_TOKEN>", "Specify the token paired with SOL")
+  .requiredOption("--position <ADDRESS>", "Specify the position address")
+  .option("--strategy <STRATEGY>", "Specify how the liquidity is spread: spot, curve or bidask", "spot")
+  .option("--slippage <BPS>", "Specify how far the active bin may move, 100 = 1%")
+  .option("--dry-run", "Simulate the transactions without sending them")
+  .action(async (options: any) => {
+    const res = await rebalancePosition(
+      options.token,
+      options.position,
+      options.strategy,
+      toSlippage(options),
+      { dryRun: options.dryRun }
+    );
+    if (res) logger.info(`Position rebalanced: ${res.position}`);
+  });
+
+program
+  .command("claim")
+  .description("Claim the swap fees and rewards of a position")
+  .requiredOption("--token <ADDRESS_TOKEN>", "Specify the token paired with SOL")
+  .requiredOption("--position <ADDRESS>", "Specify the position address")
+  .option("--dry-run", "Simulate the transactions without sending them")
+  .action(async (options: any) => {
+    await claimFees(options.token, options.position, { dryRun: options.dryRun });
+  });
+
+program
+  .command("close")
+  .description("Withdraw everything from a position and close it")
+  .requiredOption("--token <ADDRESS_TOKEN>", "Specify the token paired with SOL")
+  .requiredOption("--position <ADDRESS>", "Specify the position address")
+  .option("--dry-run", "Simulate the transactions without sending them")
+  .action(async (options: any) => {
+    const res = await closePosition(options.token, options.position, { dryRun: options.dryRun });
+    if (res) logger.info(`Position closed: ${options.position}`);
+  });
+
+program
+  .command("positions")
+  .description("List the positions of a wallet in the DLMM pool of a token with their range status and value")
+  .requiredOption("--token <ADDRESS_TOKEN>", "Specify the token paired with SOL")
+  .option("--owner <ADDRESS>", "Specify the wallet, the configured wallet by default")
+  .action(async (options: any) => {
+    const positions = await getPositions(options.token, options.owner ? new PublicKey(options.owner) : undefined);
+    if (positions.length === 0) logger.info("No DLMM positions");
+    positions.forEach(printPosition);
+  });
+
+program.parse();
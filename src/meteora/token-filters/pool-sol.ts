@@ -1,16 +1,24 @@
-import {fetchDLMMPool} from "../Pool";
+import {fetchDLMMPool, fetchMeteoraPoolId, fetchDynamicAmmPool} from "../Pool";
 import {wsol} from "../constants"
 export async function getCurrentSolInPool(token_address:string):Promise<any> {
-  const dlmmPool = await fetchDLMMPool(token_address);
+  const meteoraPool = await fetchMeteoraPoolId(token_address);
   let solReserve:number;
+  if(meteoraPool && meteoraPool.type === "damm"){
+    const pool = await fetchDynamicAmmPool(meteoraPool.poolId);
+    const amount = pool.poolState.tokenAMint.toBase58() === wsol ? pool.poolInfo.tokenAAmount : pool.poolInfo.tokenBAmount;
+    solReserve = Number(amount.toString())/Math.pow(10,9);
+    console.log(solReserve);
+    return solReserve;
+  }
+  const dlmmPool = await fetchDLMMPool(token_address);
   if(dlmmPool.tokenX.publicKey.toBase58() === wsol){
-    solReserve = Number(dlmmPool.tokenX.amount)/Math.pow(10,dlmmPool.tokenX.decimal);
+    solReserve = Number(dlmmPool.tokenX.amount)/Math.pow(10,dlmmPool.tokenX.mint.decimals);
   }else{
-    solReserve = Number(dlmmPool.tokenY.amount)/Math.pow(10,dlmmPool.tokenY.decimal);
+    solReserve = Number(dlmmPool.tokenY.amount)/Math.pow(10,dlmmPool.tokenY.mint.decimals);
   }
   console.log(solReserve);
   return solReserve;
 
 } 
 
-//getCurrentSolInPool("7GCihgDB8fe6KNjn2MYtkzZcRjQy3t9GHdC8uHYmW2hr");
\ No newline at end of file
+//getCurrentSolInPool("7GCihgDB8fe6KNjn2MYtkzZcRjQy3t9GHdC8uHYmW2hr");
@@ -1,29 +1,81 @@
 import { PublicKey } from "@solana/web3.js";
 import {
+  IGNORE_CACHE,
   ORCA_WHIRLPOOL_PROGRAM_ID,
   PDAUtil,
+  PoolUtil,
 } from "@orca-so/whirlpools-sdk";
 import {
   MAINNET_WHIRLPOOLS_CONFIG,
-  WSOL,
-  tick_spacing,
-  client
+  wsol,
+  tick_spacings,
+  client,
+  ctx,
 } from "../constants";
+import { resolvePoolEntry } from "../../helpers/pool_registry";
 
-export async function fetchWhirlPoolId(tokenAddress:string) {
-    const tokenMint = new PublicKey(tokenAddress);
-    const whirlpool_pubkey = PDAUtil.getWhirlpool(
-      ORCA_WHIRLPOOL_PROGRAM_ID,
-      MAINNET_WHIRLPOOLS_CONFIG,
-      WSOL.mint,
-      tokenMint,
-      tick_spacing
-    ).publicKey;
-    console.log("Pool Id: ", whirlpool_pubkey.toBase58());
-    return whirlpool_pubkey.toBase58();
+/**
+ * A whirlpool of a pair, one per fee tier.
+ */
+export interface WhirlPoolInfo {
+  poolId: string;
+  tickSpacing: number;
+  feeRate: number; // percent of the input taken as fee
+  liquidity: string; // liquidity active at the current price
+  whirlPool: any;
 }
-export async function fetchWhirlPool(tokenAddress:string) {
-  const whirlPoolId = await fetchWhirlPoolId(tokenAddress);  
+
+/**
+ * Fetches the whirlpools pairing a token with a quote token across every tick spacing.
+ * @param {string} tokenAddress - The address of the token.
+ * @param {string} quoteMint - The token it is paired with, WSOL by default.
+ * @returns {Promise<WhirlPoolInfo[]>} The pools with liquidity at the current price, deepest first.
+ */
+export async function fetchWhirlPools(tokenAddress: string, quoteMint: string = wsol) {
+  const [mintA, mintB] = PoolUtil.orderMints(tokenAddress, quoteMint).map((mint) => new PublicKey(mint));
+  const addresses = tick_spacings.map((tickSpacing) =>
+    PDAUtil.getWhirlpool(ORCA_WHIRLPOOL_PROGRAM_ID, MAINNET_WHIRLPOOLS_CONFIG, mintA, mintB, tickSpacing).publicKey.toBase58()
+  );
+  const accounts = await ctx.fetcher.getPools(addresses, IGNORE_CACHE);
+  const existing = addresses.filter((address) => accounts.get(address));
+  if (existing.length === 0) return [];
+  const whirlPools = await client.getPools(existing);
+  return whirlPools
+    .map((whirlPool) => {
+      const data = whirlPool.getData();
+      return {
+        poolId: whirlPool.getAddress().toBase58(),
+        tickSpacing: data.tickSpacing,
+        feeRate: data.feeRate / 10000, // hundredths of a basis point
+        liquidity: data.liquidity.toString(),
+        whirlPool,
+      };
+    })
+    .filter((pool) => pool.liquidity !== "0")
+    .sort((a, b) => (BigInt(b.liquidity) > BigInt(a.liquidity) ? 1 : -1));
+}
+
+/**
+ * Fetches the id of the whirlpool with the most liquidity at the current price pairing a token with SOL.
+ * The id is kept in the pool registry under the "orca" venue.
+ * @param {string} tokenAddress - The address of the token.
+ * @returns {Promise<string>} The pool id, an empty string if the token has no SOL pool.
+ */
+export async function fetchWhirlPoolId(tokenAddress: string) {
+  const entry = await resolvePoolEntry(tokenAddress, "orca", wsol, async () => {
+    const [deepest] = await fetchWhirlPools(tokenAddress);
+    return deepest ? { poolId: deepest.poolId } : null;
+  });
+  if (!entry) {
+    console.log("No whirlpool found for the given token address: ", tokenAddress);
+    return "";
+  }
+  console.log("Pool Id: ", entry.poolId);
+  return entry.poolId;
+}
+export async function fetchWhirlPool(tokenAddress: string) {
+  const whirlPoolId = await fetchWhirlPoolId(tokenAddress);
+  if (!whirlPoolId) throw new Error(`No whirlpool found for ${tokenAddress}`);
   const whirlpool = await client.getPool(new PublicKey(whirlPoolId));
   return whirlpool;
 }
@@ -0,0 +1,350 @@
+import { BN } from "@coral-xyz/anchor";
+import { DecimalUtil, Percentage } from "@orca-so/common-sdk";
+import {
+  IGNORE_CACHE,
+  ORCA_WHIRLPOOL_PROGRAM_ID,
+  PDAUtil,
+  PoolUtil,
+  PriceMath,
+  collectFeesQuote,
+  collectRewardsQuote,
+  decreaseLiquidityQuoteByLiquidityWithParams,
+  increaseLiquidityQuoteByInputTokenWithParams,
+} from "@orca-so/whirlpools-sdk";
+import { TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID } from "@solana/spl-token";
+import {
+  PublicKey,
+  TransactionMessage,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import Decimal from "decimal.js";
+import { client } from "../constants";
+import { connection, wallet } from "../../helpers/config";
+import { getDecimals } from "../../helpers/util";
+import { SwapOptions } from "../../helpers/types";
+import { resolveExecutor } from "../../transactions/tx_executor";
+import { getPriorityFeeInstruction } from "../../transactions/fee_estimator";
+import { fitComputeUnitLimit } from "../../transactions/compute_budget";
+
+const DEFAULT_SLIPPAGE_BPS = 100;
+
+/**
+ * A Whirlpool position and what it is worth at the current price.
+ * Prices and values are of token A in token B.
+ */
+export interface WhirlpoolPosition {
+  address: string;
+  positionMint: string;
+  whirlpool: string;
+  tokenMintA: string;
+  tokenMintB: string;
+  tickLowerIndex: number;
+  tickUpperIndex: number;
+  lowerPrice: number;
+  upperPrice: number;
+  currentPrice: number;
+  inRange: boolean;
+  liquidity: string;
+  amountA: number;
+  amountB: number;
+  feesA: number;
+  feesB: number;
+  rewards: { mint: string; amount: number }[];
+  value: number; // amounts and fees, in token B
+}
+
+/**
+ * Signs and sends the instructions of a whirlpools transaction builder through the configured executor.
+ * @param {TransactionBuilder} builder - The transaction built by the whirlpools sdk.
+ * @param {string} label - Names the operation in the logs.
+ * @param {SwapOptions} options - The executor, the urgency and the dry run.
+ * @returns {Promise<string | null>} The signature, null if the transaction did not land.
+ */
+async function sendWhirlpoolTx(builder: any, label: string, options: SwapOptions = {}) {
+  // cleanup instructions, such as closing the WSOL account, run last
+  const { instructions: ixList, signers: ixSigners } = builder.compressIx(true);
+  const signers: any[] = [...ixSigners, ...builder.signers];
+  const executor = resolveExecutor(options);
+  const recentBlockhash = await connection.getLatestBlockhash();
+  const messageV0 = new TransactionMessage({
+    payerKey: wallet.publicKey,
+    recentBlockhash: recentBlockhash.blockhash,
+    instructions: [await getPriorityFeeInstruction(ixList, options.urgency), ...ixList],
+  }).compileToV0Message();
+  const transaction = await fitComputeUnitLimit(new VersionedTransaction(messageV0));
+  const res = await executor.submit(transaction, [wallet, ...signers], {
+    latestBlockhash: recentBlockhash,
+    urgency: options.urgency,
+  });
+  if (!res.landed) {
+    if (!res.simulation) console.log(`${executor.name} transaction failed when trying to ${label}: ${res.error}`);
+    return null;
+  }
+  console.log(`${label}: https://solscan.io/tx/${res.signature}`);
+  return res.signature;
+}
+
+const toSlippage = (slippageBps: number) => Percentage.fromFraction(slippageBps, 10000);
+
+/**
+ * Converts a price range of token A in token B to the initializable ticks of a pool.
+ * @param {string} poolId - The whirlpool address.
+ * @param {number} lowerPrice - The lower price of the range.
+ * @param {number} upperPrice - The upper price of the range.
+ * @returns {Promise<[number, number]>} The lower and upper tick index.
+ * @throws {Error} If the range is empty once rounded to the tick spacing.
+ */
+export async function getTickRange(poolId: string, lowerPrice: number, upperPrice: number) {
+  const whirlpool = await client.getPool(poolId, IGNORE_CACHE);
+  const { tickSpacing } = whirlpool.getData();
+  const decimalsA = whirlpool.getTokenAInfo().decimals;
+  const decimalsB = whirlpool.getTokenBInfo().decimals;
+  const tickLower = PriceMath.priceToInitializableTickIndex(new Decimal(lowerPrice), decimalsA, decimalsB, tickSpacing);
+  const tickUpper = PriceMath.priceToInitializableTickIndex(new Decimal(upperPrice), decimalsA, decimalsB, tickSpacing);
+  if (tickLower >= tickUpper) {
+    throw new Error(`The range ${lowerPrice} - ${upperPrice} is narrower than the tick spacing ${tickSpacing}`);
+  }
+  return [tickLower, tickUpper];
+}
+
+/**
+ * Quotes the liquidity a deposit of one token buys in a tick range, the other token is taken at the pool price.
+ * @param {any} whirlpool - The whirlpool.
+ * @param {number} tickLower - The lower tick index.
+ * @param {number} tickUpper - The upper tick index.
+ * @param {number} amount - The amount of the fixed token, in UI units.
+ * @param {string} mint - The fixed token, token A by default.
+ * @param {number} slippageBps - How much more of the other token may be taken, 100 = 1%.
+ * @returns {IncreaseLiquidityQuote} The liquidity and the maximum amount of each token.
+ */
+function quoteDeposit(whirlpool: any, tickLower: number, tickUpper: number, amount: number, mint: string | undefined, slippageBps: number) {
+  const data = whirlpool.getData();
+  const inputMint = new PublicKey(mint || data.tokenMintA);
+  const decimals = inputMint.equals(data.tokenMintA)
+    ? whirlpool.getTokenAInfo().decimals
+    : whirlpool.getTokenBInfo().decimals;
+  return increaseLiquidityQuoteByInputTokenWithParams({
+    inputTokenAmount: DecimalUtil.toBN(new Decimal(amount), decimals),
+    inputTokenMint: inputMint,
+    tokenMintA: data.tokenMintA,
+    tokenMintB: data.tokenMintB,
+    tickCurrentIndex: data.tickCurrentIndex,
+    sqrtPrice: data.sqrtPrice,
+    tickLowerIndex: tickLower,
+    tickUpperIndex: tickUpper,
+    slippageTolerance: toSlippage(slippageBps),
+  });
+}
+
+/**
+ * Opens a position in a price range and deposits into it.
+ * The tick arrays of the range are initialized first when they are not yet.
+ * @param {string} poolId - The whirlpool address.
+ * @param {number} lowerPrice - The lower price of token A in token B.
+ * @param {number} upperPrice - The upper price of token A in token B.
+ * @param {number} amount - The amount of the fixed token, in UI units.
+ * @param {string} mint - The fixed token, token A by default.
+ * @param {number} slippageBps - How much more of the other token may be taken, 100 = 1%.
+ * @param {SwapOptions} options - The executor, the urgency and the dry run.
+ * @returns {Promise<{position: string, positionMint: string, signature: string} | null>} The position, null if a transaction failed.
+ */
+export async function openPosition(
+  poolId: string,
+  lowerPrice: number,
+  upperPrice: number,
+  amount: number,
+  mint?: string,
+  slippageBps: number = DEFAULT_SLIPPAGE_BPS,
+  options: SwapOptions = {}
+) {
+  const [tickLower, tickUpper] = await getTickRange(poolId, lowerPrice, upperPrice);
+  const whirlpool = await client.getPool(poolId, IGNORE_CACHE);
+  const initTickArrays = await whirlpool.initTickArrayForTicks([tickLower, tickUpper]);
+  if (initTickArrays && !(await sendWhirlpoolTx(initTickArrays, "initialize the tick arrays", options))) {
+    return null;
+  }
+  const quote = quoteDeposit(whirlpool, tickLower, tickUpper, amount, mint, slippageBps);
+  const { positionMint, tx } = await whirlpool.openPositionWithMetadata(tickLower, tickUpper, quote);
+  const signature = await sendWhirlpoolTx(tx, "open the position", options);
+  if (!signature) return null;
+  const position = PDAUtil.getPosition(ORCA_WHIRLPOOL_PROGRAM_ID, positionMint).publicKey.toBase58();
+  console.log(`Position ${position} opened on ticks ${tickLower} - ${tickUpper}`);
+  return { position, positionMint: positionMint.toBase58(), signature };
+}
+
+/**
+ * Deposits more into a position, the other token is taken at the pool price.
+ * @param {string} positionAddress - The position address.
+ * @param {number} amount - The amount of the fixed token, in UI units.
+ * @param {string} mint - The fixed token, token A by default.
+ * @param {number} slippageBps - How much more of the other token may be taken, 100 = 1%.
+ * @param {SwapOptions} options - The executor, the urgency and the dry run.
+ * @returns {Promise<string | null>} The signature, null if the transaction failed.
+ */
+export async function increaseLiquidity(
+  positionAddress: string,
+  amount: number,
+  mint?: string,
+  slippageBps: number = DEFAULT_SLIPPAGE_BPS,
+  options: SwapOptions = {}
+) {
+  const position = await client.getPosition(positionAddress, IGNORE_CACHE);
+  const data = position.getData();
+  const whirlpool = await client.getPool(data.whirlpool, IGNORE_CACHE);
+  const quote = quoteDeposit(whirlpool, data.tickLowerIndex, data.tickUpperIndex, amount, mint, slippageBps);
+  return await sendWhirlpoolTx(await position.increaseLiquidity(quote), "increase the liquidity", options);
+}
+
+/**
+ * Withdraws a share of the liquidity of a position, the position stays open.
+ * @param {string} positionAddress - The position address.
+ * @param {number} ratio - The share of the liquidity to withdraw, 1 for all of it.
+ * @param {number} slippageBps - How much less of each token may be received, 100 = 1%.
+ * @param {SwapOptions} options - The executor, the urgency and the dry run.
+ * @returns {Promise<string | null>} The signature, null if the transaction failed or the position is empty.
+ */
+export async function decreaseLiquidity(
+  positionAddress: string,
+  ratio: number = 1,
+  slippageBps: number = DEFAULT_SLIPPAGE_BPS,
+  options: SwapOptions = {}
+) {
+  const position = await client.getPosition(positionAddress, IGNORE_CACHE);
+  const data = position.getData();
+  const whirlpool = (await client.getPool(data.whirlpool, IGNORE_CACHE)).getData();
+  const liquidity = new BN(new Decimal(data.liquidity.toString()).mul(ratio).floor().toFixed());
+  if (liquidity.isZero()) {
+    console.log("The position has no liquidity to withdraw");
+    return null;
+  }
+  const quote = decreaseLiquidityQuoteByLiquidityWithParams({
+    liquidity,
+    tickCurrentIndex: whirlpool.tickCurrentIndex,
+    sqrtPrice: whirlpool.sqrtPrice,
+    tickLowerIndex: data.tickLowerIndex,
+    tickUpperIndex: data.tickUpperIndex,
+    slippageTolerance: toSlippage(slippageBps),
+  });
+  return await sendWhirlpoolTx(await position.decreaseLiquidity(quote), "decrease the liquidity", options);
+}
+
+/**
+ * Collects the fees and rewards of positions.
+ * @param {string[]} positionAddresses - The position addresses.
+ * @param {SwapOptions} options - The executor, the urgency and the dry run.
+ * @returns {Promise<string[]>} The signatures of the transactions that landed.
+ */
+export async function collectFeesAndRewards(positionAddresses: string[], options: SwapOptions = {}) {
+  const builders = await client.collectFeesAndRewardsForPositions(positionAddresses, IGNORE_CACHE);
+  const signatures: string[] = [];
+  for (const builder of builders) {
+    const signature = await sendWhirlpoolTx(builder, "collect the fees and rewards", options);
+    if (signature) signatures.push(signature);
+  }
+  return signatures;
+}
+
+/**
+ * Withdraws all the liquidity, fees and rewards of a position, then closes it and burns its token.
+ * @param {string} positionAddress - The position address.
+ * @param {number} slippageBps - How much less of each token may be received, 100 = 1%.
+ * @param {SwapOptions} options - The executor, the urgency and the dry run.
+ * @returns {Promise<string[] | null>} The signatures, null if a transaction failed.
+ */
+export async function closePosition(
+  positionAddress: string,
+  slippageBps: number = DEFAULT_SLIPPAGE_BPS,
+  options: SwapOptions = {}
+) {
+  const position = await client.getPosition(positionAddress, IGNORE_CACHE);
+  const whirlpool = await client.getPool(position.getData().whirlpool, IGNORE_CACHE);
+  const builders = await whirlpool.closePosition(positionAddress, toSlippage(slippageBps));
+  const signatures: string[] = [];
+  for (const builder of builders) {
+    const signature = await sendWhirlpoolTx(builder, "close the position", options);
+    if (!signature) return null;
+    signatures.push(signature);
+  }
+  return signatures;
+}
+
+/**
+ * Lists the Whirlpool positions of a wallet with their range status, amounts, fees and value.
+ * Positions are found from the position tokens the wallet holds, in both token programs.
+ * @param {PublicKey} owner - The wallet, the configured wallet by default.
+ * @returns {Promise<WhirlpoolPosition[]>} The positions.
+ */
+export async function getPositions(owner: PublicKey = wallet.publicKey): Promise<WhirlpoolPosition[]> {
+  const tokenAccounts = (
+    await Promise.all(
+      [TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID].map((programId) =>
+        connection.getParsedTokenAccountsByOwner(owner, { programId })
+      )
+    )
+  ).flatMap((res) => res.value);
+  const addresses = tokenAccounts
+    .map((account: any) => account.account.data.parsed.info)
+    .filter((info) => info.tokenAmount.amount === "1" && info.tokenAmount.decimals === 0)
+    .map((info) => PDAUtil.getPosition(ORCA_WHIRLPOOL_PROGRAM_ID, new PublicKey(info.mint)).publicKey);
+  const positions = Object.values(await client.getPositions(addresses, IGNORE_CACHE));
+
+  const results: WhirlpoolPosition[] = [];
+  for (const position of positions) {
+    if (!position) continue;
+    const data = position.getData();
+    const whirlpool = await client.getPool(data.whirlpool);
+    const poolData = position.getWhirlpoolData();
+    const decimalsA = whirlpool.getTokenAInfo().decimals;
+    const decimalsB = whirlpool.getTokenBInfo().decimals;
+    const amounts = PoolUtil.getTokenAmountsFromLiquidity(
+      data.liquidity,
+      poolData.sqrtPrice,
+      PriceMath.tickIndexToSqrtPriceX64(data.tickLowerIndex),
+      PriceMath.tickIndexToSqrtPriceX64(data.tickUpperIndex),
+      false
+    );
+    const quoteParams = {
+      whirlpool: poolData,
+      position: data,
+      tickLower: position.getLowerTickData(),
+      tickUpper: position.getUpperTickData(),
+    };
+    const fees = collectFeesQuote(quoteParams);
+    const rewardAmounts = collectRewardsQuote(quoteParams);
+    const rewards = [];
+    for (let i = 0; i < rewardAmounts.length; i++) {
+      const reward = poolData.rewardInfos[i];
+      if (!rewardAmounts[i] || reward.mint.equals(PublicKey.default)) continue;
+      rewards.push({
+        mint: reward.mint.toBase58(),
+        amount: DecimalUtil.fromBN(rewardAmounts[i]!, await getDecimals(reward.mint)).toNumber(),
+      });
+    }
+    const currentPrice = PriceMath.sqrtPriceX64ToPrice(poolData.sqrtPrice, decimalsA, decimalsB).toNumber();
+    const amountA = DecimalUtil.fromBN(amounts.tokenA, decimalsA).toNumber();
+    const amountB = DecimalUtil.fromBN(amounts.tokenB, decimalsB).toNumber();
+    const feesA = DecimalUtil.fromBN(fees.feeOwedA, decimalsA).toNumber();
+    const feesB = DecimalUtil.fromBN(fees.feeOwedB, decimalsB).toNumber();
+    results.push({
+      address: position.getAddress().toBase58(),
+      positionMint: data.positionMint.toBase58(),
+      whirlpool: data.whirlpool.toBase58(),
+      tokenMintA: poolData.tokenMintA.toBase58(),
+      tokenMintB: poolData.tokenMintB.toBase58(),
+      tickLowerIndex: data.tickLowerIndex,
+      tickUpperIndex: data.tickUpperIndex,
+      lowerPrice: PriceMath.tickIndexToPrice(data.tickLowerIndex, decimalsA, decimalsB).toNumber(),
+      upperPrice: PriceMath.tickIndexToPrice(data.tickUpperIndex, decimalsA, decimalsB).toNumber(),
+      currentPrice,
+      inRange: poolData.tickCurrentIndex >= data.tickLowerIndex && poolData.tickCurrentIndex < data.tickUpperIndex,
+      liquidity: data.liquidity.toString(),
+      amountA,
+      amountB,
+      feesA,
+      feesB,
+      rewards,
+      value: (amountA + feesA) * currentPrice + amountB + feesB,
+    });
+  }
+  return results;
+}
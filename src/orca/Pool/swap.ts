@@ -1,5 +1,10 @@
-import { DecimalUtil, Percentage } from "@orca-so/common-sdk";
-import { swapQuoteByInputToken, IGNORE_CACHE } from "@orca-so/whirlpools-sdk";
+import { DecimalUtil, Percentage, resolveOrCreateATAs } from "@orca-so/common-sdk";
+import {
+  swapQuoteByInputToken,
+  IGNORE_CACHE,
+  SwapUtils,
+  WhirlpoolIx,
+} from "@orca-so/whirlpools-sdk";
 import {
   MAINNET_WHIRLPOOLS_CONFIG,
   WSOL,
@@ -10,9 +15,21 @@ import {
   ctx,
 } from "../constants";
 import Decimal from "decimal.js";
-import { connection, wallet, jito_fee } from "../../helpers/config";
+import { connection, wallet } from "../../helpers/config";
 import { getSPLTokenBalance } from "../../helpers/check_balance";
-import { jito_executeAndConfirm } from "../../transactions";
+import { resolveExecutor } from "../../transactions/tx_executor";
+import { getPriorityFeeInstruction } from "../../transactions/fee_estimator";
+import { fitComputeUnitLimit } from "../../transactions/compute_budget";
+import {
+  buildSwapResult,
+  printSwapResult,
+  startSwapTimer,
+} from "../../transactions/swap_result";
+import {
+  checkPriceImpact,
+  getSlippageBps,
+} from "../../transactions/swap_guard";
+import { SwapOptions, SwapResult } from "../../helpers/types";
 import {
   TransactionMessage,
   Transaction,
@@ -20,105 +37,293 @@ import {
   VersionedTransaction,
   PublicKey,
 } from "@solana/web3.js";
-import { fetchWhirlPool } from "./fetch-pool";
+import { BN } from "@coral-xyz/anchor";
+import { fetchWhirlPools } from "./fetch-pool";
+import { getPoolEntry } from "../../helpers/pool_registry";
+
+const DEFAULT_SLIPPAGE_BPS = 100;
+const SPLIT_RATIOS = [0.25, 0.5, 0.75]; // shares of the input on the best pool when a swap is split over two pools
+
+/**
+ * The part of a swap that goes through one whirlpool.
+ */
+interface SwapLeg {
+  whirlPool: any;
+  quote: any;
+  amountIn: BN; // raw amount of the input token
+}
+
+/**
+ * Computes the price impact of a quote from the pool price before and after the swap.
+ * @param startSqrtPrice The sqrt price of the pool before the swap, as a Q64.64 BN.
+ * @param quote The swap quote, providing the estimated end sqrt price.
+ * @returns The price impact in percent.
+ */
+function getPriceImpact(startSqrtPrice: any, quote: any) {
+  const ratio = new Decimal(quote.estimatedEndSqrtPrice.toString()).div(
+    startSqrtPrice.toString()
+  );
+  return ratio.pow(2).minus(1).abs().mul(100).toNumber();
+}
+/**
+ * Quotes a swap in one whirlpool, null if the pool cannot fill it.
+ * @param whirlPool The whirlpool.
+ * @param inToken The mint of the input token.
+ * @param amountIn The raw amount of the input token.
+ * @param slippage The slippage used for the minimum amount out.
+ * @returns The whirlpools quote, or null.
+ */
+async function quotePool(whirlPool: any, inToken: PublicKey, amountIn: BN, slippage: Percentage) {
+  if (amountIn.isZero()) return null;
+  try {
+    return await swapQuoteByInputToken(
+      whirlPool,
+      inToken,
+      amountIn,
+      slippage,
+      ctx.program.programId,
+      ctx.fetcher,
+      IGNORE_CACHE
+    );
+  } catch (e) {
+    return null; // not enough liquidity in the tick arrays around the price
+  }
+}
+
+const totalOut = (legs: SwapLeg[]) =>
+  legs.reduce((sum, leg) => sum.add(leg.quote.estimatedAmountOut), new BN(0));
+
+/**
+ * Builds the instructions of a route split over several whirlpools.
+ * The token accounts are resolved once, ATAs created idempotently and SOL wrapped for the whole input,
+ * so the legs do not each create the same account.
+ * @param legs The legs of the route.
+ * @param inToken The mint of the input token.
+ * @param outToken The mint of the output token.
+ * @returns The instructions, the account setup first and the SOL unwrapping last, and their signers.
+ */
+async function buildSplitSwapInstructions(legs: SwapLeg[], inToken: PublicKey, outToken: PublicKey) {
+  const [inAccount, outAccount] = await resolveOrCreateATAs(
+    connection,
+    wallet.publicKey,
+    [
+      {
+        tokenMint: inToken,
+        wrappedSolAmountIn: legs.reduce((sum, leg) => sum.add(leg.quote.amount), new BN(0)),
+      },
+      { tokenMint: outToken },
+    ],
+    () => ctx.fetcher.getAccountRentExempt(),
+    wallet.publicKey,
+    true
+  );
+  const swapIxs = legs.map((leg) =>
+    WhirlpoolIx.swapIx(
+      ctx.program,
+      SwapUtils.getSwapParamsFromQuote(
+        leg.quote,
+        ctx,
+        leg.whirlPool,
+        inAccount.address,
+        outAccount.address,
+        wallet.publicKey
+      )
+    )
+  );
+  return {
+    instructions: [
+      ...inAccount.instructions,
+      ...outAccount.instructions,
+      ...swapIxs.flatMap((ix) => ix.instructions),
+      ...inAccount.cleanupInstructions,
+      ...outAccount.cleanupInstructions,
+    ],
+    signers: [...inAccount.signers, ...outAccount.signers],
+  };
+}
+
+/**
+ * Quotes a swap in the whirlpools of a token without building a transaction.
+ * Every fee tier of the pair is quoted for the full amount, and the amount is also split
+ * over the two best pools at SPLIT_RATIOS; the route with the most output is kept.
+ * A pool pinned in the pool registry is the only one quoted.
+ * @param side "buy" to swap SOL for the token, "sell" to swap the token for SOL.
+ * @param tokenAddress The address of the token.
+ * @param amountIn The amount of the input token, SOL for a buy.
+ * @param options The slippage used for the minimum amount out.
+ * @returns The pools and quotes of the route, the first leg's pool and quote, the mints and the amounts out in UI units.
+ */
+export async function quoteSwap(
+  side: string,
+  tokenAddress: string,
+  amountIn: number,
+  options: SwapOptions = {}
+) {
+  const tokenMint = new PublicKey(tokenAddress);
+  const pinned = getPoolEntry(tokenAddress, "orca", WSOL.mint.toBase58());
+  const whirlPools: any[] = pinned?.pinned
+    ? [await client.getPool(pinned.poolId, IGNORE_CACHE)]
+    : (await fetchWhirlPools(tokenAddress)).map((pool) => pool.whirlPool);
+  if (whirlPools.length === 0) throw new Error(`No whirlpool found for ${tokenAddress}`);
+  const tokenDecimal =
+    whirlPools[0].getTokenAInfo().mint.toBase58() === tokenMint.toBase58()
+      ? whirlPools[0].getTokenAInfo().decimals
+      : whirlPools[0].getTokenBInfo().decimals;
+  const [inToken, outToken] =
+    side === "buy" ? [WSOL.mint, tokenMint] : [tokenMint, WSOL.mint];
+  const [inDecimals, outDecimals] =
+    side === "buy"
+      ? [WSOL.decimals, tokenDecimal]
+      : [tokenDecimal, WSOL.decimals];
+  const slippage = Percentage.fromFraction(getSlippageBps(options, DEFAULT_SLIPPAGE_BPS), 10000);
+  const amount = DecimalUtil.toBN(new Decimal(amountIn), inDecimals);
+
+  const singles: SwapLeg[] = [];
+  const quotes = await Promise.all(whirlPools.map((whirlPool) => quotePool(whirlPool, inToken, amount, slippage)));
+  quotes.forEach((quote, i) => quote && singles.push({ whirlPool: whirlPools[i], quote, amountIn: amount }));
+  if (singles.length === 0) throw new Error(`No whirlpool of ${tokenAddress} can fill ${amountIn}`);
+  singles.sort((a, b) => b.quote.estimatedAmountOut.cmp(a.quote.estimatedAmountOut));
+  const routes: SwapLeg[][] = [[singles[0]]];
+
+  if (singles.length > 1) {
+    const [first, second] = singles;
+    const splits = await Promise.all(
+      SPLIT_RATIOS.map(async (ratio) => {
+        const firstIn = DecimalUtil.toBN(new Decimal(amountIn).mul(ratio), inDecimals);
+        const secondIn = amount.sub(firstIn);
+        const [firstQuote, secondQuote] = await Promise.all([
+          quotePool(first.whirlPool, inToken, firstIn, slippage),
+          quotePool(second.whirlPool, inToken, secondIn, slippage),
+        ]);
+        if (!firstQuote || !secondQuote) return null;
+        return [
+          { whirlPool: first.whirlPool, quote: firstQuote, amountIn: firstIn },
+          { whirlPool: second.whirlPool, quote: secondQuote, amountIn: secondIn },
+        ];
+      })
+    );
+    splits.forEach((split) => split && routes.push(split));
+  }
+  const legs = routes.reduce((best, route) => (totalOut(route).gt(totalOut(best)) ? route : best));
+
+  const minAmountOut = legs.reduce((sum, leg) => sum.add(leg.quote.otherAmountThreshold), new BN(0));
+  // the price impact of each pool, weighted by its share of the input
+  const priceImpact = legs.reduce(
+    (sum, leg) =>
+      sum +
+      getPriceImpact(leg.whirlPool.getData().sqrtPrice, leg.quote) *
+        new Decimal(leg.amountIn.toString()).div(amount.toString()).toNumber(),
+    0
+  );
+  return {
+    poolId: legs[0].whirlPool.getAddress().toBase58() as string,
+    whirlPool: legs[0].whirlPool,
+    quote: legs[0].quote,
+    legs,
+    inToken,
+    outToken,
+    amountOut: DecimalUtil.fromBN(totalOut(legs), outDecimals).toNumber(),
+    minAmountOut: DecimalUtil.fromBN(minAmountOut, outDecimals).toNumber(),
+    priceImpact,
+  };
+}
+
 /**
  * Performs a swap operation in a Whirl pool.
  * @param side The side of the swap operation, either "buy" or "sell". Default is "buy".
  * @param tokenAddress The address of the token to be swapped.
  * @param buyAmountInSOL The amount of SOL to be used for buying the token. Default is 0.1.
  * @param sellPercentage The percentage of the token to be sold. Default is 100%.
- * @returns A Promise that resolves to the transaction hash if the swap is successful, otherwise an error object.
+ * @param options Per-call options such as the transaction executor, the slippage and the maximum price impact.
+ * @returns A Promise that resolves to the swap result, null if the transaction could not be built.
+ * @throws {PriceImpactError} If the quoted price impact is above options.maxPriceImpact.
  */
 export async function swap(
   side: string = "buy",
   tokenAddress: string,
   buyAmountInSOL: number = 0.1,
-  sellPercentage: number = 100
-) {
+  sellPercentage: number = 100,
+  options: SwapOptions = {}
+): Promise<SwapResult | null> {
+  const timer = startSwapTimer();
   const tokenMint = new PublicKey(tokenAddress);
-  const whirlPool: any = await fetchWhirlPool(tokenAddress);
-  let amountIn: Decimal,
-    inToken: PublicKey,
-    outToken: PublicKey,
-    tokenDecimal: number,
-    quote: any;
+  let amountIn: number;
   if (side === "buy") {
-    amountIn = new Decimal(buyAmountInSOL);
-    inToken = WSOL.mint;
-    outToken = tokenMint;
-    quote = await swapQuoteByInputToken(
-      whirlPool,
-      inToken,
-      DecimalUtil.toBN(amountIn, WSOL.decimals),
-      Percentage.fromFraction(10, 1000), // 10/1000 = 1% slippage
-      ctx.program.programId,
-      ctx.fetcher,
-      IGNORE_CACHE
-    );
+    amountIn = buyAmountInSOL;
   } else {
     const balance = await getSPLTokenBalance(
       connection,
       tokenMint,
       wallet.publicKey
     );
-    amountIn = new Decimal(balance * (sellPercentage / 100));
-    inToken = tokenMint;
-    outToken = WSOL.mint;
-    if (whirlPool.tokenAInfo.mint.toBase58() === tokenMint.toBase58()) {
-      tokenDecimal = whirlPool.tokenAInfo.decimals;
-    } else {
-      tokenDecimal = whirlPool.tokenBInfo.decimals;
-    }
-    quote = await swapQuoteByInputToken(
-      whirlPool,
-      inToken,
-      DecimalUtil.toBN(amountIn, tokenDecimal),
-      Percentage.fromFraction(10, 1000), // 10/1000 = 1% slippage
-      ctx.program.programId,
-      ctx.fetcher,
-      IGNORE_CACHE
-    );
+    amountIn = balance * (sellPercentage / 100);
   }
-  // build the tx
-  const swapTx: any = await whirlPool.swap(quote);
-  let ixList = [],
-    signers = [];
-  // extract the instructions and signers
-  for (const ix of swapTx.instructions) {
-    ixList.push(...ix.instructions);
-    //ixList.push(...ix.cleanupInstructions);
-    signers.push(...ix.signers);
+  const { legs, inToken, outToken, priceImpact } = await quoteSwap(
+    side,
+    tokenAddress,
+    amountIn,
+    options
+  );
+  checkPriceImpact("orca", priceImpact, options);
+  // build the tx, one swap per pool of the route
+  let ixList: TransactionInstruction[] = [],
+    signers: any[] = [];
+  if (legs.length > 1) {
+    ({ instructions: ixList, signers } = await buildSplitSwapInstructions(legs, inToken, outToken));
+  } else {
+    const swapTx: any = await legs[0].whirlPool.swap(legs[0].quote);
+    // extract the instructions and signers
+    for (const ix of swapTx.instructions) {
+      ixList.push(...ix.instructions);
+      //ixList.push(...ix.cleanupInstructions);
+      signers.push(...ix.signers);
+    }
   }
 
-  // send the tx to jito
+  // send the tx through the configured executor
+  const executor = resolveExecutor(options);
   try {
     const recentBlockhash = await connection.getLatestBlockhash();
     const messageV0 = new TransactionMessage({
       payerKey: wallet.publicKey,
       recentBlockhash: recentBlockhash.blockhash,
-      instructions: [...ixList],
+      instructions: [
+        await getPriorityFeeInstruction(ixList, options.urgency),
+        ...ixList,
+      ],
     }).compileToV0Message();
 
-    const transaction = new VersionedTransaction(messageV0);
-    transaction.sign([wallet, ...signers]);
-    const res = await jito_executeAndConfirm(
-      transaction,
-      wallet,
-      recentBlockhash,
-      jito_fee
+    const transaction = await fitComputeUnitLimit(
+      new VersionedTransaction(messageV0)
     );
-    const signature = res.signature;
-    const confirmed = res.confirmed;
+    timer.submitStart = Date.now();
+    const res = await executor.submit(transaction, [wallet, ...signers], {
+      latestBlockhash: recentBlockhash,
+      urgency: options.urgency,
+    });
+    timer.submitEnd = Date.now();
 
-    if (confirmed) {
-      console.log(`🚀 https://solscan.io/tx/${signature}`);
-    } else {
+    if (!res.landed && !res.simulation) {
       console.log(
-        "jito fee transaction failed when swapping token in a orca whirl pool"
+        `${executor.name} transaction failed when swapping token in a orca whirl pool: ${res.error}`
       );
     }
+    const result = await buildSwapResult(
+      {
+        owner: wallet.publicKey,
+        inputMint: inToken.toBase58(),
+        outputMint: outToken.toBase58(),
+        priceImpact,
+        executor: executor.name,
+      },
+      res,
+      timer
+    );
+    printSwapResult(result);
+    return result;
   } catch (error: any) {
     console.log("🚀 ~ error: ", JSON.parse(JSON.stringify(error)));
+    return null;
   }
 }
 //swap("buy", "7GCihgDB8fe6KNjn2MYtkzZcRjQy3t9GHdC8uHYmW2hr", 0.01, -1); // buy 0.01 SOL worth of the token
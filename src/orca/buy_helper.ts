@@ -1,11 +1,14 @@
 import {swap} from "./Pool";
+import { SwapOptions, SwapResult } from "../helpers/types";
 
 /**
  * Buys a specified amount of tokens using SOL.
  * 
  * @param token_address The address of the token to buy.
  * @param buyAmountInSOL The amount of SOL to use for the purchase.
+ * @param options Per-call options such as the transaction executor.
+ * @returns The result of the swap, null if it could not be built.
  */
-export async function buy(token_address:string, buyAmountInSOL:number) {
-  await swap("buy", token_address, buyAmountInSOL, -1);
+export async function buy(token_address:string, buyAmountInSOL:number, options:SwapOptions = {}): Promise<SwapResult | null> {
+  return await swap("buy", token_address, buyAmountInSOL, -1, options);
 }
\ No newline at end of file
@@ -29,3 +29,4 @@ export const USDC = { mint: new PublicKey(usdc), decimals: 6 };
 export const WSOL = { mint: new PublicKey(wsol), decimals: 9 };
 export const USDT = { mint: new PublicKey(usdt), decimals: 6 };
 export const tick_spacing = 256;
+export const tick_spacings = [1, 2, 4, 8, 16, 64, 96, 128, 256, 32896]; // every fee tier of the whirlpools config, 32896 are the splash pools
@@ -1,5 +1,5 @@
 import Decimal from "decimal.js";
-import { wsol, usdc } from "../raydium";
+import { wsol, usdc } from "../raydium/constants";
 import {fetchWhirlPool} from "./Pool"
 import { PriceMath } from "@orca-so/whirlpools-sdk";
 // on-chain rpc method to get the current price of the token
@@ -7,6 +7,8 @@ export async function getCurrentPriceInSOL(tokenAddress:string):Promise<any> {
     const whirlPool:any = await fetchWhirlPool(tokenAddress);
     const sqrt_price_x64 = whirlPool.getData().sqrtPrice;
     const price = PriceMath.sqrtPriceX64ToPrice(sqrt_price_x64, whirlPool.tokenAInfo.decimals, whirlPool.tokenBInfo.decimals);
+    // the price is of token A in token B, the mints of a whirlpool are ordered by address
+    if (whirlPool.tokenAInfo.mint.toBase58() === tokenAddress) return price;
     return new Decimal(1).div(price.toFixed(whirlPool.tokenBInfo.decimals));
 }
 export async function getCurrentSolPrice():Promise<any> {
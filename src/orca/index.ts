@@ -1,3 +1,5 @@
 export * from "./Pool";
 export * from "./sell_helper";
-export * from "./buy_helper";
\ No newline at end of file
+export * from "./buy_helper";
+export * from "./fetch-price";
+export * from "./token-filters";
@@ -0,0 +1,117 @@
+import { PublicKey } from "@solana/web3.js";
+import { program } from "commander";
+import {
+  closePosition,
+  collectFeesAndRewards,
+  decreaseLiquidity,
+  getPositions,
+  increaseLiquidity,
+  openPosition,
+  WhirlpoolPosition,
+} from "./Pool/positions";
+import { logger } from "../helpers/logger";
+
+/**
+ * Prints a Whirlpool position.
+ * @param {WhirlpoolPosition} position - The position to print.
+ */
+function printPosition(position: WhirlpoolPosition) {
+  logger.info(`Position ${position.address} in ${position.whirlpool}`);
+  logger.info(`  Range: ${position.lowerPrice} - ${position.upperPrice}, price ${position.currentPrice} (${position.inRange ? "in range" : "out of range"})`);
+  logger.info(`  Amounts: ${position.amountA} ${position.tokenMintA}`);
+  logger.info(`           ${position.amountB} ${position.tokenMintB}`);
+  logger.info(`  Fees: ${position.feesA} A, ${position.feesB} B`);
+  position.rewards.forEach((reward) => logger.info(`  Reward: ${reward.amount} ${reward.mint}`));
+  logger.info(`  Value: ${position.value} (token B)`);
+}
+
+const toSlippage = (options: any) => (options.slippage ? parseInt(options.slippage) : undefined);
+
+program
+  .command("open")
+  .description("Open a position in a price range of token A in token B and deposit into it")
+  .requiredOption("--pool <POOL_ID>", "Specify the whirlpool address")
+  .requiredOption("--lower-price <PRICE>", "Specify the lower price of the range")
+  .requiredOption("--upper-price <PRICE>", "Specify the upper price of the range")
+  .requiredOption("--amount <AMOUNT>", "Specify the amount of the fixed token")
+  .option("--mint <MINT>", "Specify the fixed token, token A by default")
+  .option("--slippage <BPS>", "Specify how much more of the other token may be taken, 100 = 1%")
+  .option("--dry-run", "Simulate the transactions without sending them")
+  .action(async (options: any) => {
+    const res = await openPosition(
+      options.pool,
+      parseFloat(options.lowerPrice),
+      parseFloat(options.upperPrice),
+      parseFloat(options.amount),
+      options.mint,
+      toSlippage(options),
+      { dryRun: options.dryRun }
+    );
+    if (res) logger.info(`Position opened: ${res.position}`);
+  });
+
+program
+  .command("increase")
+  .description("Deposit more into a position, the other token is taken at the pool price")
+  .requiredOption("--position <ADDRESS>", "Specify the position address")
+  .requiredOption("--amount <AMOUNT>", "Specify the amount of the fixed token")
+  .option("--mint <MINT>", "Specify the fixed token, token A by default")
+  .option("--slippage <BPS>", "Specify how much more of the other token may be taken, 100 = 1%")
+  .option("--dry-run", "Simulate the transaction without sending it")
+  .action(async (options: any) => {
+    await increaseLiquidity(
+      options.position,
+      parseFloat(options.amount),
+      options.mint,
+      toSlippage(options),
+      { dryRun: options.dryRun }
+    );
+  });
+
+program
+  .command("decrease")
+  .description("Withdraw a percentage of the liquidity of a position")
+  .requiredOption("--position <ADDRESS>", "Specify the position address")
+  .option("--percentage <PERCENT>", "Specify the percentage of the liquidity to withdraw", "100")
+  .option("--slippage <BPS>", "Specify how much less of each token may be received, 100 = 1%")
+  .option("--dry-run", "Simulate the transaction without sending it")
+  .action(async (options: any) => {
+    await decreaseLiquidity(
+      options.position,
+      parseFloat(options.percentage) / 100,
+      toSlippage(options),
+      { dryRun: options.dryRun }
+    );
+  });
+
+program
+  .command("collect")
+  .description("Collect the fees and rewards of positions")
+  .requiredOption("--position <ADDRESSES...>", "Specify the position addresses")
+  .option("--dry-run", "Simulate the transactions without sending them")
+  .action(async (options: any) => {
+    await collectFeesAndRewards(options.position, { dryRun: options.dryRun });
+  });
+
+program
+  .command("close")
+  .description("Withdraw everything from a position and close it")
+  .requiredOption("--position <ADDRESS>", "Specify the position address")
+  .option("--slippage <BPS>", "Specify how much less of each token may be received, 100 = 1%")
+  .option("--dry-run", "Simulate the transactions without sending them")
+  .action(async (options: any) => {
+    const res = await closePosition(options.position, toSlippage(options), { dryRun: options.dryRun });
+    if (res) logger.info(`Position closed: ${options.position}`);
+  });
+
+program
+  .command("positions")
+  .description("List the positions of a wallet with their range status and value")
+  .option("--owner <ADDRESS>", "Specify the wallet, the configured wallet by default")
+  .action(async (options: any) => {
+    const positions = await getPositions(options.owner ? new PublicKey(options.owner) : undefined);
+    if (positions.length === 0) logger.info("No Whirlpool positions");
+    positions.forEach(printPosition);
+  });
+
+program.parse();
@@ -1,12 +1,18 @@
 import { logger } from "../helpers/logger";
 import {swap} from "./Pool"
 import { program } from "commander";
+import { exitOnPriceImpact } from "../transactions/swap_guard";
 
 let token:string="",
   percentage:number=0;
+let dryRun = false;
+let slippageBps: number | undefined, maxPriceImpact: number | undefined;
 program
   .option("--token <ADDRESS_TOKEN>", "Specify the token address")
   .option("--percentage <SELL_PERCENTAGE>", "Specify the sell percentage")
+  .option("--dry-run", "Simulate the swap and print the expected outcome without sending it")
+  .option("--slippage <BPS>", "Specify the slippage in basis points, 100 = 1%")
+  .option("--max-price-impact <PERCENT>", "Abort the swap before signing if the price impact is above this percentage")
   .option("-h, --help", "display help for command")
   .action((options) => {
     if (options.help) {
@@ -21,6 +27,11 @@ program
     }
     token = options.token;
     percentage = options.percentage;
+    dryRun = !!options.dryRun;
+    slippageBps = options.slippage ? parseInt(options.slippage) : undefined;
+    maxPriceImpact = options.maxPriceImpact
+      ? parseFloat(options.maxPriceImpact)
+      : undefined;
   });
 program.parse();
 
@@ -33,6 +44,6 @@ program.parse();
  * @returns {Promise<void>} - A promise that resolves when the swap is completed.
  */
 async function sell(side:string, token_address:string, sell_percentage:number) {
-  await swap(side, token_address, -1, sell_percentage);
+  await swap(side, token_address, -1, sell_percentage, { dryRun, slippageBps, maxPriceImpact });
 }
-sell("sell", token, percentage);
+sell("sell", token, percentage).catch(exitOnPriceImpact);
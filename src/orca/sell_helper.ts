@@ -1,11 +1,14 @@
 import {swap} from "./Pool";
+import { SwapOptions, SwapResult } from "../helpers/types";
 
 /**
  * Sells a token with the specified token address and sell percentage.
  * 
  * @param token_address The address of the token to be sold.
  * @param sell_percentage The percentage of the token to be sold.
+ * @param options Per-call options such as the transaction executor.
+ * @returns The result of the swap, null if it could not be built.
  */
-export async function sell(token_address:string, sell_percentage:number) {
-  await swap("sell", token_address, -1, sell_percentage);
+export async function sell(token_address:string, sell_percentage:number, options:SwapOptions = {}): Promise<SwapResult | null> {
+  return await swap("sell", token_address, -1, sell_percentage, options);
 }   
\ No newline at end of file
@@ -0,0 +1,4 @@
+export * from "./marketcap";
+export * from "./pool-sol";
+export * from "./volume";
+export * from "./liquidity-depth";
@@ -0,0 +1,107 @@
+import Decimal from "decimal.js";
+import {
+  IGNORE_CACHE,
+  ORCA_WHIRLPOOL_PROGRAM_ID,
+  PDAUtil,
+  TICK_ARRAY_SIZE,
+  TickUtil,
+} from "@orca-so/whirlpools-sdk";
+import { fetchWhirlPool } from "../Pool";
+import { ctx, wsol } from "../constants";
+
+const Q64 = new Decimal(2).pow(64);
+
+const tickToSqrtPrice = (tick: number) => new Decimal(1.0001).pow(tick / 2);
+
+/**
+ * Reads the liquidity net of the initialized ticks between two tick indexes.
+ * @param {any} whirlPool - The whirlpool.
+ * @param {number} fromTick - The lowest tick index.
+ * @param {number} toTick - The highest tick index.
+ * @returns {Promise<Map<number, Decimal>>} The liquidity net by tick index.
+ */
+async function getInitializedTicks(whirlPool: any, fromTick: number, toTick: number) {
+  const { tickSpacing } = whirlPool.getData();
+  const ticksPerArray = TICK_ARRAY_SIZE * tickSpacing;
+  const starts: number[] = [];
+  for (
+    let start = TickUtil.getStartTickIndex(fromTick, tickSpacing);
+    start <= toTick;
+    start += ticksPerArray
+  ) {
+    starts.push(start);
+  }
+  const addresses = starts.map(
+    (start) => PDAUtil.getTickArray(ORCA_WHIRLPOOL_PROGRAM_ID, whirlPool.getAddress(), start).publicKey
+  );
+  const tickArrays = await ctx.fetcher.getTickArrays(addresses, IGNORE_CACHE);
+  const ticks: Map<number, Decimal> = new Map();
+  tickArrays.forEach((tickArray, i) => {
+    // a tick array that was never initialized has no liquidity
+    tickArray?.ticks.forEach((tick, offset) => {
+      const index = starts[i] + offset * tickSpacing;
+      if (tick.initialized && index >= fromTick && index <= toTick) {
+        ticks.set(index, new Decimal(tick.liquidityNet.toString()));
+      }
+    });
+  });
+  return ticks;
+}
+
+/**
+ * Gets the value of the liquidity within a percentage of the current price of the whirlpool of a token,
+ * walking the initialized ticks of its tick arrays on both sides of the price.
+ * @param {string} tokenAddress - The token address.
+ * @param {number} percent - The distance from the current price, 2 for -2% to +2%.
+ * @returns {Promise<number | undefined>} The value of the tokens in the range, in SOL, undefined on an error.
+ */
+export async function getLiquidityWithinRange(tokenAddress: string, percent: number = 2) {
+  try {
+    const whirlPool: any = await fetchWhirlPool(tokenAddress);
+    const data = whirlPool.getData();
+    const decimalsA = whirlPool.getTokenAInfo().decimals;
+    const decimalsB = whirlPool.getTokenBInfo().decimals;
+    const sqrtPrice = new Decimal(data.sqrtPrice.toString()).div(Q64);
+    // raw prices of token A in raw token B, the ticks are powers of 1.0001 of them
+    const lowerTick = Math.floor(sqrtPrice.pow(2).mul(1 - percent / 100).log(1.0001).toNumber());
+    const upperTick = Math.ceil(sqrtPrice.pow(2).mul(1 + percent / 100).log(1.0001).toNumber());
+    const ticks = await getInitializedTicks(whirlPool, lowerTick, upperTick);
+
+    // above the price the pool holds token A, crossing a tick upward adds its liquidity net
+    let liquidity = new Decimal(data.liquidity.toString());
+    let current = sqrtPrice;
+    let amountA = new Decimal(0);
+    const above = [...ticks.keys()].filter((tick) => tick > data.tickCurrentIndex).sort((a, b) => a - b);
+    for (const tick of [...above, upperTick]) {
+      const next = tickToSqrtPrice(tick);
+      amountA = amountA.add(liquidity.mul(new Decimal(1).div(current).minus(new Decimal(1).div(next))));
+      liquidity = liquidity.add(ticks.get(tick) || 0);
+      current = next;
+    }
+
+    // below the price the pool holds token B, crossing a tick downward removes its liquidity net
+    liquidity = new Decimal(data.liquidity.toString());
+    current = sqrtPrice;
+    let amountB = new Decimal(0);
+    const below = [...ticks.keys()].filter((tick) => tick <= data.tickCurrentIndex).sort((a, b) => b - a);
+    for (const tick of [...below, lowerTick]) {
+      const next = tickToSqrtPrice(tick);
+      amountB = amountB.add(liquidity.mul(current.minus(next)));
+      liquidity = liquidity.minus(ticks.get(tick) || 0);
+      current = next;
+    }
+
+    const uiAmountA = amountA.div(new Decimal(10).pow(decimalsA));
+    const uiAmountB = amountB.div(new Decimal(10).pow(decimalsB));
+    const price = sqrtPrice.pow(2).mul(new Decimal(10).pow(decimalsA - decimalsB)); // token A in token B
+    const valueInB = uiAmountA.mul(price).add(uiAmountB);
+    const valueInSol =
+      whirlPool.getTokenAInfo().mint.toBase58() === wsol ? valueInB.div(price) : valueInB;
+    console.log(valueInSol.toNumber());
+    return valueInSol.toNumber();
+  } catch (e) {
+    console.log("Error getting the liquidity within range: ", e);
+  }
+}
+
+//getLiquidityWithinRange("7GCihgDB8fe6KNjn2MYtkzZcRjQy3t9GHdC8uHYmW2hr", 2);
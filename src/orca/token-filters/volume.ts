@@ -0,0 +1,80 @@
+const fetch = require('node-fetch');
+import {fetchWhirlPoolId} from "../Pool/fetch-pool";
+
+const MAX_ATTEMPTS = 3;
+
+/**
+ * Fetches the statistics of the whirlpool of a token from the Orca API.
+ * @param {string} tokenAddress - The token address.
+ * @returns {Promise<any>} The pool of the API, its TVL and its "24h", "7d" and "30d" stats in USD.
+ * @throws {Error} If the API did not answer successfully after MAX_ATTEMPTS attempts.
+ */
+async function fetchPoolStats(tokenAddress:string){
+    const poolId = await fetchWhirlPoolId(tokenAddress);
+    for(let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++){
+        const response = await( await fetch(`https://api.orca.so/v2/solana/pools/${poolId}`)).json();
+        if(response.data && response.data.stats) return response.data;
+        console.log(`The response was not successful when getting the pool stats, attempt ${attempt}`)
+    }
+    throw new Error(`Orca API did not return the pool ${poolId}`);
+}
+
+export async function getDayVolume(tokenAddress:string){
+    try{
+        const dayVolume = Number((await fetchPoolStats(tokenAddress)).stats["24h"].volume);
+        console.log(dayVolume)
+        return dayVolume;
+    }catch(e){
+        console.log("Error getting 24h volume: ", e)
+    }
+}
+export async function getWeekVolume(tokenAddress:string){
+    try{
+        const weekVolume = Number((await fetchPoolStats(tokenAddress)).stats["7d"].volume);
+        console.log(weekVolume);
+        return weekVolume;
+    }catch(e){
+        console.log("Error getting week volume: ", e)
+    }
+}
+
+export async function getMonthVolume(tokenAddress:string){
+    try{
+        const monthVolume = Number((await fetchPoolStats(tokenAddress)).stats["30d"].volume);
+        console.log(monthVolume);
+        return monthVolume;
+    }catch(e){
+        console.log("Error getting month volume: ", e)
+    }
+}
+
+export async function getTVL(tokenAddress:string){
+    try{
+        const tvl = Number((await fetchPoolStats(tokenAddress)).tvlUsdc);
+        console.log(tvl);
+        return tvl;
+    }catch(e){
+        console.log("Error getting TVL: ", e)
+    }
+}
+
+/**
+ * Gets the yearly fee APR of the whirlpool of a token, from the fees of a period against the current TVL.
+ * @param {string} tokenAddress - The token address.
+ * @param {string} period - "24h", "7d" or "30d".
+ * @returns {Promise<number | undefined>} The APR in percent, undefined on an error.
+ */
+export async function getFeeApr(tokenAddress:string, period:"24h"|"7d"|"30d" = "24h"){
+    const days = {"24h": 1, "7d": 7, "30d": 30}[period];
+    try{
+        const pool = await fetchPoolStats(tokenAddress);
+        const tvl = Number(pool.tvlUsdc);
+        const feeApr = tvl > 0 ? (Number(pool.stats[period].fees) / days) * 365 / tvl * 100 : 0;
+        console.log(feeApr);
+        return feeApr;
+    }catch(e){
+        console.log("Error getting fee APR: ", e)
+    }
+}
+
+//getDayVolume("7GCihgDB8fe6KNjn2MYtkzZcRjQy3t9GHdC8uHYmW2hr");
@@ -2,10 +2,16 @@ import { PublicKey } from "@solana/web3.js";
 import {buy} from "./tools";
 import { program } from "commander";
 import { logger } from "../../../helpers/logger";
+import { exitOnPriceImpact } from "../../../transactions/swap_guard";
 let token_address:any = null, sol = null;
+let dryRun = false;
+let slippageBps: number | undefined, maxPriceImpact: number | undefined;
 program
   .option("--token_address <ADDRESS_TOKEN>", "Specify the token address")
   .option("--sol <NUMBER_OF_SOL>", "Specify the number of SOL")
+  .option("--dry-run", "Simulate the swap and print the expected outcome without sending it")
+  .option("--slippage <BPS>", "Specify the slippage in basis points, 100 = 1%")
+  .option("--max-price-impact <PERCENT>", "Abort the swap before signing if the price impact is above this percentage")
   .option("-h, --help", "display help for command")
   .action((options) => {
     if (options.help) {
@@ -20,9 +26,16 @@ program
     }
     token_address = options.token_address;
     sol = options.sol;
+    dryRun = !!options.dryRun;
+    slippageBps = options.slippage ? parseInt(options.slippage) : undefined;
+    maxPriceImpact = options.maxPriceImpact
+      ? parseFloat(options.maxPriceImpact)
+      : undefined;
   });
 program.parse();
 
 
-buy(new PublicKey(token_address), sol);
+buy(new PublicKey(token_address), sol, { dryRun, slippageBps, maxPriceImpact }).catch(
+  exitOnPriceImpact
+);
 
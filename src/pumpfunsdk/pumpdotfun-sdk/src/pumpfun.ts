@@ -29,9 +29,11 @@ import {
   calculateWithSlippageSell,
   sendTx,
   sendTxToJito,
+  sendTxWithExecutor,
 } from "./util";
 import { PumpFun, IDL } from "./IDL/index";
 import { wallet } from "../../../helpers/config";
+import { SwapOptions } from "../../../helpers/types";
 export const PROGRAM_ID = "6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P";
 export const MPL_TOKEN_METADATA_PROGRAM_ID =
   "metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s";
@@ -176,7 +178,8 @@ export class PumpFunSDK {
     slippageBasisPoints = 500n,
     priorityFees: any,
     commitment = DEFAULT_COMMITMENT,
-    finality = DEFAULT_FINALITY
+    finality = DEFAULT_FINALITY,
+    options: SwapOptions = {}
   ) {
     let buyTx = await this.getBuyInstructionsBySolAmount(
       buyer.publicKey,
@@ -195,12 +198,12 @@ export class PumpFunSDK {
     //   commitment,
     //   finality
     // );
-    let buyResults = await sendTxToJito(
+    let buyResults = await sendTxWithExecutor(
       this.connection,
       buyTx,
       buyer,
       [buyer],
-      0.00001
+      options
     );
     return buyResults;
   }
@@ -212,7 +215,8 @@ export class PumpFunSDK {
     slippageBasisPoints = 500n,
     priorityFees: any,
     commitment = DEFAULT_COMMITMENT,
-    finality = DEFAULT_FINALITY
+    finality = DEFAULT_FINALITY,
+    options: SwapOptions = {}
   ) {
     let sellTx = await this.getSellInstructionsByTokenAmount(
       seller.publicKey,
@@ -231,12 +235,12 @@ export class PumpFunSDK {
     //   commitment,
     //   finality
     // );
-    let sellResults = await sendTxToJito(
+    let sellResults = await sendTxWithExecutor(
       this.connection,
       sellTx,
       seller,
       [seller],
-      0.00001
+      options
     );
     return sellResults;
   }
@@ -2,10 +2,16 @@ import {sell} from './tools';
 import { PublicKey } from "@solana/web3.js";
 import { program } from "commander";
 import { logger } from '../../../helpers/logger';
+import { exitOnPriceImpact } from '../../../transactions/swap_guard';
 let token_address:any = null, sellPercentage:any = null;
+let dryRun = false;
+let slippageBps: number | undefined, maxPriceImpact: number | undefined;
 program
   .option("--token_address <ADDRESS_TOKEN>", "Specify the token address")
   .option("--percentage <SELL_PERCENTAGE>", "Specify the percentage of token to sell")
+  .option("--dry-run", "Simulate the swap and print the expected outcome without sending it")
+  .option("--slippage <BPS>", "Specify the slippage in basis points, 100 = 1%")
+  .option("--max-price-impact <PERCENT>", "Abort the swap before signing if the price impact is above this percentage")
   .option("-h, --help", "display help for command")
   .action((options:any) => {
     if (options.help) {
@@ -20,8 +26,15 @@ program
     }
     token_address = options.token_address;
     sellPercentage = options.percentage;
+    dryRun = !!options.dryRun;
+    slippageBps = options.slippage ? parseInt(options.slippage) : undefined;
+    maxPriceImpact = options.maxPriceImpact
+      ? parseFloat(options.maxPriceImpact)
+      : undefined;
   });
 program.parse();
 
 
-sell(new PublicKey(token_address), sellPercentage/100);
\ No newline at end of file
+sell(new PublicKey(token_address), sellPercentage/100, { dryRun, slippageBps, maxPriceImpact }).catch(
+  exitOnPriceImpact
+);
\ No newline at end of file
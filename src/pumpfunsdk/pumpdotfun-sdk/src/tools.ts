@@ -20,9 +20,58 @@ import {
 import { bs58 } from "@coral-xyz/anchor/dist/cjs/utils/bytes";
 import NodeWallet from "@coral-xyz/anchor/dist/cjs/nodewallet";
 import path from "path";
+import { SwapOptions, SwapResult } from "../../../helpers/types";
+import {
+  buildSwapResult,
+  printSwapResult,
+  SwapTimer,
+} from "../../../transactions/swap_result";
+import {
+  checkPriceImpact,
+  getSlippageBps,
+} from "../../../transactions/swap_guard";
 const SLIPPAGE_BASIS_POINTS = 100n;
+const WSOL = "So11111111111111111111111111111111111111112";
 
 const Wallet = new NodeWallet(wallet);
+
+/**
+ * Converts the result of a bonding curve trade to a SwapResult.
+ * @param {any} results - The result of sendTxWithExecutor.
+ * @param {string} inputMint - The mint spent.
+ * @param {string} outputMint - The mint received.
+ * @param {number | null} priceImpact - The quoted price impact in percent.
+ * @param {SwapTimer} timer - The marks taken around the trade.
+ * @returns {Promise<SwapResult>} The common result of the trade.
+ */
+async function toSwapResult(
+  results: any,
+  inputMint: string,
+  outputMint: string,
+  priceImpact: number | null,
+  timer: SwapTimer
+) {
+  const result = await buildSwapResult(
+    {
+      owner: wallet.publicKey,
+      inputMint,
+      outputMint,
+      priceImpact,
+      executor: results.executor,
+    },
+    {
+      signature: results.signature ?? null,
+      landed: !!results.success,
+      slot: results.slot ?? null,
+      error: results.error ? String(results.error) : null,
+      tip: results.tip,
+      simulation: results.simulation,
+    },
+    timer
+  );
+  printSwapResult(result);
+  return result;
+}
 /**
  * Creates and buys a token using the provided parameters.
  * @param {string} pathToMintKeypair - The path to the mint keypair JSON file.
@@ -79,13 +128,67 @@ export async function createAndBuy(pathToMintKeypair:any, tokenMetadata:any, ini
   }
 }
 
+/**
+ * Quotes a trade on the bonding curve of a token without building a transaction.
+ * The pump.fun fee is taken into account on both sides, the price impact compares
+ * the price of the trade before fees with the spot price of the virtual reserves.
+ * @param {string} side - "buy" to spend SOL, "sell" to sell tokens.
+ * @param {PublicKey} mintPubKey - The public key of the token mint.
+ * @param {number} amountIn - The SOL to spend for a buy, the tokens to sell for a sell.
+ * @returns {Promise<{ bondingCurve: string, amountOut: number, priceImpact: number } | null>} - The bonding curve, the UI amount out and the price impact in percent, null if the token has no active bonding curve.
+ */
+export async function quote(side:string, mintPubKey:any, amountIn:number) {
+  const provider = new AnchorProvider(connection, Wallet, {
+    commitment: "finalized",
+  });
+  const sdk = new PumpFunSDK(provider);
+  const bondingCurveAccount = await sdk.getBondingCurveAccount(mintPubKey);
+  if (!bondingCurveAccount || bondingCurveAccount.complete) return null;
+  const globalAccount = await sdk.getGlobalAccount();
+  // lamports per raw token unit
+  const spotPrice =
+    Number(bondingCurveAccount.virtualSolReserves) /
+    Number(bondingCurveAccount.virtualTokenReserves);
+  let amountOut: number, priceImpact: number;
+  if (side === "buy") {
+    // the fee is paid on top of the SOL that goes into the curve
+    const lamports = BigInt(Math.floor(amountIn * LAMPORTS_PER_SOL));
+    const intoCurve = (lamports * 10000n) / (10000n + globalAccount.feeBasisPoints);
+    const tokensOut = bondingCurveAccount.getBuyPrice(intoCurve);
+    amountOut = Number(tokensOut) / Math.pow(10, DEFAULT_DECIMALS);
+    priceImpact =
+      tokensOut > 0n
+        ? (Number(intoCurve) / Number(tokensOut) / spotPrice - 1) * 100
+        : 100;
+  } else {
+    const tokens = BigInt(Math.floor(amountIn * Math.pow(10, DEFAULT_DECIMALS)));
+    amountOut =
+      Number(
+        bondingCurveAccount.getSellPrice(tokens, globalAccount.feeBasisPoints)
+      ) / LAMPORTS_PER_SOL;
+    const lamportsOut = bondingCurveAccount.getSellPrice(tokens, 0n);
+    priceImpact =
+      tokens > 0n
+        ? (1 - Number(lamportsOut) / Number(tokens) / spotPrice) * 100
+        : 0;
+  }
+  return {
+    bondingCurve: sdk.getBondingCurvePDA(mintPubKey).toBase58(),
+    amountOut,
+    priceImpact,
+  };
+}
+
 /**
  * Sells a specified percentage of tokens.
  * @param {string} mintPubKey - The public key of the token mint.
  * @param {number} sellPercentage - The percentage of tokens to sell.
- * @returns {Promise<void>} - A promise that resolves when the sell operation is complete.
+ * @param {SwapOptions} options - Per-call options such as dry-run mode, the slippage and the maximum price impact.
+ * @returns {Promise<SwapResult | null>} - The result of the sell operation, null without a token balance.
+ * @throws {PriceImpactError} If the quoted price impact is above options.maxPriceImpact.
  */
-export async function sell(mintPubKey:any, sellPercentage:any) {
+export async function sell(mintPubKey:any, sellPercentage:any, options:SwapOptions = {}): Promise<SwapResult | null> {
+  const start = Date.now();
   const provider = new AnchorProvider(connection, Wallet, {
     commitment: "finalized",
   });
@@ -98,18 +201,37 @@ export async function sell(mintPubKey:any, sellPercentage:any) {
   );
   console.log("currentTokenBalance", currentTokenBalance);
   if (currentTokenBalance) {
+    const quoted = await quote(
+      "sell",
+      mintPubKey,
+      currentTokenBalance * sellPercentage
+    );
+    const priceImpact = quoted ? quoted.priceImpact : null;
+    checkPriceImpact("pumpfun", priceImpact, options);
+    const submitStart = Date.now();
     let sellResults = await sdk.sell(
       wallet,
       mintPubKey,
       BigInt(
         currentTokenBalance * Math.pow(10, DEFAULT_DECIMALS) * sellPercentage
       ),
-      SLIPPAGE_BASIS_POINTS,
+      BigInt(getSlippageBps(options, Number(SLIPPAGE_BASIS_POINTS))),
       {
         unitLimit: 250000,
         unitPrice: 250000,
-      }
+      },
+      undefined,
+      undefined,
+      options
     );
+    const result = await toSwapResult(
+      sellResults,
+      new PublicKey(mintPubKey).toBase58(),
+      WSOL,
+      priceImpact,
+      { start, submitStart, submitEnd: Date.now() }
+    );
+    if (sellResults.dryRun) return result;
     if (sellResults.success) {
       await printSPLBalance(connection, mintPubKey, wallet.publicKey);
       console.log(
@@ -119,31 +241,51 @@ export async function sell(mintPubKey:any, sellPercentage:any) {
     } else {
       console.log("Sell failed");
     }
+    return result;
   }
+  return null;
 }
 
 /**
  * Buys tokens from the bonding curve.
  * @param {string} mintPubKey - The public key of the token mint.
  * @param {number} solPerOrder - The amount of SOL to spend per order.
- * @returns {Promise<void>} - A promise that resolves when the buy operation is complete.
+ * @param {SwapOptions} options - Per-call options such as dry-run mode, the slippage and the maximum price impact.
+ * @returns {Promise<SwapResult>} - The result of the buy operation.
+ * @throws {PriceImpactError} If the quoted price impact is above options.maxPriceImpact.
  */
-export async function buy(mintPubKey:any, solPerOrder:any) {
+export async function buy(mintPubKey:any, solPerOrder:any, options:SwapOptions = {}): Promise<SwapResult> {
+  const start = Date.now();
   const provider = new AnchorProvider(connection, Wallet, {
     commitment: "finalized",
   });
 
   const sdk = new PumpFunSDK(provider);
+  const quoted = await quote("buy", mintPubKey, solPerOrder);
+  const priceImpact = quoted ? quoted.priceImpact : null;
+  checkPriceImpact("pumpfun", priceImpact, options);
+  const submitStart = Date.now();
   let buyResults = await sdk.buy(
     wallet,
     mintPubKey,
     BigInt(solPerOrder * LAMPORTS_PER_SOL),
-    SLIPPAGE_BASIS_POINTS,
+    BigInt(getSlippageBps(options, Number(SLIPPAGE_BASIS_POINTS))),
     {
       unitLimit: 250000,
       unitPrice: 250000,
-    }
+    },
+    undefined,
+    undefined,
+    options
+  );
+  const result = await toSwapResult(
+    buyResults,
+    WSOL,
+    new PublicKey(mintPubKey).toBase58(),
+    priceImpact,
+    { start, submitStart, submitEnd: Date.now() }
   );
+  if (buyResults.dryRun) return result;
   if (buyResults.success) {
     printSPLBalance(connection, mintPubKey, wallet.publicKey);
     console.log(
@@ -153,6 +295,7 @@ export async function buy(mintPubKey:any, solPerOrder:any) {
   } else {
     console.log("Buy failed");
   }
+  return result;
 }
 
 
@@ -17,7 +17,11 @@ import {
 import { AnchorProvider } from "@coral-xyz/anchor";
 import { PumpFunSDK, DEFAULT_DECIMALS } from "./pumpfun";
 import { PriorityFee, TransactionResult } from "./types";
-import { jito_executeAndConfirm } from "../../../transactions/jito_tips_tx_executor";
+import { resolveExecutor } from "../../../transactions/tx_executor";
+import { getPriorityFeeInstruction } from "../../../transactions/fee_estimator";
+import { fitComputeUnitLimit } from "../../../transactions/compute_budget";
+import { dry_run } from "../../../helpers/config";
+import { SwapOptions } from "../../../helpers/types";
 import fs from "fs";
 import { bs58 } from "@coral-xyz/anchor/dist/cjs/utils/bytes";
 export const DEFAULT_COMMITMENT = "finalized";
@@ -47,40 +51,70 @@ function readCSVFile(filePath: string) {
   }
 }
 
-export async function sendTxToJito(
+/**
+ * Sends a pump.fun transaction through a transaction executor, or simulates it in dry-run mode.
+ * The priority fee and a fitted compute unit limit are added before the executor signs it.
+ * @param {Connection} connection - The connection.
+ * @param {any} tx - The transaction or instructions to send.
+ * @param {Keypair} payer - The fee payer.
+ * @param {Keypair[]} signers - The signers of the transaction, the payer included.
+ * @param {SwapOptions} options - The executor, the urgency and the dry run.
+ * @param {number} tip - The tip in SOL, estimated by the tipping executors if omitted.
+ * @returns {Promise<any>} Whether the transaction landed, its signature, slot and tip, or the simulation in dry-run mode.
+ */
+export async function sendTxWithExecutor(
   connection: Connection,
   tx: any,
   payer: Keypair,
   signers: Keypair[],
-  jitofee: any
+  options: SwapOptions = {},
+  tip?: number
 ) {
-  const blockhash = await connection.getLatestBlockhash();
+  const latestBlockhash = await connection.getLatestBlockhash();
   let final_tx = new Transaction();
   final_tx.add(tx);
+  final_tx.instructions.unshift(
+    await getPriorityFeeInstruction(final_tx.instructions, options.urgency)
+  );
   let versionedTx = await buildVersionedTx(
     connection,
     payer.publicKey,
     final_tx,
     connection.commitment
   );
-  versionedTx.sign(signers);
+  versionedTx = await fitComputeUnitLimit(versionedTx);
+  const executor = resolveExecutor(options);
   try {
-    const { confirmed, signature } = await jito_executeAndConfirm(
+    // the executor signs, with the payer first
+    const res = await executor.submit(
       versionedTx,
-      payer,
-      blockhash,
-      jitofee
+      [payer, ...signers.filter((signer) => !signer.publicKey.equals(payer.publicKey))],
+      { latestBlockhash, tip, urgency: options.urgency }
     );
-    // let txResult = await getTxDetails(connection, signature, connection.commitment, DEFAULT_FINALITY);
-    if (!confirmed) {
+    if (res.simulation) {
       return {
         success: false,
-        error: "Transaction failed",
+        dryRun: true,
+        simulation: res.simulation,
+        tip: res.tip,
+        executor: executor.name,
+      };
+    }
+    if (!res.landed) {
+      return {
+        success: false,
+        signature: res.signature,
+        error: res.error || "Transaction failed",
+        tip: res.tip,
+        executor: executor.name,
       };
     }
     return {
       success: true,
-      signature: signature,
+      signature: res.signature,
+      slot: res.slot,
+      tip: res.tip,
+      executor: executor.name,
     };
   } catch (e) {
     if (e instanceof SendTransactionError) {
@@ -91,10 +125,39 @@ export async function sendTxToJito(
     return {
       error: e,
       success: false,
+      executor: executor.name,
     };
   }
 }
 
+/**
+ * Sends a pump.fun transaction as a Jito bundle with a fixed tip, used to create tokens and fund wallets.
+ * @param {Connection} connection - The connection.
+ * @param {any} tx - The transaction or instructions to send.
+ * @param {Keypair} payer - The fee payer.
+ * @param {Keypair[]} signers - The signers of the transaction, the payer included.
+ * @param {number} jitofee - The tip in SOL.
+ * @param {boolean} dryRun - Simulates the transaction instead of sending it.
+ * @returns {Promise<any>} The result of sendTxWithExecutor.
+ */
+export async function sendTxToJito(
+  connection: Connection,
+  tx: any,
+  payer: Keypair,
+  signers: Keypair[],
+  jitofee: any,
+  dryRun: boolean = dry_run
+) {
+  return await sendTxWithExecutor(
+    connection,
+    tx,
+    payer,
+    signers,
+    { executor: "jito", dryRun },
+    jitofee
+  );
+}
+
 export async function sendTx(
   connection: Connection,
   tx: Transaction,
@@ -23,13 +23,13 @@ import { formatAmmKeysById_pool } from "./formatAmmKeysById";
 import {
   buildAndSendTx,
   getWalletTokenAccount,
-  loadOrCreateKeypair_wallet,
   getDecimals,
   getTokenMetadata,
   checkTx,
 } from "../../helpers/util";
 const BN = require("bn.js");
 import { program } from "commander";
+import { getSigner } from "../../helpers/keystore";
 
 let payer_keypair:any = null,
   token_address:any = null,
@@ -39,7 +39,7 @@ let payer_keypair:any = null,
   priority_fee = null,
   connection_sol = connection;
 program
-  .option("--payer <PATH_TO_SECRET_KEY>", "Specify the path to the secret key")
+  .option("--payer <WALLET_NAME>", "Specify the keystore wallet name")
   .option("--token_address <ADDRESS_TOKEN>", "Specify the token address")
   .option("--pool_id <POOL_ID>", "Specify the pool id")
   .option("--sol <NUMBER_OF_SOL>", "Specify the number of SOL")
@@ -49,7 +49,7 @@ program
   .action((options) => {
     if (options.help) {
       console.log(
-        "node add_pool --payer <PATH_WALLET> --token_address <ADDRESS_TOKEN> --pool_id <POOL_ID> --sol <NUMBER_OF_SOL> --cluster <CLUSTER> --priority_fee <PRIORITY_FEE>"
+        "node add_pool --payer <WALLET_NAME> --token_address <ADDRESS_TOKEN> --pool_id <POOL_ID> --sol <NUMBER_OF_SOL> --cluster <CLUSTER> --priority_fee <PRIORITY_FEE>"
       );
       process.exit(0);
     }
@@ -167,7 +167,7 @@ export async function ammAddLiquidityHelper(input:any) {
  */
 async function main() {
   if (payer_keypair !== null) {
-    payer_keypair = await loadOrCreateKeypair_wallet(payer_keypair);
+    payer_keypair = getSigner(payer_keypair);
   } else {
     payer_keypair = Keypair.fromSecretKey(wallet.secretKey);
   }
@@ -0,0 +1,170 @@
+import { LIQUIDITY_STATE_LAYOUT_V4 } from "@raydium-io/raydium-sdk";
+
+/**
+ * State of a Raydium AMM v4 pool needed to quote it, amounts in raw units.
+ * The reserves are the vault balances less the pnl the pool has not taken yet,
+ * the amounts the program swaps against.
+ */
+export interface AmmPoolSnapshot {
+  poolId: string;
+  baseMint: string;
+  quoteMint: string;
+  baseDecimals: number;
+  quoteDecimals: number;
+  baseReserve: bigint;
+  quoteReserve: bigint;
+  swapFeeNumerator: bigint;
+  swapFeeDenominator: bigint;
+  slot: number; // slot of the most recent account the snapshot was built from
+}
+
+export interface AmmAmountOut {
+  amountIn: bigint;
+  amountOut: bigint;
+  minAmountOut: bigint;
+  fee: bigint; // taken from the amount in
+  priceImpact: number; // in percent, fees excluded
+}
+
+export interface AmmAmountIn {
+  amountIn: bigint;
+  maxAmountIn: bigint;
+  amountOut: bigint;
+  fee: bigint; // included in the amount in
+  priceImpact: number; // in percent, fees excluded
+}
+
+type AmmPoolState = ReturnType<typeof LIQUIDITY_STATE_LAYOUT_V4.decode>;
+
+/**
+ * Divides rounding up, the way the AMM program does.
+ * A quotient below one rounds to the nearest instead, so dust amounts pay no fee.
+ */
+function ceilDiv(a: bigint, b: bigint) {
+  if (a < b) return a * 2n >= b ? 1n : 0n;
+  return (a + b - 1n) / b;
+}
+
+/**
+ * Builds the snapshot of a pool from its decoded state and the balances of its vaults.
+ * @param {string} poolId - The pool id.
+ * @param {AmmPoolState} state - The pool account decoded with LIQUIDITY_STATE_LAYOUT_V4.
+ * @param {bigint} baseVaultAmount - The raw balance of the base vault.
+ * @param {bigint} quoteVaultAmount - The raw balance of the quote vault.
+ * @param {number} slot - The slot the accounts were read at.
+ * @returns {AmmPoolSnapshot} The snapshot to quote against.
+ */
+export function toAmmSnapshot(
+  poolId: string,
+  state: AmmPoolState,
+  baseVaultAmount: bigint,
+  quoteVaultAmount: bigint,
+  slot: number = 0
+): AmmPoolSnapshot {
+  return {
+    poolId,
+    baseMint: state.baseMint.toBase58(),
+    quoteMint: state.quoteMint.toBase58(),
+    baseDecimals: state.baseDecimal.toNumber(),
+    quoteDecimals: state.quoteDecimal.toNumber(),
+    baseReserve: baseVaultAmount - BigInt(state.baseNeedTakePnl.toString()),
+    quoteReserve: quoteVaultAmount - BigInt(state.quoteNeedTakePnl.toString()),
+    swapFeeNumerator: BigInt(state.swapFeeNumerator.toString()),
+    swapFeeDenominator: BigInt(state.swapFeeDenominator.toString()),
+    slot,
+  };
+}
+
+function getReserves(pool: AmmPoolSnapshot, inputMint: string) {
+  if (inputMint === pool.baseMint) return [pool.baseReserve, pool.quoteReserve];
+  if (inputMint === pool.quoteMint) return [pool.quoteReserve, pool.baseReserve];
+  throw new Error(`${inputMint} is not a mint of the pool ${pool.poolId}`);
+}
+
+// amount out at the spot price compared with the amount out of the swap
+function getPriceImpact(
+  amountIn: bigint,
+  amountOut: bigint,
+  reserveIn: bigint,
+  reserveOut: bigint
+) {
+  if (amountIn === 0n) return 0;
+  const spotOut = (Number(amountIn) * Number(reserveOut)) / Number(reserveIn);
+  return ((spotOut - Number(amountOut)) / spotOut) * 100;
+}
+
+/**
+ * Computes a swap of an exact amount in, as the SwapBaseIn instruction of the program does.
+ * The swap fee is taken from the amount in, rounded up, the rest goes through the constant product rounded down.
+ * @param {AmmPoolSnapshot} pool - The pool to swap against.
+ * @param {string} inputMint - The mint sold, the base or quote mint of the pool.
+ * @param {bigint} amountIn - The raw amount sold.
+ * @param {number} slippageBps - The slippage applied to the minimum amount out.
+ * @returns {AmmAmountOut} The raw amounts of the swap and its price impact.
+ */
+export function computeAmmAmountOut(
+  pool: AmmPoolSnapshot,
+  inputMint: string,
+  amountIn: bigint,
+  slippageBps: number = 0
+): AmmAmountOut {
+  const [reserveIn, reserveOut] = getReserves(pool, inputMint);
+  const fee = ceilDiv(amountIn * pool.swapFeeNumerator, pool.swapFeeDenominator);
+  const amountInAfterFee = amountIn - fee;
+  const amountOut = (reserveOut * amountInAfterFee) / (reserveIn + amountInAfterFee);
+  return {
+    amountIn,
+    amountOut,
+    minAmountOut: (amountOut * BigInt(10000 - slippageBps)) / 10000n,
+    fee,
+    priceImpact: getPriceImpact(amountInAfterFee, amountOut, reserveIn, reserveOut),
+  };
+}
+
+/**
+ * Computes a swap for an exact amount out, as the SwapBaseOut instruction of the program does.
+ * The amount in before fee is rounded up, then grossed up by the swap fee rounded up.
+ * @param {AmmPoolSnapshot} pool - The pool to swap against.
+ * @param {string} outputMint - The mint bought, the base or quote mint of the pool.
+ * @param {bigint} amountOut - The raw amount bought.
+ * @param {number} slippageBps - The slippage applied to the maximum amount in.
+ * @returns {AmmAmountIn} The raw amounts of the swap and its price impact.
+ * @throws {RangeError} If the amount out is not below the reserve of the pool.
+ */
+export function computeAmmAmountIn(
+  pool: AmmPoolSnapshot,
+  outputMint: string,
+  amountOut: bigint,
+  slippageBps: number = 0
+): AmmAmountIn {
+  const [reserveOut, reserveIn] = getReserves(pool, outputMint);
+  if (amountOut >= reserveOut) {
+    throw new RangeError(`Amount out ${amountOut} exceeds the reserve ${reserveOut}`);
+  }
+  const amountInBeforeFee = ceilDiv(reserveIn * amountOut, reserveOut - amountOut);
+  const amountIn = ceilDiv(
+    amountInBeforeFee * pool.swapFeeDenominator,
+    pool.swapFeeDenominator - pool.swapFeeNumerator
+  );
+  return {
+    amountIn,
+    maxAmountIn: ceilDiv(amountIn * BigInt(10000 + slippageBps), 10000n),
+    amountOut,
+    fee: amountIn - amountInBeforeFee,
+    priceImpact: getPriceImpact(amountInBeforeFee, amountOut, reserveIn, reserveOut),
+  };
+}
+
+/**
+ * Gets the spot price of one mint of the pool in the other, decimals applied.
+ * @param {AmmPoolSnapshot} pool - The pool.
+ * @param {string} mint - The mint to price, the base or quote mint of the pool.
+ * @returns {number} The price of one token in the other mint of the pool.
+ */
+export function getAmmPrice(pool: AmmPoolSnapshot, mint: string) {
+  const base = Number(pool.baseReserve) / 10 ** pool.baseDecimals;
+  const quote = Number(pool.quoteReserve) / 10 ** pool.quoteDecimals;
+  if (mint === pool.baseMint) return quote / base;
+  if (mint === pool.quoteMint) return base / quote;
+  throw new Error(`${mint} is not a mint of the pool ${pool.poolId}`);
+}
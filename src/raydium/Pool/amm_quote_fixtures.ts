@@ -0,0 +1,166 @@
+import {
+  AmmPoolSnapshot,
+  computeAmmAmountIn,
+  computeAmmAmountOut,
+} from "./amm_quote";
+
+/**
+ * Fixture snapshots of AMM v4 pools and the swaps the program computes against them.
+ * The expected amounts follow the integer arithmetic of SwapBaseIn and SwapBaseOut,
+ * fee of 25/10000 rounded up, constant product rounded down, ceil division rounding to the nearest below one.
+ * Run with: npm test, or npm run test:quote
+ */
+const wsol = "So11111111111111111111111111111111111111112";
+const usdc = "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v";
+const meme = "meme";
+
+const solUsdcPool: AmmPoolSnapshot = {
+  poolId: "sol-usdc",
+  baseMint: wsol,
+  quoteMint: usdc,
+  baseDecimals: 9,
+  quoteDecimals: 6,
+  baseReserve: 41_325_118_902_311n,
+  quoteReserve: 6_104_773_229_118n,
+  swapFeeNumerator: 25n,
+  swapFeeDenominator: 10000n,
+  slot: 0,
+};
+
+const memeSolPool: AmmPoolSnapshot = {
+  poolId: "meme-sol",
+  baseMint: meme,
+  quoteMint: wsol,
+  baseDecimals: 6,
+  quoteDecimals: 9,
+  baseReserve: 183_442_907_118_266n,
+  quoteReserve: 92_716_504_331n,
+  swapFeeNumerator: 25n,
+  swapFeeDenominator: 10000n,
+  slot: 0,
+};
+
+interface AmountOutFixture {
+  name: string;
+  pool: AmmPoolSnapshot;
+  inputMint: string;
+  amountIn: bigint;
+  slippageBps: number;
+  expected: { fee: bigint; amountOut: bigint; minAmountOut: bigint };
+}
+
+interface AmountInFixture {
+  name: string;
+  pool: AmmPoolSnapshot;
+  outputMint: string;
+  amountOut: bigint;
+  slippageBps: number;
+  expected: { fee: bigint; amountIn: bigint; maxAmountIn: bigint };
+}
+
+const amountOutFixtures: AmountOutFixture[] = [
+  {
+    name: "1 SOL for USDC, base in",
+    pool: solUsdcPool,
+    inputMint: wsol,
+    amountIn: 1_000_000_000n,
+    slippageBps: 50,
+    expected: { fee: 2_500_000n, amountOut: 147_352_614n, minAmountOut: 146_615_850n },
+  },
+  {
+    name: "150 USDC for SOL, quote in",
+    pool: solUsdcPool,
+    inputMint: usdc,
+    amountIn: 150_000_000n,
+    slippageBps: 100,
+    expected: { fee: 375_000n, amountOut: 1_012_833_587n, minAmountOut: 1_002_705_251n },
+  },
+  {
+    name: "0.5 SOL for a memecoin",
+    pool: memeSolPool,
+    inputMint: wsol,
+    amountIn: 500_000_000n,
+    slippageBps: 300,
+    expected: { fee: 1_250_000n, amountOut: 981_514_780_835n, minAmountOut: 952_069_337_409n },
+  },
+  {
+    name: "dust of 3 lamports pays no fee",
+    pool: memeSolPool,
+    inputMint: wsol,
+    amountIn: 3n,
+    slippageBps: 0,
+    expected: { fee: 0n, amountOut: 5_935n, minAmountOut: 5_935n },
+  },
+  {
+    name: "300 lamports round the fee up to 1",
+    pool: memeSolPool,
+    inputMint: wsol,
+    amountIn: 300n,
+    slippageBps: 0,
+    expected: { fee: 1n, amountOut: 591_582n, minAmountOut: 591_582n },
+  },
+];
+
+const amountInFixtures: AmountInFixture[] = [
+  {
+    name: "exactly 250 USDC for SOL",
+    pool: solUsdcPool,
+    outputMint: usdc,
+    amountOut: 250_000_000n,
+    slippageBps: 50,
+    expected: { fee: 4_241_598n, amountIn: 1_696_639_078n, maxAmountIn: 1_705_122_274n },
+  },
+  {
+    name: "memecoin for exactly 10 SOL",
+    pool: memeSolPool,
+    outputMint: wsol,
+    amountOut: 10_000_000_000n,
+    slippageBps: 300,
+    expected: { fee: 55_582_215_806n, amountIn: 22_232_886_322_397n, maxAmountIn: 22_899_872_912_069n },
+  },
+];
+
+/**
+ * Compares the fields of a computed swap with the expected ones.
+ * @param {string} name - The name of the fixture.
+ * @param {any} actual - The computed swap.
+ * @param {Record<string, bigint>} expected - The expected raw amounts.
+ * @returns {boolean} Whether every field matches.
+ */
+function check(name: string, actual: any, expected: Record<string, bigint>) {
+  const mismatches = Object.keys(expected).filter(
+    (key) => actual[key] !== expected[key]
+  );
+  if (mismatches.length === 0) {
+    console.log(`✅ ${name}`);
+    return true;
+  }
+  console.log(`❌ ${name}`);
+  for (const key of mismatches) {
+    console.log(`   ${key}: expected ${expected[key]}, got ${actual[key]}`);
+  }
+  return false;
+}
+
+function main() {
+  let passed = true;
+  for (const f of amountOutFixtures) {
+    const res = computeAmmAmountOut(f.pool, f.inputMint, f.amountIn, f.slippageBps);
+    passed = check(`computeAmmAmountOut: ${f.name}`, res, f.expected) && passed;
+  }
+  for (const f of amountInFixtures) {
+    const res = computeAmmAmountIn(f.pool, f.outputMint, f.amountOut, f.slippageBps);
+    passed = check(`computeAmmAmountIn: ${f.name}`, res, f.expected) && passed;
+  }
+  let threw = false;
+  try {
+    computeAmmAmountIn(solUsdcPool, usdc, solUsdcPool.quoteReserve);
+  } catch (e) {
+    threw = e instanceof RangeError;
+  }
+  console.log(`${threw ? "✅" : "❌"} computeAmmAmountIn: the whole reserve throws a RangeError`);
+  // fails npm test
+  if (!passed || !threw) process.exitCode = 1;
+}
+
+main();
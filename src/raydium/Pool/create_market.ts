@@ -0,0 +1,124 @@
+import { MAINNET_PROGRAM_ID, MarketV2 } from "@raydium-io/raydium-sdk";
+import { PublicKey } from "@solana/web3.js";
+import { connection, makeTxVersion, wallet } from "../../helpers/config";
+import { buildAndSendTx, checkTx, getDecimals } from "../../helpers/util";
+import { wsol } from "../constants";
+
+/**
+ * Number of entries of the queues and order book sides of a market.
+ * Smaller queues make a cheaper market that fills up sooner under heavy order book trading,
+ * which an AMM v4 pool does not need.
+ */
+export interface MarketQueueLengths {
+  eventQueueLength: number;
+  requestQueueLength: number;
+  orderbookLength: number; // of the bids and of the asks
+}
+
+export type MarketSize = "small" | "medium" | "large";
+
+// the usual launch configurations, about 0.4, 1.5 and 2.8 SOL of rent
+export const MARKET_SIZES: { [size in MarketSize]: MarketQueueLengths } = {
+  small: { eventQueueLength: 128, requestQueueLength: 63, orderbookLength: 201 },
+  medium: { eventQueueLength: 1400, requestQueueLength: 63, orderbookLength: 450 },
+  large: { eventQueueLength: 2978, requestQueueLength: 63, orderbookLength: 909 },
+};
+
+// OpenBook account layout: 5 bytes of "serum" and 7 of padding around every account
+const ACCOUNT_PADDING = 12;
+const EVENT_QUEUE_HEADER_SIZE = 32;
+const EVENT_SIZE = 88;
+const REQUEST_QUEUE_HEADER_SIZE = 32;
+const REQUEST_SIZE = 80;
+const ORDERBOOK_HEADER_SIZE = 40;
+const ORDERBOOK_NODE_SIZE = 72;
+
+/**
+ * Computes the size in bytes of the queue and order book accounts of a market.
+ * @param {MarketQueueLengths} lengths - The number of entries of each account.
+ * @returns {Object} The sizes of the event queue, the request queue and each order book side.
+ */
+export function getMarketAccountSizes(lengths: MarketQueueLengths) {
+  return {
+    eventQueue:
+      ACCOUNT_PADDING + EVENT_QUEUE_HEADER_SIZE + lengths.eventQueueLength * EVENT_SIZE,
+    requestQueue:
+      ACCOUNT_PADDING + REQUEST_QUEUE_HEADER_SIZE + lengths.requestQueueLength * REQUEST_SIZE,
+    orderbook:
+      ACCOUNT_PADDING + ORDERBOOK_HEADER_SIZE + lengths.orderbookLength * ORDERBOOK_NODE_SIZE,
+  };
+}
+
+/**
+ * Estimates the rent of the queue and order book accounts of a market.
+ * The market and vault accounts add a few thousandths of SOL on top.
+ * @param {MarketQueueLengths} lengths - The number of entries of each account.
+ * @returns {Promise<number>} The rent in SOL.
+ */
+export async function estimateMarketRent(lengths: MarketQueueLengths) {
+  const sizes = getMarketAccountSizes(lengths);
+  const lamports = await Promise.all([
+    connection.getMinimumBalanceForRentExemption(sizes.eventQueue),
+    connection.getMinimumBalanceForRentExemption(sizes.requestQueue),
+    connection.getMinimumBalanceForRentExemption(sizes.orderbook),
+  ]);
+  return (lamports[0] + lamports[1] + 2 * lamports[2]) / 1e9;
+}
+
+/**
+ * Creates an OpenBook market, the one a Raydium AMM v4 pool of the pair is created on.
+ * The market, its vaults, event queue, request queue, bids and asks are created over two
+ * transactions, sent one after the other.
+ * @param {string} baseMint - The base token of the market.
+ * @param {string} quoteMint - The quote token of the market, WSOL by default.
+ * @param {number} lotSize - The minimum order size, in base token UI units.
+ * @param {number} tickSize - The minimum price step, in quote token UI units.
+ * @param {MarketSize | MarketQueueLengths} size - A preset of MARKET_SIZES or the queue lengths.
+ * @returns {Promise<Object | null>} - The market id, the market accounts and the transaction ids, null if a transaction failed.
+ */
+export async function createMarket(
+  baseMint: string,
+  quoteMint: string = wsol,
+  lotSize: number = 1,
+  tickSize: number = 0.000001,
+  size: MarketSize | MarketQueueLengths = "small"
+) {
+  const lengths = typeof size === "string" ? MARKET_SIZES[size] : size;
+  const sizes = getMarketAccountSizes(lengths);
+  console.log(`Queue and order book rent: ${await estimateMarketRent(lengths)} SOL`);
+
+  const { address, innerTransactions } = await MarketV2.makeCreateMarketInstructionSimple({
+    connection,
+    wallet: wallet.publicKey,
+    baseInfo: {
+      mint: new PublicKey(baseMint),
+      decimals: await getDecimals(new PublicKey(baseMint)),
+    },
+    quoteInfo: {
+      mint: new PublicKey(quoteMint),
+      decimals: await getDecimals(new PublicKey(quoteMint)),
+    },
+    lotSize,
+    tickSize,
+    dexProgramId: MAINNET_PROGRAM_ID.OPENBOOK_MARKET,
+    eventQueueSpacce: sizes.eventQueue,
+    requestQueueSpacce: sizes.requestQueue,
+    orderbookQueueSpacce: sizes.orderbook,
+    makeTxVersion,
+  });
+  const marketId = address.marketId.toBase58();
+  console.log("Creating market", marketId);
+
+  // the market transaction initializes the vaults of the first one, so it waits for it
+  const txids: string[] = [];
+  for (const innerTransaction of innerTransactions) {
+    const res: any = await buildAndSendTx([innerTransaction], null);
+    if (!res || !(await checkTx(res[0]))) {
+      console.log("Transaction failed, the market was not created");
+      return null;
+    }
+    console.log(`https://explorer.solana.com/tx/${res[0]}?cluster=mainnet`);
+    txids.push(res[0]);
+  }
+  return { marketId, address, txids };
+}
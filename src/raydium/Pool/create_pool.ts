@@ -1 +1,115 @@
+import {
+  Liquidity,
+  MAINNET_PROGRAM_ID,
+  MARKET_STATE_LAYOUT_V3,
+} from "@raydium-io/raydium-sdk";
+import { PublicKey } from "@solana/web3.js";
+import { BN } from "@project-serum/anchor";
+import { Decimal } from "decimal.js";
+import { connection, makeTxVersion, wallet } from "../../helpers/config";
+import {
+  buildAndSendTx,
+  checkTx,
+  getDecimals,
+  getWalletTokenAccount,
+} from "../../helpers/util";
+import { savePoolEntry } from "../../helpers/pool_registry";
+import { amm_create_fee_destination } from "../constants";
+import { recordLpDeposit } from "./lp_manager";
+import { createMarket, MarketQueueLengths, MarketSize } from "./create_market";
 
+/**
+ * Creates a Raydium AMM v4 pool on an OpenBook market and deposits its initial liquidity.
+ * The base and quote mints of the pool are the ones of the market.
+ * @param {string} marketId - The OpenBook market of the pool.
+ * @param {number} baseAmount - The initial amount of base token, in UI units.
+ * @param {number} quoteAmount - The initial amount of quote token, in UI units, it sets the opening price.
+ * @param {number} startTime - The unix time in seconds the pool opens for swaps, now by default.
+ * @returns {Promise<Object | null>} - The pool id, its LP mint and the transaction ids, null if the pool was not created.
+ */
+export async function createAmmPool(
+  marketId: string,
+  baseAmount: number,
+  quoteAmount: number,
+  startTime: number = Math.floor(Date.now() / 1000)
+) {
+  const marketAccount = await connection.getAccountInfo(new PublicKey(marketId));
+  if (marketAccount === null) throw new Error(`Market ${marketId} not found`);
+  const market = MARKET_STATE_LAYOUT_V3.decode(marketAccount.data);
+  const baseDecimals = await getDecimals(market.baseMint);
+  const quoteDecimals = await getDecimals(market.quoteMint);
+
+  const { address, innerTransactions } =
+    await Liquidity.makeCreatePoolV4InstructionV2Simple({
+      connection,
+      programId: MAINNET_PROGRAM_ID.AmmV4,
+      marketInfo: {
+        marketId: new PublicKey(marketId),
+        programId: marketAccount.owner,
+      },
+      baseMintInfo: { mint: market.baseMint, decimals: baseDecimals },
+      quoteMintInfo: { mint: market.quoteMint, decimals: quoteDecimals },
+      baseAmount: new BN(new Decimal(baseAmount).mul(10 ** baseDecimals).toFixed(0)),
+      quoteAmount: new BN(new Decimal(quoteAmount).mul(10 ** quoteDecimals).toFixed(0)),
+      startTime: new BN(startTime),
+      ownerInfo: {
+        feePayer: wallet.publicKey,
+        wallet: wallet.publicKey,
+        tokenAccounts: await getWalletTokenAccount(connection, wallet.publicKey),
+        useSOLBalance: true, // SOL is wrapped by the transaction when the market quotes WSOL
+      },
+      associatedOnly: false,
+      checkCreateATAOwner: true,
+      makeTxVersion,
+      feeDestinationId: new PublicKey(amm_create_fee_destination),
+    });
+  const poolId = address.ammId.toBase58();
+  console.log("Creating pool", poolId);
+
+  const txids: any = await buildAndSendTx(innerTransactions, null);
+  if (!txids || !(await checkTx(txids[0]))) {
+    console.log("Transaction failed, the pool was not created");
+    return null;
+  }
+  console.log(`https://explorer.solana.com/tx/${txids[0]}?cluster=mainnet`);
+  await savePoolEntry(
+    market.baseMint.toBase58(),
+    "raydium-amm",
+    { poolId, type: "amm" },
+    market.quoteMint.toBase58()
+  );
+  return {
+    poolId,
+    lpMint: address.lpMint.toBase58(),
+    txids,
+    deposit: await recordLpDeposit(poolId, wallet.publicKey, 0n),
+  };
+}
+
+/**
+ * Creates the OpenBook market of a pair, then the AMM v4 pool on it.
+ * @param {string} baseMint - The base token of the pool.
+ * @param {number} baseAmount - The initial amount of base token, in UI units.
+ * @param {number} quoteAmount - The initial amount of quote token, in UI units.
+ * @param {string} quoteMint - The quote token of the pool, WSOL by default.
+ * @param {MarketSize | MarketQueueLengths} marketSize - The queue sizes of the market, see createMarket.
+ * @param {number} startTime - The unix time in seconds the pool opens for swaps, now by default.
+ * @returns {Promise<Object | null>} - The market id and the pool, null if the market or the pool was not created.
+ */
+export async function createMarketAndPool(
+  baseMint: string,
+  baseAmount: number,
+  quoteAmount: number,
+  quoteMint?: string,
+  marketSize: MarketSize | MarketQueueLengths = "small",
+  startTime?: number
+) {
+  const market = await createMarket(baseMint, quoteMint, undefined, undefined, marketSize);
+  if (!market) return null;
+  const pool = await createAmmPool(market.marketId, baseAmount, quoteAmount, startTime);
+  if (!pool) {
+    console.log(`Market ${market.marketId} was created, retry the pool with lp create --market`);
+    return null;
+  }
+  return { marketId: market.marketId, ...pool };
+}
@@ -1,59 +1,198 @@
+import { PublicKey } from "@solana/web3.js";
+import {
+  AMM_V4,
+  CLMM_PROGRAM_ID,
+  CREATE_CPMM_POOL_PROGRAM,
+} from "@raydium-io/raydium-sdk-v2";
 import { initSdk } from "../raydium_config";
 import { wsol } from "../constants";
+import { connection } from "../../helpers/config";
+import { resolvePoolEntry } from "../../helpers/pool_registry";
 import {getInfoFromDexscreener} from "../../dexscreener";
 let sdkCache = { sdk: null, expiry: 0 };
-export async function fetchAMMPoolId(tokenAddress:string) {
-  try{
-  const info = await getInfoFromDexscreener(tokenAddress);
-  const poolId = info.poolId;
-  console.log(`AMM Pool ID: ${poolId}`);
-  if(poolId !== "") return poolId;
-  }catch(e){
-    console.log("Error getting AMM pool ID using dexscreener api: ", e);
-    console.log("Trying to get AMM pool ID using raydium api");
-  }
-  let raydium:any = null;
-  if (sdkCache.sdk) {
-    raydium = sdkCache.sdk;
-  } else {
-    raydium = await initSdk();
-    sdkCache.sdk = raydium;
-  }
-  const data = await raydium.api.fetchPoolByMints({
-    mint1: wsol,
-    mint2: tokenAddress,
-  });
-  const listOfPools = data.data;
-  for (const obj of listOfPools) {
-    if (obj.type === "Standard") {
-      // return the first AMM pool ID
-      console.log(`AMM Pool ID: ${obj.id}`);
-      return obj.id;
-    }
-  }
-  console.log("No AMM pool ID found for the given token address");
-  return ""; // return empty string if no AMM pool ID is found
+
+/**
+ * The Raydium pool programs the swap path supports:
+ * "amm" for AMM v4, "clmm" for concentrated liquidity and "cpmm" for CP-Swap.
+ */
+export type RaydiumPoolType = "amm" | "clmm" | "cpmm";
+
+export interface RaydiumPool {
+  id: string;
+  type: RaydiumPoolType;
+  tvl: number | null; // null when the pool was not found through the Raydium api
 }
 
-export async function fetchAMMPoolIdByMintPair(mint1:string, mint2:string) {
-  let raydium:any = null;
-  if (sdkCache.sdk) {
-    raydium = sdkCache.sdk;
-  } else {
-    raydium = await initSdk();
-    sdkCache.sdk = raydium;
-  }
+const POOL_PROGRAM_TYPES: { [programId: string]: RaydiumPoolType } = {
+  [AMM_V4.toBase58()]: "amm",
+  [CLMM_PROGRAM_ID.toBase58()]: "clmm",
+  [CREATE_CPMM_POOL_PROGRAM.toBase58()]: "cpmm",
+};
+
+async function getSdk() {
+  if (!sdkCache.sdk) sdkCache.sdk = (await initSdk()) as any;
+  return sdkCache.sdk as any;
+}
+
+/**
+ * Detects the type of a Raydium pool from the program owning its account.
+ * @param {string} poolId - The pool id.
+ * @returns {Promise<RaydiumPoolType | null>} The pool type, null if the account is not a supported Raydium pool.
+ */
+export async function detectPoolType(poolId: string) {
+  const account = await connection.getAccountInfo(new PublicKey(poolId));
+  if (!account) return null;
+  return POOL_PROGRAM_TYPES[account.owner.toBase58()] || null;
+}
+
+/**
+ * Fetches the pools of a mint pair listed by the Raydium api, deepest first.
+ * @param {string} mint1 - One mint of the pair.
+ * @param {string} mint2 - The other mint of the pair.
+ * @param {RaydiumPoolType[]} types - The pool types to keep.
+ * @returns {Promise<RaydiumPool[]>} The pools sorted by TVL.
+ */
+async function fetchPoolsByMintPair(
+  mint1: string,
+  mint2: string,
+  types: RaydiumPoolType[]
+): Promise<RaydiumPool[]> {
+  const raydium = await getSdk();
   const data = await raydium.api.fetchPoolByMints({
     mint1: mint1,
     mint2: mint2,
+    sort: "liquidity",
+    order: "desc",
   });
-  const listOfPools = data.data;
-  for (const obj of listOfPools) {
-    if (obj.type === "Standard") {
-      // return the first AMM pool ID
-      console.log(`AMM Pool ID: ${obj.id}`);
-      return obj.id;
+  // CP-Swap pools are "Standard" too, the program tells them apart from AMM v4
+  return (data.data || data)
+    .map((obj: any) => ({
+      id: obj.id,
+      type: POOL_PROGRAM_TYPES[obj.programId],
+      tvl: obj.tvl || 0,
+    }))
+    .filter((pool: RaydiumPool) => types.includes(pool.type))
+    .sort((a: RaydiumPool, b: RaydiumPool) => (b.tvl || 0) - (a.tvl || 0));
+}
+
+/**
+ * Fetches the deepest Raydium pool of a token, whatever its type.
+ * AMM v4, CLMM and CP-Swap pools are compared on their TVL in the Raydium api.
+ * Pools paired with SOL fall back to the pool found on dexscreener, typed from its account.
+ * @param {string} tokenAddress - The address of the token.
+ * @param {string} quoteMint - The mint the token is paired with, WSOL by default.
+ * @returns {Promise<RaydiumPool | null>} The pool id, type and TVL, null if the token has no supported pool.
+ */
+export async function fetchRaydiumPool(
+  tokenAddress: string,
+  quoteMint: string = wsol
+): Promise<RaydiumPool | null> {
+  try {
+    const pools = await fetchPoolsByMintPair(quoteMint, tokenAddress, [
+      "amm",
+      "clmm",
+      "cpmm",
+    ]);
+    if (pools.length > 0) {
+      console.log(`Raydium ${pools[0].type} pool: ${pools[0].id} (TVL ${pools[0].tvl})`);
+      return pools[0];
     }
+  } catch (e) {
+    console.log("Error getting the pool using raydium api: ", e);
+  }
+  if (quoteMint !== wsol) return null;
+  try {
+    const { poolId } = await getInfoFromDexscreener(tokenAddress);
+    const type = poolId ? await detectPoolType(poolId) : null;
+    if (type) {
+      console.log(`Raydium ${type} pool: ${poolId}`);
+      return { id: poolId, type, tvl: null };
+    }
+  } catch (e) {
+    console.log("Error getting the pool using dexscreener api: ", e);
+  }
+  console.log("No Raydium pool found for the given token");
+  return null;
+}
+/**
+ * Finds the deepest Raydium pool of a token, AMM v4, CLMM or CP-Swap, the pool the swaps and prices use.
+ * The pool is kept in the pool registry under the "raydium" venue, a pinned pool is always used.
+ * @param {string} tokenAddress - The address of the token.
+ * @param {string} quoteMint - The mint the token is paired with, WSOL by default.
+ * @returns {Promise<RaydiumPool | null>} The pool id and type, null if the token has no supported pool.
+ */
+export async function resolveRaydiumPool(
+  tokenAddress: string,
+  quoteMint: string = wsol
+): Promise<RaydiumPool | null> {
+  console.log("Fetching pool id...");
+  const entry = await resolvePoolEntry(
+    tokenAddress,
+    "raydium",
+    quoteMint,
+    async () => {
+      const pool = await fetchRaydiumPool(tokenAddress, quoteMint);
+      return pool && { poolId: pool.id, type: pool.type };
+    }
+  );
+  console.log("Pool id fetched.");
+  if (!entry) return null;
+  // a pinned pool may have been registered without its type
+  const type = entry.type || (await detectPoolType(entry.poolId));
+  if (!type) return null;
+  return { id: entry.poolId, type: type as RaydiumPoolType, tvl: null };
+}
+
+/**
+ * Fetches the id of the Raydium AMM v4 pool of a token.
+ * Pools paired with SOL are looked up on dexscreener first, other quote tokens only through the Raydium api.
+ * The id is kept in the pool registry under the "raydium-amm" venue.
+ * @param {string} tokenAddress - The address of the token.
+ * @param {string} quoteMint - The mint the token is paired with, WSOL by default.
+ * @returns {Promise<string>} The pool id, an empty string if the token has no AMM pool.
+ */
+export async function fetchAMMPoolId(tokenAddress:string, quoteMint:string = wsol) {
+  const entry = await resolvePoolEntry(
+    tokenAddress,
+    "raydium-amm",
+    quoteMint,
+    async () => ({
+      poolId: await lookupAMMPoolId(tokenAddress, quoteMint),
+      type: "amm",
+    })
+  );
+  return entry ? entry.poolId : "";
+}
+
+async function lookupAMMPoolId(tokenAddress:string, quoteMint:string) {
+  if (quoteMint === wsol) {
+    try{
+    const info = await getInfoFromDexscreener(tokenAddress);
+    const poolId = info.poolId;
+    // dexscreener also lists CLMM and CP-Swap pools
+    if(poolId !== "" && (await detectPoolType(poolId)) === "amm") {
+      console.log(`AMM Pool ID: ${poolId}`);
+      return poolId;
+    }
+    }catch(e){
+      console.log("Error getting AMM pool ID using dexscreener api: ", e);
+      console.log("Trying to get AMM pool ID using raydium api");
+    }
+  }
+  return await fetchAMMPoolIdByMintPair(quoteMint, tokenAddress);
+}
+
+/**
+ * Fetches the id of the deepest Raydium AMM pool of a mint pair.
+ * @param {string} mint1 - One mint of the pair.
+ * @param {string} mint2 - The other mint of the pair.
+ * @returns {Promise<string>} The id of the pool with the highest TVL, an empty string if the pair has no AMM pool.
+ */
+export async function fetchAMMPoolIdByMintPair(mint1:string, mint2:string) {
+  const listOfPools = await fetchPoolsByMintPair(mint1, mint2, ["amm"]);
+  if (listOfPools.length > 0) {
+    console.log(`AMM Pool ID: ${listOfPools[0].id} (TVL ${listOfPools[0].tvl})`);
+    return listOfPools[0].id;
   }
   console.log("No AMM pool ID found for the given mint pair");
   return ""; // return empty string if no AMM pool ID is found
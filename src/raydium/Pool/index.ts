@@ -1,4 +1,11 @@
 export * from "./add_pool";
 export * from "./remove_pool";
 export * from "./formatAmmKeysById";
-export * from "./swap";
\ No newline at end of file
+export * from "./swap";
+export * from "./swap_v2";
+export * from "./fetch_pool";
+export * from "./amm_quote";
+export * from "./reserve_cache";
+export * from "./create_market";
+export * from "./create_pool";
+export * from "./lp_manager";
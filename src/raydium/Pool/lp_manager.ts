@@ -0,0 +1,410 @@
+import fs from "fs";
+import {
+  LIQUIDITY_STATE_LAYOUT_V4,
+  Liquidity,
+  Token,
+  TokenAmount,
+  TOKEN_PROGRAM_ID,
+} from "@raydium-io/raydium-sdk";
+import { PublicKey } from "@solana/web3.js";
+import {
+  AccountLayout,
+  MintLayout,
+  getAssociatedTokenAddressSync,
+} from "@solana/spl-token";
+import { BN } from "@project-serum/anchor";
+import { Decimal } from "decimal.js";
+import {
+  connection,
+  lp_positions_path,
+  makeTxVersion,
+  wallet,
+} from "../../helpers/config";
+import {
+  buildAndSendTx,
+  checkTx,
+  getWalletTokenAccount,
+} from "../../helpers/util";
+import { formatAmmKeysById_swap } from "./formatAmmKeysById";
+import { AmmPoolSnapshot, toAmmSnapshot } from "./amm_quote";
+
+const DEFAULT_SLIPPAGE_BPS = 100; // on the amount of the side that is not fixed
+
+/**
+ * An LP position in a Raydium AMM v4 pool, amounts in UI units.
+ * The fees and impermanent loss are measured from the deposits made through the LP manager,
+ * they are null for positions it has no deposit of.
+ */
+export interface LpPosition {
+  poolId: string;
+  owner: string;
+  lpMint: string;
+  baseMint: string;
+  quoteMint: string;
+  lpAmount: number;
+  share: number; // percent of the LP supply
+  baseAmount: number; // underlying amounts the LP tokens withdraw
+  quoteAmount: number;
+  price: number; // of the base token in the quote token
+  value: number; // in the quote token
+  feesBase: number | null; // accrued fees, part of the underlying amounts
+  feesQuote: number | null;
+  feesValue: number | null;
+  holdValue: number | null; // value of the deposited tokens had they been held
+  impermanentLoss: number | null; // percent, value without fees against holding, negative when losing
+}
+
+/**
+ * Deposits of an LP position, kept in LP_POSITIONS_PATH.
+ * The pool invariant per LP token grows with the swap fees, the one at the
+ * deposits tells how much of the position is fees.
+ */
+interface LpDeposit {
+  lpAmount: string; // raw LP tokens the deposits minted, less the withdrawn ones
+  baseDeposited: number;
+  quoteDeposited: number;
+  entryInvariant: number; // sqrt(base reserve * quote reserve) / LP supply, averaged over the LP tokens
+  updatedAt: string;
+}
+
+interface LpPool {
+  pool: AmmPoolSnapshot;
+  lpMint: PublicKey;
+  lpDecimals: number;
+  lpSupply: bigint;
+}
+
+function readDeposits(): { [owner: string]: { [poolId: string]: LpDeposit } } {
+  if (!fs.existsSync(lp_positions_path)) return {};
+  return JSON.parse(fs.readFileSync(lp_positions_path, "utf8"));
+}
+
+function writeDeposits(deposits: { [owner: string]: { [poolId: string]: LpDeposit } }) {
+  const tmp = `${lp_positions_path}.${process.pid}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify(deposits, null, 2));
+  fs.renameSync(tmp, lp_positions_path);
+}
+
+/**
+ * Fetches the reserves and LP supply of a pool.
+ * The LP supply is the one of the pool state, which the program mints and burns against.
+ */
+async function fetchLpPool(poolId: string): Promise<LpPool> {
+  const account = await connection.getAccountInfo(new PublicKey(poolId));
+  if (account === null) throw new Error(`Pool ${poolId} not found`);
+  const state = LIQUIDITY_STATE_LAYOUT_V4.decode(account.data);
+  const [baseVault, quoteVault, lpMint] = await connection.getMultipleAccountsInfo([
+    state.baseVault,
+    state.quoteVault,
+    state.lpMint,
+  ]);
+  if (!baseVault || !quoteVault || !lpMint) {
+    throw new Error(`Vaults or LP mint of the pool ${poolId} not found`);
+  }
+  return {
+    pool: toAmmSnapshot(
+      poolId,
+      state,
+      AccountLayout.decode(baseVault.data).amount,
+      AccountLayout.decode(quoteVault.data).amount
+    ),
+    lpMint: state.lpMint,
+    lpDecimals: MintLayout.decode(lpMint.data).decimals,
+    lpSupply: BigInt(state.lpReserve.toString()),
+  };
+}
+
+function getInvariant({ pool, lpSupply }: LpPool) {
+  return Math.sqrt(Number(pool.baseReserve) * Number(pool.quoteReserve)) / Number(lpSupply);
+}
+
+async function getTokenBalance(mint: PublicKey, owner: PublicKey) {
+  try {
+    const { value } = await connection.getTokenAccountBalance(
+      getAssociatedTokenAddressSync(mint, owner)
+    );
+    return BigInt(value.amount);
+  } catch (e) {
+    return 0n; // no token account
+  }
+}
+
+async function getPoolKeys(poolId: string, lpDecimals: number) {
+  const keys: any = await formatAmmKeysById_swap(new PublicKey(poolId));
+  return { ...keys, lpDecimals };
+}
+
+async function sendLpTransactions(innerTransactions: any) {
+  const txids: any = await buildAndSendTx(innerTransactions, null);
+  if (!txids || !(await checkTx(txids[0]))) {
+    console.log("Transaction failed");
+    return null;
+  }
+  console.log(`https://explorer.solana.com/tx/${txids[0]}?cluster=mainnet`);
+  return txids;
+}
+
+/**
+ * Gets the LP token balance of a wallet in a pool.
+ * @param {string} poolId - The AMM v4 pool id.
+ * @param {PublicKey} owner - The wallet, the configured wallet by default.
+ * @returns {Promise<bigint>} The raw LP token balance.
+ */
+export async function getLpBalance(poolId: string, owner: PublicKey = wallet.publicKey) {
+  const { lpMint } = await fetchLpPool(poolId);
+  return await getTokenBalance(lpMint, owner);
+}
+
+/**
+ * Records the LP tokens minted to a wallet since lpBefore as a deposit at the current reserves.
+ * @param {string} poolId - The AMM v4 pool id.
+ * @param {PublicKey} owner - The wallet that deposited.
+ * @param {bigint} lpBefore - The raw LP token balance before the deposit.
+ * @returns {Promise<LpDeposit | null>} The deposits of the position, null if no LP token was minted.
+ */
+export async function recordLpDeposit(poolId: string, owner: PublicKey, lpBefore: bigint) {
+  const lpPool = await fetchLpPool(poolId);
+  const minted = (await getTokenBalance(lpPool.lpMint, owner)) - lpBefore;
+  if (minted <= 0n) return null;
+  const { pool, lpSupply } = lpPool;
+  const part = Number(minted) / Number(lpSupply);
+  const deposits = readDeposits();
+  const positions = (deposits[owner.toBase58()] = deposits[owner.toBase58()] || {});
+  const current = positions[poolId];
+  const currentLp = current ? BigInt(current.lpAmount) : 0n;
+  const lpAmount = currentLp + minted;
+  positions[poolId] = {
+    lpAmount: lpAmount.toString(),
+    baseDeposited:
+      (current?.baseDeposited || 0) +
+      (part * Number(pool.baseReserve)) / 10 ** pool.baseDecimals,
+    quoteDeposited:
+      (current?.quoteDeposited || 0) +
+      (part * Number(pool.quoteReserve)) / 10 ** pool.quoteDecimals,
+    entryInvariant:
+      ((current?.entryInvariant || 0) * Number(currentLp) +
+        getInvariant(lpPool) * Number(minted)) /
+      Number(lpAmount),
+    updatedAt: new Date().toISOString(),
+  };
+  writeDeposits(deposits);
+  return positions[poolId];
+}
+
+/**
+ * Records the LP tokens burned by a wallet since lpBefore, the deposits shrink in proportion.
+ * @param {string} poolId - The AMM v4 pool id.
+ * @param {PublicKey} owner - The wallet that withdrew.
+ * @param {bigint} lpBefore - The raw LP token balance before the withdrawal.
+ */
+async function recordLpWithdrawal(poolId: string, owner: PublicKey, lpBefore: bigint) {
+  const deposits = readDeposits();
+  const current = deposits[owner.toBase58()]?.[poolId];
+  if (!current || lpBefore === 0n) return;
+  const lpAfter = await getLpBalance(poolId, owner);
+  if (lpAfter === 0n) {
+    delete deposits[owner.toBase58()][poolId];
+  } else {
+    const kept = Number(lpAfter) / Number(lpBefore);
+    current.lpAmount = ((BigInt(current.lpAmount) * lpAfter) / lpBefore).toString();
+    current.baseDeposited *= kept;
+    current.quoteDeposited *= kept;
+    current.updatedAt = new Date().toISOString();
+  }
+  writeDeposits(deposits);
+}
+
+/**
+ * Adds liquidity to an AMM v4 pool, the other side is taken at the ratio of the reserves.
+ * @param {string} poolId - The AMM v4 pool id.
+ * @param {number} amount - The amount of the fixed side, in UI units.
+ * @param {string} mint - The mint of the fixed side, the base mint of the pool by default.
+ * @param {number} slippageBps - How much more of the other side the deposit may take.
+ * @returns {Promise<Object | null>} - The transaction ids and the deposits of the position, null if the transaction failed.
+ */
+export async function addLiquidity(
+  poolId: string,
+  amount: number,
+  mint?: string,
+  slippageBps: number = DEFAULT_SLIPPAGE_BPS
+) {
+  const { pool, lpMint, lpDecimals } = await fetchLpPool(poolId);
+  const fixedMint = mint || pool.baseMint;
+  if (fixedMint !== pool.baseMint && fixedMint !== pool.quoteMint) {
+    throw new Error(`${fixedMint} is not a mint of the pool ${poolId}`);
+  }
+  const baseFixed = fixedMint === pool.baseMint;
+  const baseToken = new Token(TOKEN_PROGRAM_ID, pool.baseMint, pool.baseDecimals);
+  const quoteToken = new Token(TOKEN_PROGRAM_ID, pool.quoteMint, pool.quoteDecimals);
+  const [fixedToken, otherToken] = baseFixed
+    ? [baseToken, quoteToken]
+    : [quoteToken, baseToken];
+  const [fixedReserve, otherReserve] = baseFixed
+    ? [pool.baseReserve, pool.quoteReserve]
+    : [pool.quoteReserve, pool.baseReserve];
+  const fixedAmount = BigInt(
+    new Decimal(amount).mul(10 ** fixedToken.decimals).toFixed(0)
+  );
+  const otherAmount = (fixedAmount * otherReserve) / fixedReserve + 1n;
+  const maxOtherAmount = (otherAmount * BigInt(10000 + slippageBps)) / 10000n;
+  console.log(
+    `Adding ${amount} ${fixedMint} and up to ${Number(maxOtherAmount) / 10 ** otherToken.decimals} ${otherToken.mint.toBase58()}`
+  );
+
+  const { innerTransactions } = await Liquidity.makeAddLiquidityInstructionSimple({
+    connection,
+    poolKeys: await getPoolKeys(poolId, lpDecimals),
+    userKeys: {
+      owner: wallet.publicKey,
+      payer: wallet.publicKey,
+      tokenAccounts: await getWalletTokenAccount(connection, wallet.publicKey),
+    },
+    amountInA: new TokenAmount(fixedToken, new BN(fixedAmount.toString())),
+    amountInB: new TokenAmount(otherToken, new BN(maxOtherAmount.toString())),
+    fixedSide: "a",
+    makeTxVersion,
+  });
+  const lpBefore = await getTokenBalance(lpMint, wallet.publicKey);
+  const txids = await sendLpTransactions(innerTransactions);
+  if (!txids) return null;
+  return { txids, deposit: await recordLpDeposit(poolId, wallet.publicKey, lpBefore) };
+}
+
+/**
+ * Removes a part of the liquidity of the wallet from an AMM v4 pool.
+ * @param {string} poolId - The AMM v4 pool id.
+ * @param {number} ratio - The part of the LP tokens to withdraw, 1 withdraws the whole position.
+ * @returns {Promise<Object | null>} - The transaction ids and the raw LP tokens burned, null if there was nothing to remove or the transaction failed.
+ */
+export async function removeLiquidity(poolId: string, ratio: number = 1) {
+  if (!(ratio > 0 && ratio <= 1)) throw new RangeError(`Ratio ${ratio} is not in (0, 1]`);
+  const { lpMint, lpDecimals } = await fetchLpPool(poolId);
+  const lpBalance = await getTokenBalance(lpMint, wallet.publicKey);
+  const lpAmount = (lpBalance * BigInt(Math.round(ratio * 1e6))) / 1000000n;
+  if (lpAmount === 0n) {
+    console.log(`No LP tokens of the pool ${poolId} to remove`);
+    return null;
+  }
+  console.log(`Removing ${Number(lpAmount) / 10 ** lpDecimals} LP tokens`);
+
+  const { innerTransactions } = await Liquidity.makeRemoveLiquidityInstructionSimple({
+    connection,
+    poolKeys: await getPoolKeys(poolId, lpDecimals),
+    userKeys: {
+      owner: wallet.publicKey,
+      payer: wallet.publicKey,
+      tokenAccounts: await getWalletTokenAccount(connection, wallet.publicKey),
+    },
+    amountIn: new TokenAmount(
+      new Token(TOKEN_PROGRAM_ID, lpMint, lpDecimals),
+      new BN(lpAmount.toString())
+    ),
+    makeTxVersion,
+  });
+  const txids = await sendLpTransactions(innerTransactions);
+  if (!txids) return null;
+  await recordLpWithdrawal(poolId, wallet.publicKey, lpBalance);
+  return { txids, lpBurned: lpAmount };
+}
+
+/**
+ * Adds or removes liquidity so the position of the wallet is a target share of the pool.
+ * Adding L LP tokens to a position of P in a supply of S gives a share of (P + L) / (S + L),
+ * so L = (share * S - P) / (1 - share), a negative L is removed.
+ * @param {string} poolId - The AMM v4 pool id.
+ * @param {number} targetShare - The share of the LP supply to hold, 0.01 = 1%.
+ * @param {number} slippageBps - The slippage of an addition, see addLiquidity.
+ * @returns {Promise<Object | null>} - The result of the addition or removal, null if the position already has the share.
+ */
+export async function setLiquidityShare(
+  poolId: string,
+  targetShare: number,
+  slippageBps: number = DEFAULT_SLIPPAGE_BPS
+) {
+  if (!(targetShare >= 0 && targetShare < 1)) {
+    throw new RangeError(`Share ${targetShare} is not in [0, 1)`);
+  }
+  const { pool, lpMint, lpSupply } = await fetchLpPool(poolId);
+  const lpBalance = Number(await getTokenBalance(lpMint, wallet.publicKey));
+  const lpChange = (targetShare * Number(lpSupply) - lpBalance) / (1 - targetShare);
+  if (Math.abs(lpChange) < 1) return null;
+  if (lpChange < 0) return await removeLiquidity(poolId, Math.min(-lpChange / lpBalance, 1));
+  const baseAmount =
+    ((lpChange / Number(lpSupply)) * Number(pool.baseReserve)) / 10 ** pool.baseDecimals;
+  return await addLiquidity(poolId, baseAmount, pool.baseMint, slippageBps);
+}
+
+/**
+ * Gets the LP position of a wallet in an AMM v4 pool.
+ * @param {string} poolId - The AMM v4 pool id.
+ * @param {PublicKey} owner - The wallet, the configured wallet by default.
+ * @returns {Promise<LpPosition | null>} The position, null if the wallet holds no LP token of the pool.
+ */
+export async function getLpPosition(
+  poolId: string,
+  owner: PublicKey = wallet.publicKey
+): Promise<LpPosition | null> {
+  const lpPool = await fetchLpPool(poolId);
+  const { pool, lpMint, lpDecimals, lpSupply } = lpPool;
+  const lpBalance = await getTokenBalance(lpMint, owner);
+  if (lpBalance === 0n) return null;
+  const part = Number(lpBalance) / Number(lpSupply);
+  const baseAmount = (part * Number(pool.baseReserve)) / 10 ** pool.baseDecimals;
+  const quoteAmount = (part * Number(pool.quoteReserve)) / 10 ** pool.quoteDecimals;
+  const price = quoteAmount / baseAmount;
+  const value = 2 * quoteAmount; // both sides are worth the same at the pool price
+
+  const deposit = readDeposits()[owner.toBase58()]?.[poolId];
+  let feeShare = null,
+    holdValue = null;
+  if (deposit) {
+    // LP tokens moved in or out of the wallet count at the average deposit
+    const held = Number(lpBalance) / Number(deposit.lpAmount);
+    // part of the underlying amounts the invariant gained since the deposits
+    feeShare = Math.max(0, 1 - deposit.entryInvariant / getInvariant(lpPool));
+    holdValue = (deposit.baseDeposited * price + deposit.quoteDeposited) * held;
+  }
+  return {
+    poolId,
+    owner: owner.toBase58(),
+    lpMint: lpMint.toBase58(),
+    baseMint: pool.baseMint,
+    quoteMint: pool.quoteMint,
+    lpAmount: Number(lpBalance) / 10 ** lpDecimals,
+    share: part * 100,
+    baseAmount,
+    quoteAmount,
+    price,
+    value,
+    feesBase: feeShare === null ? null : baseAmount * feeShare,
+    feesQuote: feeShare === null ? null : quoteAmount * feeShare,
+    feesValue: feeShare === null ? null : value * feeShare,
+    holdValue,
+    impermanentLoss:
+      feeShare === null || !holdValue
+        ? null
+        : ((value * (1 - feeShare)) / holdValue - 1) * 100,
+  };
+}
+
+/**
+ * Gets the LP positions of a wallet in the pools it deposited into through the LP manager.
+ * @param {PublicKey} owner - The wallet, the configured wallet by default.
+ * @param {string[]} poolIds - Other pools to report the position of.
+ * @returns {Promise<LpPosition[]>} The positions the wallet still holds LP tokens of.
+ */
+export async function getLpPositions(
+  owner: PublicKey = wallet.publicKey,
+  poolIds: string[] = []
+) {
+  const ids = new Set([
+    ...Object.keys(readDeposits()[owner.toBase58()] || {}),
+    ...poolIds,
+  ]);
+  const positions: LpPosition[] = [];
+  for (const poolId of ids) {
+    const position = await getLpPosition(poolId, owner);
+    if (position) positions.push(position);
+  }
+  return positions;
+}
@@ -25,7 +25,6 @@ import {
 import {
   buildAndSendTx,
   getWalletTokenAccount,
-  loadOrCreateKeypair_wallet,
   checkTx,
 } from "../../helpers/util";
 // import {
@@ -39,13 +38,14 @@ import { getSPLTokenBalance } from "../../helpers/check_balance";
 import { getDecimals, getTokenMetadata } from "../../helpers/util";
 import { BN } from "@project-serum/anchor";
 import { program } from "commander";
+import { getSigner } from "../../helpers/keystore";
 
 let payer_keypair:any = null,
   tokenAddress:any = null,
   percentage:any = null,
   cluster:any = null;
 program
-  .option("--payer <PATH_TO_SECRET_KEY>", "Specify the path to the secret key")
+  .option("--payer <WALLET_NAME>", "Specify the keystore wallet name")
   .option("--token_address <TOKEN_ADDRESS>", "Specify the token address")
   .option(
     "--percentage <LP_TOKEN_PERCENTAGE>",
@@ -56,7 +56,7 @@ program
   .action((options) => {
     if (options.help) {
       console.log(
-        "node remove_pool --payer <PATH_PAYER> --token_address <TOKEN_ADDRESS> --percentage <LP_TOKEN_PERCENTAGE> --cluster <CLUSTER>"
+        "node remove_pool --payer <WALLET_NAME> --token_address <TOKEN_ADDRESS> --percentage <LP_TOKEN_PERCENTAGE> --cluster <CLUSTER>"
       );
       process.exit(0);
     }
@@ -151,7 +151,7 @@ export async function ammRemoveLiquidityHelper(input:any) {
  */
 async function main() {
   if (payer_keypair !== null) {
-    payer_keypair = await loadOrCreateKeypair_wallet(payer_keypair);
+    payer_keypair = getSigner(payer_keypair);
   } else {
     payer_keypair = Keypair.fromSecretKey(wallet.secretKey);
   }
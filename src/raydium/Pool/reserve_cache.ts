@@ -0,0 +1,276 @@
+import { PublicKey } from "@solana/web3.js";
+import { AccountLayout } from "@solana/spl-token";
+import { LIQUIDITY_STATE_LAYOUT_V4 } from "@raydium-io/raydium-sdk";
+import bs58 from "bs58";
+import { connection } from "../../helpers/config";
+import {
+  AmmPoolSnapshot,
+  computeAmmAmountIn,
+  computeAmmAmountOut,
+  getAmmPrice,
+  toAmmSnapshot,
+} from "./amm_quote";
+
+interface CachedPool {
+  state: ReturnType<typeof LIQUIDITY_STATE_LAYOUT_V4.decode>;
+  stateSlot: number;
+  baseVault: string;
+  quoteVault: string;
+  baseVaultAmount: bigint | null; // null until the vault is loaded
+  quoteVaultAmount: bigint | null;
+  baseVaultSlot: number;
+  quoteVaultSlot: number;
+}
+
+/**
+ * Local copy of the state and vault balances of Raydium AMM v4 pools.
+ *
+ * The cache is seeded over rpc with load() and kept current by feeding it the
+ * account updates of the pools and their vaults, e.g. from a gRPC account subscription
+ * on the addresses of accounts(). Quotes and prices are then computed without any rpc call.
+ * Updates older than the cached account are ignored, so streams can be replayed or merged.
+ */
+export class AmmReserveCache {
+  private pools: Map<string, CachedPool> = new Map();
+  private vaults: Map<string, string> = new Map(); // vault -> pool id
+
+  /**
+   * Fetches the state and vault balances of pools over rpc and starts tracking them.
+   * @param {string[]} poolIds - The AMM v4 pools to track.
+   * @returns {Promise<string[]>} The pools that were loaded, pools whose account was not found are skipped.
+   */
+  async load(poolIds: string[]) {
+    const { context, value: poolAccounts } =
+      await connection.getMultipleAccountsInfoAndContext(
+        poolIds.map((id) => new PublicKey(id))
+      );
+    const loaded: string[] = [];
+    poolAccounts.forEach((account, i) => {
+      if (!account) return;
+      this.setPoolState(poolIds[i], account.data, context.slot);
+      loaded.push(poolIds[i]);
+    });
+    const vaults = loaded.flatMap((id) => {
+      const pool = this.pools.get(id)!;
+      return [pool.baseVault, pool.quoteVault];
+    });
+    const { context: vaultContext, value: vaultAccounts } =
+      await connection.getMultipleAccountsInfoAndContext(
+        vaults.map((vault) => new PublicKey(vault))
+      );
+    vaultAccounts.forEach((account, i) => {
+      if (account) this.applyAccountUpdate(vaults[i], account.data, vaultContext.slot);
+    });
+    return loaded;
+  }
+
+  /**
+   * Tracks a pool from its account data, or updates its state.
+   * @param {string} poolId - The pool id.
+   * @param {Buffer | Uint8Array} data - The pool account data.
+   * @param {number} slot - The slot the account was read at.
+   */
+  setPoolState(poolId: string, data: Buffer | Uint8Array, slot: number = 0) {
+    const cached = this.pools.get(poolId);
+    if (cached && cached.stateSlot > slot) return;
+    const state = LIQUIDITY_STATE_LAYOUT_V4.decode(Buffer.from(data));
+    const baseVault = state.baseVault.toBase58();
+    const quoteVault = state.quoteVault.toBase58();
+    this.pools.set(poolId, {
+      baseVaultAmount: null,
+      quoteVaultAmount: null,
+      baseVaultSlot: 0,
+      quoteVaultSlot: 0,
+      ...cached,
+      state,
+      stateSlot: slot,
+      baseVault,
+      quoteVault,
+    });
+    this.vaults.set(baseVault, poolId);
+    this.vaults.set(quoteVault, poolId);
+  }
+
+  /**
+   * Applies the update of a tracked pool or vault account.
+   * @param {string} address - The address of the account.
+   * @param {Buffer | Uint8Array} data - The new account data.
+   * @param {number} slot - The slot of the update.
+   * @returns {string | null} The pool the account belongs to, null if the account is not tracked.
+   */
+  applyAccountUpdate(address: string, data: Buffer | Uint8Array, slot: number = 0) {
+    if (this.pools.has(address)) {
+      this.setPoolState(address, data, slot);
+      return address;
+    }
+    const poolId = this.vaults.get(address);
+    if (!poolId) return null;
+    const pool = this.pools.get(poolId)!;
+    const { amount } = AccountLayout.decode(Buffer.from(data));
+    if (address === pool.baseVault && slot >= pool.baseVaultSlot) {
+      pool.baseVaultAmount = amount;
+      pool.baseVaultSlot = slot;
+    } else if (address === pool.quoteVault && slot >= pool.quoteVaultSlot) {
+      pool.quoteVaultAmount = amount;
+      pool.quoteVaultSlot = slot;
+    }
+    return poolId;
+  }
+
+  /**
+   * Applies a message of a yellowstone gRPC subscription, messages without an account update are ignored.
+   * @param {any} data - The message received on the "data" event of the stream.
+   * @returns {string | null} The pool that was updated, null if the message did not update a tracked account.
+   */
+  handleGrpcUpdate(data: any) {
+    if (data.account === undefined) return null;
+    const { pubkey, data: accountData } = data.account.account;
+    return this.applyAccountUpdate(
+      bs58.encode(pubkey),
+      accountData,
+      Number(data.account.slot)
+    );
+  }
+
+  /**
+   * Lists the accounts to subscribe to for keeping the cache current.
+   * @returns {string[]} The tracked pools and their vaults.
+   */
+  accounts() {
+    return [...this.pools.keys(), ...this.vaults.keys()];
+  }
+
+  /**
+   * Stops tracking a pool.
+   * @param {string} poolId - The pool id.
+   */
+  remove(poolId: string) {
+    const pool = this.pools.get(poolId);
+    if (!pool) return;
+    this.vaults.delete(pool.baseVault);
+    this.vaults.delete(pool.quoteVault);
+    this.pools.delete(poolId);
+  }
+
+  /**
+   * Gets the snapshot of a tracked pool.
+   * @param {string} poolId - The pool id.
+   * @returns {AmmPoolSnapshot | null} The snapshot, null until the pool and both its vaults are known.
+   */
+  getSnapshot(poolId: string): AmmPoolSnapshot | null {
+    const pool = this.pools.get(poolId);
+    if (!pool || pool.baseVaultAmount === null || pool.quoteVaultAmount === null) {
+      return null;
+    }
+    return toAmmSnapshot(
+      poolId,
+      pool.state,
+      pool.baseVaultAmount,
+      pool.quoteVaultAmount,
+      Math.max(pool.stateSlot, pool.baseVaultSlot, pool.quoteVaultSlot)
+    );
+  }
+
+  /**
+   * Finds the tracked pool of a mint pair, the one with the most of the quote mint if several are.
+   * @param {string} mint - One mint of the pair.
+   * @param {string} quoteMint - The other mint of the pair.
+   * @returns {string | null} The pool id, null if no pool of the pair is cached.
+   */
+  findPool(mint: string, quoteMint: string): string | null {
+    let best: { poolId: string; reserve: bigint } | null = null;
+    for (const poolId of this.pools.keys()) {
+      const pool = this.getSnapshot(poolId);
+      if (!pool) continue;
+      const reserve =
+        pool.baseMint === mint && pool.quoteMint === quoteMint
+          ? pool.quoteReserve
+          : pool.baseMint === quoteMint && pool.quoteMint === mint
+            ? pool.baseReserve
+            : null;
+      if (reserve !== null && (!best || reserve > best.reserve)) {
+        best = { poolId, reserve };
+      }
+    }
+    return best ? best.poolId : null;
+  }
+
+  /**
+   * Quotes a swap of an exact amount in against a tracked pool.
+   * @param {string} poolId - The pool id.
+   * @param {string} inputMint - The mint sold.
+   * @param {number} amountIn - The amount sold, in UI units.
+   * @param {number} slippageBps - The slippage applied to the minimum amount out.
+   * @returns {Object | null} The amounts out in UI units and the price impact in percent, null if the pool is not cached.
+   */
+  quote(poolId: string, inputMint: string, amountIn: number, slippageBps: number = 0) {
+    const pool = this.getSnapshot(poolId);
+    if (!pool) return null;
+    const [inDecimals, outDecimals] =
+      inputMint === pool.baseMint
+        ? [pool.baseDecimals, pool.quoteDecimals]
+        : [pool.quoteDecimals, pool.baseDecimals];
+    const res = computeAmmAmountOut(
+      pool,
+      inputMint,
+      BigInt(Math.floor(amountIn * 10 ** inDecimals)),
+      slippageBps
+    );
+    return {
+      poolId,
+      amountOut: Number(res.amountOut) / 10 ** outDecimals,
+      minAmountOut: Number(res.minAmountOut) / 10 ** outDecimals,
+      priceImpact: res.priceImpact,
+      slot: pool.slot,
+    };
+  }
+
+  /**
+   * Quotes a swap for an exact amount out against a tracked pool.
+   * @param {string} poolId - The pool id.
+   * @param {string} outputMint - The mint bought.
+   * @param {number} amountOut - The amount bought, in UI units.
+   * @param {number} slippageBps - The slippage applied to the maximum amount in.
+   * @returns {Object | null} The amounts in in UI units and the price impact in percent, null if the pool is not cached.
+   */
+  quoteExactOut(
+    poolId: string,
+    outputMint: string,
+    amountOut: number,
+    slippageBps: number = 0
+  ) {
+    const pool = this.getSnapshot(poolId);
+    if (!pool) return null;
+    const [inDecimals, outDecimals] =
+      outputMint === pool.baseMint
+        ? [pool.quoteDecimals, pool.baseDecimals]
+        : [pool.baseDecimals, pool.quoteDecimals];
+    const res = computeAmmAmountIn(
+      pool,
+      outputMint,
+      BigInt(Math.floor(amountOut * 10 ** outDecimals)),
+      slippageBps
+    );
+    return {
+      poolId,
+      amountIn: Number(res.amountIn) / 10 ** inDecimals,
+      maxAmountIn: Number(res.maxAmountIn) / 10 ** inDecimals,
+      priceImpact: res.priceImpact,
+      slot: pool.slot,
+    };
+  }
+
+  /**
+   * Gets the spot price of a mint of a tracked pool in the other mint.
+   * @param {string} poolId - The pool id.
+   * @param {string} mint - The mint to price.
+   * @returns {number | null} The price, null if the pool is not cached.
+   */
+  getPrice(poolId: string, mint: string) {
+    const pool = this.getSnapshot(poolId);
+    return pool ? getAmmPrice(pool, mint) : null;
+  }
+}
+
+// shared by the price reads, pools loaded or streamed into it are priced without rpc
+export const ammReserveCache = new AmmReserveCache();
@@ -6,14 +6,15 @@ import {
   Token,
   TOKEN_PROGRAM_ID,
   TokenAmount,
+  jsonInfo2PoolKeys,
 } from "@raydium-io/raydium-sdk";
 import {
   PublicKey,
   TransactionMessage,
-  ComputeBudgetProgram,
   VersionedTransaction,
   LAMPORTS_PER_SOL,
   Transaction,
+  SystemProgram,
 } from "@solana/web3.js";
 import { Decimal } from "decimal.js";
 import { BN } from "@project-serum/anchor";
@@ -25,203 +26,334 @@ import {
   RAYDIUM_MAINNET_API,
   _ENDPOINT,
   wallet,
-  jito_fee,
 } from "../../helpers/config";
-import { getTokenMetadata, checkTx, getDecimals } from "../../helpers/util";
-import { fetchAMMPoolId } from "./fetch_pool";
+import { getTokenMetadata, getDecimals } from "../../helpers/util";
+import { resolveRaydiumPool, RaydiumPool } from "./fetch_pool";
+import { quoteV2Swap, swapV2 } from "./swap_v2";
 import {
   getAssociatedTokenAddress,
   getAssociatedTokenAddressSync,
   createAssociatedTokenAccountIdempotentInstruction,
   createCloseAccountInstruction,
+  createSyncNativeInstruction,
+  NATIVE_MINT,
 } from "@solana/spl-token";
 import { formatAmmKeysById_swap } from "./formatAmmKeysById";
-import { simple_executeAndConfirm } from "../../transactions/simple_tx_executor";
-import { jito_executeAndConfirm } from "../../transactions/jito_tips_tx_executor";
-import { bloXroute_executeAndConfirm } from "../../transactions/bloXroute_tips_tx_executor";
+import { getExecutor, resolveExecutor } from "../../transactions/tx_executor";
+import { getPriorityFeeInstruction } from "../../transactions/fee_estimator";
+import { fitComputeUnitLimit } from "../../transactions/compute_budget";
+import {
+  buildSwapResult,
+  printSwapResult,
+  startSwapTimer,
+} from "../../transactions/swap_result";
+import {
+  checkPriceImpact,
+  getSlippageBps,
+} from "../../transactions/swap_guard";
+import { SwapOptions, SwapResult } from "../../helpers/types";
+import { getPoolEntry, savePoolEntry } from "../../helpers/pool_registry";
 import { Keypair } from "@solana/web3.js";
 import { initSdk } from "../raydium_config";
-let tokenToPoolIdMap: any = {};
-let sdkCache = { sdk: null, expiry: 0 };
+import { wsol } from "../constants";
+const DEFAULT_SLIPPAGE_BPS = 300;
+let sdkCache: any = { sdk: null, expiry: 0 };
+
+async function getSdk() {
+  if (!sdkCache.sdk) sdkCache.sdk = await initSdk();
+  return sdkCache.sdk;
+}
+
+/**
+ * Gets the keys of an AMM v4 pool from the pool registry, fetching and registering them the first time.
+ * @returns {Promise<any>} The pool keys, as returned by formatAmmKeysById_swap.
+ */
+async function getAmmPoolKeys(
+  tokenAddress: string,
+  quoteMint: string,
+  poolId: string
+) {
+  const entry = getPoolEntry(tokenAddress, "raydium", quoteMint);
+  if (entry && entry.poolId === poolId && entry.keys) {
+    return jsonInfo2PoolKeys(entry.keys) as any;
+  }
+  const keys = await formatAmmKeysById_swap(new PublicKey(poolId));
+  await savePoolEntry(tokenAddress, "raydium", { poolId, type: "amm", keys }, quoteMint);
+  return keys;
+}
+
+async function getQuoteToken(quoteMint: string) {
+  if (quoteMint === wsol) return DEFAULT_TOKEN.WSOL;
+  const mint = new PublicKey(quoteMint);
+  return new Token(TOKEN_PROGRAM_ID, mint, await getDecimals(mint));
+}
+
+/**
+ * Builds the instructions wrapping the SOL a swap spends beyond the WSOL already in the account.
+ * @param {PublicKey} ata - The WSOL associated token account of the owner.
+ * @param {BN} amount - The most lamports the swap can take from the account.
+ * @param {PublicKey} owner - The wallet that wraps the SOL and pays for the account.
+ * @returns {Promise<TransactionInstruction[]>} The instructions, empty if the account holds enough WSOL.
+ */
+async function getWrapInstructions(ata: PublicKey, amount: any, owner: PublicKey) {
+  let wrapped = 0n;
+  try {
+    wrapped = BigInt((await connection.getTokenAccountBalance(ata)).value.amount);
+  } catch (e) {
+    // the account does not exist yet
+  }
+  const shortfall = BigInt(amount.toString()) - wrapped;
+  if (shortfall <= 0n) return [];
+  return [
+    createAssociatedTokenAccountIdempotentInstruction(
+      owner,
+      ata,
+      owner,
+      NATIVE_MINT
+    ),
+    SystemProgram.transfer({
+      fromPubkey: owner,
+      toPubkey: ata,
+      lamports: shortfall,
+    }),
+    createSyncNativeInstruction(ata),
+  ];
+}
+
+/**
+ * Quotes a swap against the Raydium pool of a token without building a transaction.
+ * The pool is the deepest AMM v4, CLMM or CP-Swap pool of the pair.
+ * @param {string} side - "buy" to swap SOL for the token, "sell" to swap the token for SOL.
+ * @param {string} tokenAddr - The address of the token.
+ * @param {number} amountIn - The amount of the input token, SOL for a buy.
+ * @param {SwapOptions} options - The slippage used for the minimum amount out.
+ * @param {string} quoteMint - The mint the token is paired with, WSOL by default.
+ * @returns {Promise<Object | null>} - The pool id, the amounts out in UI units and the price impact in percent, null if no pool was found.
+ */
+export async function quoteSwap(
+  side: string,
+  tokenAddr: string,
+  amountIn: number,
+  options: SwapOptions = {},
+  quoteMint: string = wsol
+) {
+  const pool = await resolveRaydiumPool(tokenAddr, quoteMint);
+  if (!pool) return null;
+  if (pool.type !== "amm") {
+    const inputMint = side === "buy" ? quoteMint : tokenAddr;
+    return await quoteV2Swap(pool, inputMint, amountIn, options);
+  }
+  const targetPool = pool.id;
+  const raydium = await getSdk();
+  const poolKeys: any = await getAmmPoolKeys(tokenAddr, quoteMint, targetPool);
+  const poolInfo = await raydium.liquidity.getRpcPoolInfo(targetPool);
+  const mint = new PublicKey(tokenAddr);
+  const token = new Token(TOKEN_PROGRAM_ID, mint, await getDecimals(mint));
+  const quoteToken = await getQuoteToken(quoteMint);
+  const [inputToken, outputToken] =
+    side === "buy" ? [quoteToken, token] : [token, quoteToken];
+  const { amountOut, minAmountOut, priceImpact } = Liquidity.computeAmountOut({
+    poolKeys: poolKeys,
+    poolInfo: poolInfo,
+    amountIn: new TokenAmount(
+      inputToken,
+      new BN(new Decimal(amountIn).mul(10 ** inputToken.decimals).toFixed(0))
+    ),
+    currencyOut: outputToken,
+    slippage: new Percent(getSlippageBps(options, DEFAULT_SLIPPAGE_BPS), 10000),
+  });
+  return {
+    poolId: targetPool,
+    amountOut: parseFloat(amountOut.toExact()),
+    minAmountOut: parseFloat(minAmountOut.toExact()),
+    priceImpact: parseFloat(priceImpact.toFixed(4)),
+  };
+}
 /**
  * Performs a swap transaction using an Automated Market Maker (AMM) pool.
  * @param {Object} input - The input parameters for the swap transaction.
  * @param {string} input.targetPool - The target pool address.
- * @param {string} input.inputTokenAmount - The amount of input token to swap.
- * @param {string} input.outputToken - The output token to receive.
- * @param {number} input.slippage - The slippage tolerance percentage.
+ * @param {Object} input.poolKeys - The keys of the target pool, fetched when missing.
+ * @param {string} input.fixedSide - "in" to swap an exact amount in (default), "out" to receive an exact amount out.
+ * @param {TokenAmount} input.inputTokenAmount - The amount of input token to swap, for a fixed input.
+ * @param {Token} input.outputToken - The output token to receive, for a fixed input.
+ * @param {Token} input.inputToken - The input token to spend, for a fixed output.
+ * @param {TokenAmount} input.outputTokenAmount - The amount of output token to receive, for a fixed output.
+ * @param {Percent} input.slippage - The slippage tolerance.
  * @param {string} input.ataIn - The associated token account for the input token.
  * @param {string} input.ataOut - The associated token account for the output token.
  * @param {string} input.usage - The usage type of the transaction (e.g., "volume").
  * @param {string} input.side - The side of the swap transaction (e.g., "buy").
- * @returns {Object} - The transaction ID if successful, otherwise null.
+ * @param {SwapOptions} input.options - Per-call options such as the transaction executor.
+ * @param {Keypair} input.wallet - The wallet that swaps, pays and signs, the configured wallet by default.
+ * @returns {Promise<SwapResult>} - The swap result, or the inner transaction for the "volume" usage.
+ * @throws {PriceImpactError} If the price impact is above input.options.maxPriceImpact.
  */
 async function swapOnlyAmm(input: any) {
+  const timer = startSwapTimer();
+  const payer: Keypair = input.wallet || wallet;
   // -------- pre-action: get pool info --------\
-  let raydium: any = null;
-  if (sdkCache.sdk) {
-    raydium = sdkCache.sdk;
-  } else {
-    raydium = await initSdk();
-    sdkCache.sdk = raydium;
-  }
-  const poolKeys: any = await formatAmmKeysById_swap(
-    new PublicKey(input.targetPool)
-  );
+  const raydium = await getSdk();
+  const poolKeys: any =
+    input.poolKeys ||
+    (await formatAmmKeysById_swap(new PublicKey(input.targetPool)));
   assert(poolKeys, "cannot find the target pool");
   // const poolInfo = await Liquidity.fetchInfo({
   //   connection: connection,
   //   poolKeys: poolKeys,
   // });
   const poolInfo = await raydium.liquidity.getRpcPoolInfo(input.targetPool);
-  // -------- step 1: coumpute amount out --------
-  const { amountOut, minAmountOut } = Liquidity.computeAmountOut({
-    poolKeys: poolKeys,
-    poolInfo: poolInfo,
-    amountIn: input.inputTokenAmount,
-    currencyOut: input.outputToken,
-    slippage: input.slippage,
-  });
-
-  // -------- step 2: create instructions by SDK function --------
-  const { innerTransaction } = await Liquidity.makeSwapFixedInInstruction(
-    {
+  const userKeys = {
+    tokenAccountIn: input.ataIn,
+    tokenAccountOut: input.ataOut,
+    owner: payer.publicKey,
+  };
+  let priceImpact: Percent, innerTransaction: any, maxAmountIn: any;
+  if (input.fixedSide === "out") {
+    // -------- step 1: compute the maximum amount in --------
+    const computed = Liquidity.computeAmountIn({
       poolKeys: poolKeys,
-      userKeys: {
-        tokenAccountIn: input.ataIn,
-        tokenAccountOut: input.ataOut,
-        owner: wallet.publicKey,
+      poolInfo: poolInfo,
+      amountOut: input.outputTokenAmount,
+      currencyIn: input.inputToken,
+      slippage: input.slippage,
+    });
+    priceImpact = computed.priceImpact;
+    maxAmountIn = computed.maxAmountIn.raw;
+    checkPriceImpact(
+      "raydium",
+      parseFloat(priceImpact.toFixed(4)),
+      input.options || {}
+    );
+    // -------- step 2: create instructions by SDK function --------
+    ({ innerTransaction } = Liquidity.makeSwapFixedOutInstruction(
+      {
+        poolKeys: poolKeys,
+        userKeys,
+        maxAmountIn: computed.maxAmountIn.raw,
+        amountOut: input.outputTokenAmount.raw,
       },
-      amountIn: input.inputTokenAmount.raw,
-      minAmountOut: minAmountOut.raw,
-    },
-    poolKeys.version
-  );
+      poolKeys.version
+    ));
+  } else {
+    // -------- step 1: coumpute amount out --------
+    const computed = Liquidity.computeAmountOut({
+      poolKeys: poolKeys,
+      poolInfo: poolInfo,
+      amountIn: input.inputTokenAmount,
+      currencyOut: input.outputToken,
+      slippage: input.slippage,
+    });
+    priceImpact = computed.priceImpact;
+    maxAmountIn = input.inputTokenAmount.raw;
+    checkPriceImpact(
+      "raydium",
+      parseFloat(priceImpact.toFixed(4)),
+      input.options || {}
+    );
+    // -------- step 2: create instructions by SDK function --------
+    ({ innerTransaction } = Liquidity.makeSwapFixedInInstruction(
+      {
+        poolKeys: poolKeys,
+        userKeys,
+        amountIn: input.inputTokenAmount.raw,
+        minAmountOut: computed.minAmountOut.raw,
+      },
+      poolKeys.version
+    ));
+  }
   if (input.usage == "volume") return innerTransaction;
+  const inputMint = (input.inputToken || input.inputTokenAmount.token).mint;
+  const outputMint = (input.outputToken || input.outputTokenAmount.token).mint;
+  // SOL is wrapped as needed, other quote tokens must already be held
+  const wrapInstructions = inputMint.equals(NATIVE_MINT)
+    ? await getWrapInstructions(input.ataIn, maxAmountIn, payer.publicKey)
+    : [];
+  // the WSOL account is closed after the swap, so SOL bought and SOL left over from the wrap come back unwrapped
+  const wsolAta = inputMint.equals(NATIVE_MINT)
+    ? input.ataIn
+    : outputMint.equals(NATIVE_MINT)
+      ? input.ataOut
+      : null;
+  const unwrapInstructions = wsolAta
+    ? [createCloseAccountInstruction(wsolAta, payer.publicKey, payer.publicKey)]
+    : [];
   let latestBlockhash = await connection.getLatestBlockhash();
   const messageV0 = new TransactionMessage({
-    payerKey: wallet.publicKey,
+    payerKey: payer.publicKey,
     recentBlockhash: latestBlockhash.blockhash,
     instructions: [
-      ...[
-        ComputeBudgetProgram.setComputeUnitLimit({
-          units: 70000,
-        }),
-      ],
-      ...(input.side === "buy"
-        ? [
-            createAssociatedTokenAccountIdempotentInstruction(
-              wallet.publicKey,
-              input.ataOut,
-              wallet.publicKey,
-              input.outputToken.mint
-            ),
-          ]
-        : []),
+      await getPriorityFeeInstruction(
+        innerTransaction.instructions,
+        input.options?.urgency
+      ),
+      ...wrapInstructions,
+      createAssociatedTokenAccountIdempotentInstruction(
+        payer.publicKey,
+        input.ataOut,
+        payer.publicKey,
+        outputMint
+      ),
       ...innerTransaction.instructions,
+      ...unwrapInstructions,
     ],
   }).compileToV0Message();
 
-  const transaction = new VersionedTransaction(messageV0);
-  transaction.sign([wallet, ...innerTransaction.signers]);
-  let attempts = 0;
+  // the compute unit limit is sized from a simulation of the assembled transaction
+  const transaction = await fitComputeUnitLimit(
+    new VersionedTransaction(messageV0)
+  );
+  const executor = resolveExecutor(input.options);
+  let attempts = 0,
+    res: any = null;
   const maxAttempts = 3;
 
+  timer.submitStart = Date.now();
   while (attempts < maxAttempts) {
     attempts++;
-    try {
-      const res = await jito_executeAndConfirm(
-        transaction,
-        wallet,
-        latestBlockhash,
-        jito_fee
-      );
-      const signature = res.signature;
-      const confirmed = res.confirmed;
-
-      if (signature) {
-        return { txid: signature };
-      } else {
-        console.log("jito fee transaction failed");
-        console.log(`Retry attempt ${attempts}`);
-      }
-    } catch (e: any) {
-      console.log(e);
-      if (e.signature) {
-        return { txid: e.signature };
-      }
-    }
+    res = await executor.submit(
+      transaction,
+      [payer, ...innerTransaction.signers],
+      { latestBlockhash, urgency: input.options?.urgency }
+    );
+    // a transaction executed on chain is not resent, even if it failed
+    if (res.simulation || res.landed || res.slot !== null) break;
+    console.log(`${executor.name} transaction failed: ${res.error}`);
+    if (attempts < maxAttempts) console.log(`Retry attempt ${attempts}`);
     latestBlockhash = await connection.getLatestBlockhash();
+    transaction.message.recentBlockhash = latestBlockhash.blockhash;
+  }
+  timer.submitEnd = Date.now();
+  if (!res.landed && !res.simulation && res.slot === null) {
+    console.log("Transaction failed after maximum retry attempts");
   }
 
-  console.log("Transaction failed after maximum retry attempts");
-  return { txid: null };
-}
-async function swapOnlyAmmUsingBloXRoute(input: any) {
-  const poolKeys: any = await formatAmmKeysById_swap(
-    new PublicKey(input.targetPool)
-  );
-  assert(poolKeys, "cannot find the target pool");
-  const poolInfo = await Liquidity.fetchInfo({
-    connection: connection,
-    poolKeys: poolKeys,
-  });
-  // -------- step 1: coumpute amount out --------
-  const { amountOut, minAmountOut } = Liquidity.computeAmountOut({
-    poolKeys: poolKeys,
-    poolInfo: poolInfo,
-    amountIn: input.inputTokenAmount,
-    currencyOut: input.outputToken,
-    slippage: input.slippage,
-  });
-  // -------- step 2: create instructions by SDK function --------
-  const { innerTransaction } = await Liquidity.makeSwapFixedInInstruction(
+  return await buildSwapResult(
     {
-      poolKeys: poolKeys,
-      userKeys: {
-        tokenAccountIn: input.ataIn,
-        tokenAccountOut: input.ataOut,
-        owner: wallet.publicKey,
-      },
-      amountIn: input.inputTokenAmount.raw,
-      minAmountOut: minAmountOut.raw,
+      owner: payer.publicKey,
+      inputMint: inputMint.toBase58(),
+      outputMint: outputMint.toBase58(),
+      priceImpact: parseFloat(priceImpact.toFixed(4)),
+      executor: executor.name,
     },
-    poolKeys.version
+    res,
+    timer
   );
-  if (input.usage == "volume") return innerTransaction;
-  const latestBlockhash = await connection.getLatestBlockhash();
-  let tx = new Transaction();
-  tx.add(
-    ComputeBudgetProgram.setComputeUnitLimit({
-      units: 70000,
-    }),
-    ...(input.side === "buy"
-      ? [
-          createAssociatedTokenAccountIdempotentInstruction(
-            wallet.publicKey,
-            input.ataOut,
-            wallet.publicKey,
-            input.outputToken.mint
-          ),
-        ]
-      : []),
-    ...innerTransaction.instructions
-  );
-  await bloXroute_executeAndConfirm(tx, [wallet]);
 }
 /**
  * Swaps tokens for a specified volume.
  * @param {string} tokenAddr - The address of the token to swap.
  * @param {number} sol_per_order - The price of SOL per order.
+ * @param {Keypair} payer - The wallet that swaps, pays and signs, the configured wallet by default.
  * @returns {Promise<{ confirmed: boolean, txid: string }>} The confirmation status and transaction ID.
  */
-export async function swapForVolume(tokenAddr: string, sol_per_order: number) {
+export async function swapForVolume(tokenAddr: string, sol_per_order: number, payer: Keypair = wallet) {
   const buy_instruction: any = await swap(
     "buy",
     tokenAddr,
     sol_per_order,
     -1,
-    wallet,
+    payer,
     "volume"
   );
   const sell_instruction: any = await swap(
@@ -229,80 +361,73 @@ export async function swapForVolume(tokenAddr: string, sol_per_order: number) {
     tokenAddr,
     -1,
     100,
-    wallet,
+    payer,
     "volume"
   );
+  if (!buy_instruction || !sell_instruction) return { confirmed: false, txid: null };
   const latestBlockhash = await connection.getLatestBlockhash();
   const messageV0 = new TransactionMessage({
-    payerKey: wallet.publicKey,
+    payerKey: payer.publicKey,
     recentBlockhash: latestBlockhash.blockhash,
     instructions: [
-      ...[
-        ComputeBudgetProgram.setComputeUnitLimit({
-          units: 70000,
-        }),
-      ],
+      await getPriorityFeeInstruction([
+        ...sell_instruction.instructions,
+        ...buy_instruction.instructions,
+      ]),
       ...sell_instruction.instructions,
       ...buy_instruction.instructions,
     ],
   });
 
-  const transaction = new VersionedTransaction(messageV0.compileToV0Message());
-  transaction.sign([
-    wallet,
-    ...buy_instruction.signers,
-    ...sell_instruction.signers,
-  ]);
-  let signature = null,
-    confirmed = null;
-  try {
-    const res: any = simple_executeAndConfirm(
-      transaction,
-      wallet,
-      latestBlockhash
-    );
-    signature = res.signature;
-    confirmed = res.confirmed;
-  } catch (e: any) {
-    console.log(e);
-    return { confirmed: confirmed, txid: e.signature };
-  }
-  return { confirmed: confirmed, txid: signature };
+  const transaction = await fitComputeUnitLimit(
+    new VersionedTransaction(messageV0.compileToV0Message())
+  );
+  const res = await getExecutor("rpc").submit(
+    transaction,
+    [payer, ...buy_instruction.signers, ...sell_instruction.signers],
+    { latestBlockhash }
+  );
+  return { confirmed: res.landed, txid: res.signature };
+}
+
+// the "volume" usage bundles the inner AMM v4 instructions of a buy and a sell
+function unsupportedVolumeSwap(pool: RaydiumPool) {
+  console.log(
+    `The volume usage is only supported on AMM v4 pools, ${pool.id} is a ${pool.type} pool`
+  );
+  return null;
 }
 
 /**
  * Helper function for swapping tokens using the AMM protocol.
  * @param {Object} input - The input object containing the necessary parameters for the swap.
- * @returns {Promise<void>} - A promise that resolves when the swap is completed.
+ * @returns {Promise<SwapResult>} - The result of the swap.
  */
-async function swapOnlyAmmHelper(input: any) {
-  const res: any = await swapOnlyAmm(input);
-  console.log("txids:", res.txid);
-  const response = await checkTx(res.txid);
-  if (response) {
-    if (input.side === "buy") {
-      console.log(
-        `https://dexscreener.com/solana/${input.targetPool}?maker=${wallet.publicKey}`
-      );
-    } else {
-      console.log(
-        `https://dexscreener.com/solana/${input.targetPool}?maker=${wallet.publicKey}`
-      );
-    }
-    console.log(`https://solscan.io/tx/${res.txid}?cluster=mainnet`);
-  } else {
-    console.log("Transaction failed");
+async function swapOnlyAmmHelper(input: any): Promise<SwapResult> {
+  const result = (await swapOnlyAmm(input)) as SwapResult;
+  printSwapResult(result);
+  if (result.status === "confirmed") {
+    console.log(
+      `https://dexscreener.com/solana/${input.targetPool}?maker=${(input.wallet || wallet).publicKey}`
+    );
   }
+  return result;
 }
 /**
  * Performs a swap operation.
+ * The swap goes through the deepest AMM v4, CLMM or CP-Swap pool of the pair,
+ * the "volume" usage needs an AMM v4 pool.
  *
  * @param {string} side - The side of the swap operation ("buy" or "sell").
  * @param {string} tokenAddr - The address of the token involved in the swap.
- * @param {number} buy_AmountOfSol - The amount of SOL to buy (only applicable for "buy" side).
+ * @param {number} buy_AmountOfSol - The amount of SOL, or of the quote token, to buy with (only applicable for "buy" side).
  * @param {number} sell_PercentageOfToken - The percentage of the token to sell (only applicable for "sell" side).
- * @param {object} payer_wallet - The payer's wallet object.
- * @returns {Promise<void>} - A promise that resolves when the swap operation is completed.
+ * @param {object} payer_wallet - The wallet that swaps, pays and signs.
+ * @param {string} usage - "trade" to send the swap, "volume" to only return its instructions.
+ * @param {SwapOptions} options - Per-call options such as the transaction executor, the slippage and the maximum price impact.
+ * @param {string} quoteMint - The mint the token is paired with, WSOL by default.
+ * @returns {Promise<any>} - The SwapResult of a "trade", the inner transaction of a "volume" usage, null if no pool was found.
+ * @throws {PriceImpactError} If the quoted price impact is above options.maxPriceImpact.
  */
 export async function swap(
   side: string,
@@ -310,18 +435,21 @@ export async function swap(
   buy_AmountOfSol: number,
   sell_PercentageOfToken: number,
   payer_wallet: Keypair,
-  usage: string
-) {
+  usage: string,
+  options: SwapOptions = {},
+  quoteMint: string = wsol
+): Promise<any> {
   const tokenAddress = tokenAddr;
   const tokenAccount = new PublicKey(tokenAddress);
   const mintAta = await getAssociatedTokenAddress(
     tokenAccount,
-    wallet.publicKey
+    payer_wallet.publicKey
   );
   const quoteAta = await getAssociatedTokenAddressSync(
-    Token.WSOL.mint,
-    wallet.publicKey
+    new PublicKey(quoteMint),
+    payer_wallet.publicKey
   );
+  const quoteToken = await getQuoteToken(quoteMint);
   if (side === "buy") {
     // buy - use sol to swap to the token
 
@@ -331,41 +459,45 @@ export async function swap(
       tokenAccount,
       await getDecimals(tokenAccount)
     );
-    const inputToken = DEFAULT_TOKEN.WSOL; // SOL
-    let targetPool = null;
-    console.log("Fetching pool id...");
-    if (!(tokenAddress in tokenToPoolIdMap)) {
-      targetPool = await fetchAMMPoolId(tokenAddress);
-      tokenToPoolIdMap[tokenAddress] = targetPool;
-    } else targetPool = tokenToPoolIdMap[tokenAddress];
-    console.log("Pool id fetched.");
-    if (targetPool === null) {
+    const inputToken = quoteToken; // SOL by default
+    const pool = await resolveRaydiumPool(tokenAddress, quoteMint);
+    if (pool === null) {
       console.log(
         "Pool not found or raydium is not supported for this token. Exiting..."
       );
-      return;
+      return null;
+    }
+    if (pool.type !== "amm") {
+      if (usage == "volume") return unsupportedVolumeSwap(pool);
+      return await swapV2(pool, quoteMint, buy_AmountOfSol, options, payer_wallet);
     }
+    const targetPool = pool.id;
     const amountOfSol = new Decimal(buy_AmountOfSol);
     const inputTokenAmount = new TokenAmount(
       inputToken,
       new BN(amountOfSol.mul(10 ** inputToken.decimals).toFixed(0))
     );
-    const slippage = new Percent(3, 100);
+    const slippage = new Percent(
+      getSlippageBps(options, DEFAULT_SLIPPAGE_BPS),
+      10000
+    );
     const input = {
       outputToken,
       targetPool,
+      poolKeys: await getAmmPoolKeys(tokenAddress, quoteMint, targetPool),
       inputTokenAmount,
       slippage,
+      wallet: payer_wallet,
       ataIn: quoteAta,
       ataOut: mintAta,
       side,
       usage,
+      options,
     };
     if (usage == "volume") {
       return await swapOnlyAmm(input);
     }
-    swapOnlyAmmHelper(input); // using jito
-    //swapOnlyAmmUsingBloXRoute(input); // using bloXroute
+    return await swapOnlyAmmHelper(input);
   } else {
     // sell
     const { tokenName, tokenSymbol } = await getTokenMetadata(tokenAddress);
@@ -376,29 +508,31 @@ export async function swap(
       tokenSymbol,
       tokenName
     );
-    const outputToken = DEFAULT_TOKEN.WSOL; // SOL
-    let targetPool = null;
-    console.log("Fetching pool id...");
-    if (!(tokenAddress in tokenToPoolIdMap)) {
-      targetPool = await fetchAMMPoolId(tokenAddress);
-      tokenToPoolIdMap[tokenAddress] = targetPool;
-    } else targetPool = tokenToPoolIdMap[tokenAddress];
-    console.log("Pool id fetched.");
-    if (targetPool === null) {
+    const outputToken = quoteToken; // SOL by default
+    const pool = await resolveRaydiumPool(tokenAddress, quoteMint);
+    if (pool === null) {
       console.log(
         "Pool not found or raydium is not supported for this token. Exiting..."
       );
-      return;
+      return null;
     }
 
     const balnaceOfToken = await getSPLTokenBalance(
       connection,
       tokenAccount,
-      wallet.publicKey
+      payer_wallet.publicKey
     );
     const percentage = sell_PercentageOfToken / 100;
     const amount = new Decimal(percentage * balnaceOfToken);
-    const slippage = new Percent(3, 100);
+    if (pool.type !== "amm") {
+      if (usage == "volume") return unsupportedVolumeSwap(pool);
+      return await swapV2(pool, tokenAddress, amount.toNumber(), options, payer_wallet);
+    }
+    const targetPool = pool.id;
+    const slippage = new Percent(
+      getSlippageBps(options, DEFAULT_SLIPPAGE_BPS),
+      10000
+    );
     const inputTokenAmount = new TokenAmount(
       inputToken,
       new BN(amount.mul(10 ** inputToken.decimals).toFixed(0))
@@ -407,6 +541,7 @@ export async function swap(
       outputToken,
       sell_PercentageOfToken,
       targetPool,
+      poolKeys: await getAmmPoolKeys(tokenAddress, quoteMint, targetPool),
       inputTokenAmount,
       slippage,
       wallet: payer_wallet,
@@ -415,11 +550,93 @@ export async function swap(
       side,
       usage,
       tokenAddress: tokenAddress,
+      options,
     };
     if (usage == "volume") {
       return await swapOnlyAmm(input);
     }
-    swapOnlyAmmHelper(input); // using Jito
-    //swapOnlyAmmUsingBloXRoute(input); // using bloXroute
+    return await swapOnlyAmmHelper(input);
+  }
+}
+
+/**
+ * Performs a swap of an exact amount in or for an exact amount out.
+ * The amount is the SOL spent by an "exactIn" buy, the tokens received by an "exactOut" buy,
+ * the tokens sold by an "exactIn" sell and the SOL received by an "exactOut" sell.
+ * An exact output uses the fixed-out instruction, bounded by the quoted amount in plus the slippage.
+ * @param {string} side - The side of the swap operation ("buy" or "sell").
+ * @param {string} tokenAddr - The address of the token involved in the swap.
+ * @param {string} mode - "exactIn" to fix the amount spent, "exactOut" to fix the amount received.
+ * @param {number} amount - The fixed amount in UI units.
+ * @param {object} payer_wallet - The wallet that swaps, pays and signs.
+ * @param {SwapOptions} options - Per-call options such as the transaction executor, the slippage and the maximum price impact.
+ * @param {string} quoteMint - The mint the token is paired with, WSOL by default. The SOL amounts are then in this token.
+ * @returns {Promise<SwapResult | null>} - The result of the swap, null if no pool was found.
+ * @throws {PriceImpactError} If the quoted price impact is above options.maxPriceImpact.
+ * @throws {Error} If an exact output is asked on a CLMM or CP-Swap pool.
+ */
+export async function swapExact(
+  side: string,
+  tokenAddr: string,
+  mode: "exactIn" | "exactOut",
+  amount: number,
+  payer_wallet: Keypair,
+  options: SwapOptions = {},
+  quoteMint: string = wsol
+): Promise<SwapResult | null> {
+  const tokenAccount = new PublicKey(tokenAddr);
+  const pool = await resolveRaydiumPool(tokenAddr, quoteMint);
+  if (pool === null) {
+    console.log(
+      "Pool not found or raydium is not supported for this token. Exiting..."
+    );
+    return null;
+  }
+  if (pool.type !== "amm") {
+    if (mode === "exactOut") {
+      throw new Error(
+        `Exact output swaps are only supported on AMM v4 pools, ${pool.id} is a ${pool.type} pool`
+      );
+    }
+    return await swapV2(pool, side === "buy" ? quoteMint : tokenAddr, amount, options, payer_wallet);
   }
+  const targetPool = pool.id;
+  const mintAta = await getAssociatedTokenAddress(
+    tokenAccount,
+    payer_wallet.publicKey
+  );
+  const quoteAta = await getAssociatedTokenAddressSync(
+    new PublicKey(quoteMint),
+    payer_wallet.publicKey
+  );
+  const token = new Token(
+    TOKEN_PROGRAM_ID,
+    tokenAccount,
+    await getDecimals(tokenAccount)
+  );
+  const quoteToken = await getQuoteToken(quoteMint);
+  const [inputToken, outputToken] =
+    side === "buy" ? [quoteToken, token] : [token, quoteToken];
+  const fixedToken = mode === "exactIn" ? inputToken : outputToken;
+  const fixedAmount = new TokenAmount(
+    fixedToken,
+    new BN(new Decimal(amount).mul(10 ** fixedToken.decimals).toFixed(0))
+  );
+  const input = {
+    fixedSide: mode === "exactIn" ? "in" : "out",
+    targetPool,
+    poolKeys: await getAmmPoolKeys(tokenAddr, quoteMint, targetPool),
+    inputToken,
+    outputToken,
+    inputTokenAmount: mode === "exactIn" ? fixedAmount : undefined,
+    outputTokenAmount: mode === "exactOut" ? fixedAmount : undefined,
+    slippage: new Percent(getSlippageBps(options, DEFAULT_SLIPPAGE_BPS), 10000),
+    wallet: payer_wallet,
+    ataIn: side === "buy" ? quoteAta : mintAta,
+    ataOut: side === "buy" ? mintAta : quoteAta,
+    side,
+    usage: "trade",
+    options,
+  };
+  return await swapOnlyAmmHelper(input);
 }
@@ -0,0 +1,300 @@
+import {
+  ComputeBudgetProgram,
+  Keypair,
+  PublicKey,
+  TransactionMessage,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import {
+  CurveCalculator,
+  PoolUtils,
+  TxVersion,
+} from "@raydium-io/raydium-sdk-v2";
+import { BN } from "@project-serum/anchor";
+import { Decimal } from "decimal.js";
+import { connection, wallet } from "../../helpers/config";
+import { getPriorityFeeInstruction } from "../../transactions/fee_estimator";
+import { fitComputeUnitLimit } from "../../transactions/compute_budget";
+import { resolveExecutor } from "../../transactions/tx_executor";
+import {
+  buildSwapResult,
+  printSwapResult,
+  startSwapTimer,
+} from "../../transactions/swap_result";
+import {
+  checkPriceImpact,
+  getSlippageBps,
+} from "../../transactions/swap_guard";
+import { SwapOptions, SwapResult } from "../../helpers/types";
+import { initSdk } from "../raydium_config";
+import { RaydiumPool } from "./fetch_pool";
+
+const DEFAULT_SLIPPAGE_BPS = 300; // same default as the AMM v4 swaps
+// one sdk per owner, the sdk builds the token accounts of its owner
+const sdkCache: Map<string, any> = new Map();
+
+async function getSdk(owner: Keypair = wallet) {
+  const key = owner.publicKey.toBase58();
+  if (!sdkCache.has(key)) sdkCache.set(key, await initSdk(owner));
+  return sdkCache.get(key);
+}
+
+/**
+ * A swap computed against a CLMM or CP-Swap pool, amounts in raw units.
+ */
+interface V2SwapQuote {
+  inputMint: string;
+  outputMint: string;
+  outDecimals: number;
+  amountOut: BN;
+  minAmountOut: BN;
+  priceImpact: number; // in percent
+  build: () => Promise<any>; // builds the swap through the sdk
+}
+
+/**
+ * Computes a swap of an exact amount in against a concentrated liquidity pool.
+ * The swap crosses the initialized ticks of the pool, the tick arrays are fetched along.
+ */
+async function computeClmmSwap(
+  poolId: string,
+  inputMint: string,
+  amountIn: number,
+  slippageBps: number,
+  owner: Keypair
+): Promise<V2SwapQuote> {
+  const raydium = await getSdk(owner);
+  const [poolInfo] = await raydium.api.fetchPoolById({ ids: poolId });
+  const clmmInfo = await PoolUtils.fetchComputeClmmInfo({
+    connection: connection,
+    poolInfo,
+  });
+  const tickCache = await PoolUtils.fetchMultiplePoolTickArrays({
+    connection: connection,
+    poolKeys: [clmmInfo],
+  });
+  const [tokenIn, tokenOut] =
+    poolInfo.mintA.address === inputMint
+      ? [poolInfo.mintA, poolInfo.mintB]
+      : [poolInfo.mintB, poolInfo.mintA];
+  const amountInRaw = new BN(
+    new Decimal(amountIn).mul(10 ** tokenIn.decimals).toFixed(0)
+  );
+  const { amountOut, minAmountOut, priceImpact, remainingAccounts } =
+    PoolUtils.computeAmountOutFormat({
+      poolInfo: clmmInfo,
+      tickArrayCache: tickCache[poolId],
+      amountIn: amountInRaw,
+      tokenOut: tokenOut,
+      slippage: slippageBps / 10000,
+      epochInfo: await raydium.fetchEpochInfo(),
+    });
+  return {
+    inputMint: tokenIn.address,
+    outputMint: tokenOut.address,
+    outDecimals: tokenOut.decimals,
+    amountOut: amountOut.amount.raw,
+    minAmountOut: minAmountOut.amount.raw,
+    priceImpact: parseFloat(priceImpact.toFixed(4)),
+    build: () =>
+      raydium.clmm.swap({
+        poolInfo,
+        inputMint: tokenIn.address,
+        amountIn: amountInRaw,
+        amountOutMin: minAmountOut.amount.raw,
+        observationId: clmmInfo.observationId,
+        ownerInfo: { useSOLBalance: true }, // SOL is wrapped and unwrapped by the transaction
+        remainingAccounts,
+        txVersion: TxVersion.V0,
+      }),
+  };
+}
+
+/**
+ * Computes a swap of an exact amount in against a CP-Swap pool.
+ * The price impact compares the execution price, trade fee included, with the spot price of the reserves.
+ */
+async function computeCpmmSwap(
+  poolId: string,
+  inputMint: string,
+  amountIn: number,
+  slippageBps: number,
+  owner: Keypair
+): Promise<V2SwapQuote> {
+  const raydium = await getSdk(owner);
+  const [poolInfo] = await raydium.api.fetchPoolById({ ids: poolId });
+  const rpcData = await raydium.cpmm.getRpcPoolInfo(poolId, true);
+  const baseIn = poolInfo.mintA.address === inputMint;
+  const [tokenIn, tokenOut] = baseIn
+    ? [poolInfo.mintA, poolInfo.mintB]
+    : [poolInfo.mintB, poolInfo.mintA];
+  const [reserveIn, reserveOut] = baseIn
+    ? [rpcData.baseReserve, rpcData.quoteReserve]
+    : [rpcData.quoteReserve, rpcData.baseReserve];
+  const amountInRaw = new BN(
+    new Decimal(amountIn).mul(10 ** tokenIn.decimals).toFixed(0)
+  );
+  const swapResult = CurveCalculator.swap(
+    amountInRaw,
+    reserveIn,
+    reserveOut,
+    rpcData.configInfo.tradeFeeRate
+  );
+  const amountOut: BN = swapResult.destinationAmountSwapped;
+  const spotPrice = new Decimal(reserveOut.toString()).div(reserveIn.toString());
+  const executionPrice = new Decimal(amountOut.toString()).div(
+    amountInRaw.toString()
+  );
+  return {
+    inputMint: tokenIn.address,
+    outputMint: tokenOut.address,
+    outDecimals: tokenOut.decimals,
+    amountOut,
+    minAmountOut: amountOut.muln(10000 - slippageBps).divn(10000),
+    priceImpact: parseFloat(
+      new Decimal(1).sub(executionPrice.div(spotPrice)).mul(100).toFixed(4)
+    ),
+    build: () =>
+      raydium.cpmm.swap({
+        poolInfo,
+        swapResult,
+        slippage: slippageBps / 10000,
+        baseIn,
+        txVersion: TxVersion.V0,
+      }),
+  };
+}
+
+async function computeV2Swap(
+  pool: RaydiumPool,
+  inputMint: string,
+  amountIn: number,
+  options: SwapOptions,
+  owner: Keypair = wallet
+) {
+  const slippageBps = getSlippageBps(options, DEFAULT_SLIPPAGE_BPS);
+  if (pool.type === "clmm") {
+    return await computeClmmSwap(pool.id, inputMint, amountIn, slippageBps, owner);
+  }
+  if (pool.type === "cpmm") {
+    return await computeCpmmSwap(pool.id, inputMint, amountIn, slippageBps, owner);
+  }
+  throw new Error(`Not a CLMM or CP-Swap pool: ${pool.id} (${pool.type})`);
+}
+
+/**
+ * Quotes a swap of an exact amount in against a Raydium CLMM or CP-Swap pool.
+ * @param {RaydiumPool} pool - The pool and its type, as returned by fetchRaydiumPool.
+ * @param {string} inputMint - The mint to sell, one of the two mints of the pool.
+ * @param {number} amountIn - The amount of input token, in UI units.
+ * @param {SwapOptions} options - The slippage used for the minimum amount out.
+ * @returns {Promise<Object>} - The pool id, the amounts out in UI units and the price impact in percent.
+ */
+export async function quoteV2Swap(
+  pool: RaydiumPool,
+  inputMint: string,
+  amountIn: number,
+  options: SwapOptions = {}
+) {
+  const quote = await computeV2Swap(pool, inputMint, amountIn, options);
+  return {
+    poolId: pool.id,
+    amountOut: Number(quote.amountOut.toString()) / 10 ** quote.outDecimals,
+    minAmountOut: Number(quote.minAmountOut.toString()) / 10 ** quote.outDecimals,
+    priceImpact: quote.priceImpact,
+  };
+}
+
+/**
+ * Swaps an exact amount in through a Raydium CLMM or CP-Swap pool.
+ * The instructions come from raydium-sdk-v2, the priority fee, compute unit limit and
+ * executor are the ones of the AMM v4 swaps.
+ * @param {RaydiumPool} pool - The pool and its type, as returned by fetchRaydiumPool.
+ * @param {string} inputMint - The mint to sell, one of the two mints of the pool.
+ * @param {number} amountIn - The amount of input token, in UI units.
+ * @param {SwapOptions} options - Per-call options such as the transaction executor, the slippage and the maximum price impact.
+ * @param {Keypair} payer - The wallet that swaps, pays and signs, the configured wallet by default.
+ * @returns {Promise<SwapResult>} - The result of the swap.
+ * @throws {PriceImpactError} If the quoted price impact is above options.maxPriceImpact.
+ */
+export async function swapV2(
+  pool: RaydiumPool,
+  inputMint: string,
+  amountIn: number,
+  options: SwapOptions = {},
+  payer: Keypair = wallet
+): Promise<SwapResult> {
+  const timer = startSwapTimer();
+  const quote = await computeV2Swap(pool, inputMint, amountIn, options, payer);
+  checkPriceImpact("raydium", quote.priceImpact, options);
+  const { builder } = await quote.build();
+  const { instructions, endInstructions, signers, lookupTableAddress } =
+    builder.AllTxData;
+  // the compute budget is set below like for every other swap
+  const swapInstructions = [...instructions, ...endInstructions].filter(
+    (ix: any) => !ix.programId.equals(ComputeBudgetProgram.programId)
+  );
+  const lookupTables = [];
+  for (const address of lookupTableAddress) {
+    const { value } = await connection.getAddressLookupTable(
+      new PublicKey(address)
+    );
+    if (value) lookupTables.push(value);
+  }
+  let latestBlockhash = await connection.getLatestBlockhash();
+  const messageV0 = new TransactionMessage({
+    payerKey: payer.publicKey,
+    recentBlockhash: latestBlockhash.blockhash,
+    instructions: [
+      await getPriorityFeeInstruction(swapInstructions, options.urgency),
+      ...swapInstructions,
+    ],
+  }).compileToV0Message(lookupTables);
+
+  const transaction = await fitComputeUnitLimit(
+    new VersionedTransaction(messageV0)
+  );
+  const executor = resolveExecutor(options);
+  let attempts = 0,
+    res: any = null;
+  const maxAttempts = 3;
+
+  timer.submitStart = Date.now();
+  while (attempts < maxAttempts) {
+    attempts++;
+    res = await executor.submit(
+      transaction,
+      [payer, ...(signers as Keypair[])],
+      { latestBlockhash, urgency: options.urgency }
+    );
+    // a transaction executed on chain is not resent, even if it failed
+    if (res.simulation || res.landed || res.slot !== null) break;
+    console.log(`${executor.name} transaction failed: ${res.error}`);
+    if (attempts < maxAttempts) console.log(`Retry attempt ${attempts}`);
+    latestBlockhash = await connection.getLatestBlockhash();
+    transaction.message.recentBlockhash = latestBlockhash.blockhash;
+  }
+  timer.submitEnd = Date.now();
+  if (!res.landed && !res.simulation && res.slot === null) {
+    console.log("Transaction failed after maximum retry attempts");
+  }
+
+  const result = await buildSwapResult(
+    {
+      owner: payer.publicKey,
+      inputMint: quote.inputMint,
+      outputMint: quote.outputMint,
+      priceImpact: quote.priceImpact,
+      executor: executor.name,
+    },
+    res,
+    timer
+  );
+  printSwapResult(result);
+  if (result.status === "confirmed") {
+    console.log(
+      `https://dexscreener.com/solana/${pool.id}?maker=${payer.publicKey}`
+    );
+  }
+  return result;
+}
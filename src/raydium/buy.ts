@@ -1,28 +1,38 @@
-import { swap } from "./Pool/swap";
+import { swap, swapExact } from "./Pool/swap";
 import { program } from "commander";
-import { loadOrCreateKeypair_wallet } from "../helpers/util";
+import { getSigner } from "../helpers/keystore";
 import { wallet } from "../helpers/config";
-import { Keypair } from "@solana/web3.js";
 import { logger } from "../helpers/logger";
+import { wsol } from "./constants";
+import { exitOnPriceImpact } from "../transactions/swap_guard";
 
 let payer_keypair:any = null,
   token_address:any = null,
   sol:any = null,
+  amount:any = null,
+  quoteMint:string = wsol,
   cluster:any = null;
+let dryRun = false;
+let slippageBps: number | undefined, maxPriceImpact: number | undefined;
 program
-  .option("--payer <PATH_TO_SECRET_KEY>", "Specify the path to the secret key")
+  .option("--payer <WALLET_NAME>", "Specify the keystore wallet name")
   .option("--token <ADDRESS_TOKEN>", "Specify the token address")
   .option("--sol <NUMBER_OF_SOL>", "Specify the number of SOL")
+  .option("--amount <NUMBER_OF_TOKENS>", "Buy this exact number of tokens instead of spending --sol")
+  .option("--quote-mint <QUOTE_MINT>", "Pay with this token instead of SOL, e.g. USDC, --sol is then in this token")
   .option("--cluster <CLUSTER>", "Specify the cluster")
+  .option("--dry-run", "Simulate the swap and print the expected outcome without sending it")
+  .option("--slippage <BPS>", "Specify the slippage in basis points, 100 = 1%")
+  .option("--max-price-impact <PERCENT>", "Abort the swap before signing if the price impact is above this percentage")
   .option("-h, --help", "display help for command")
   .action((options) => {
     if (options.help) {
       logger.info(
-        "ts-node buy --token <ADDRESS_TOKEN> --sol <NUMBER_OF_SOL>"
+        "ts-node buy --token <ADDRESS_TOKEN> --sol <NUMBER_OF_SOL> | --amount <NUMBER_OF_TOKENS>"
       );
       process.exit(0);
     }
-    if (!options.token || !options.sol) {
+    if (!options.token || !options.sol === !options.amount) {
       console.error("❌ Missing required options");
       process.exit(1);
     }
@@ -31,7 +41,14 @@ program
     }
     token_address = options.token;
     sol = options.sol;
+    amount = options.amount ?? null;
+    if (options.quoteMint) quoteMint = options.quoteMint;
     cluster = options.cluster;
+    dryRun = !!options.dryRun;
+    slippageBps = options.slippage ? parseInt(options.slippage) : undefined;
+    maxPriceImpact = options.maxPriceImpact
+      ? parseFloat(options.maxPriceImpact)
+      : undefined;
   });
 program.parse();
 
@@ -41,17 +58,17 @@ program.parse();
  * @param {string} side - The side of the trade (buy/sell).
  * @param {string} address - The address of the token to trade.
  * @param {number} no_of_sol - The amount of SOL to trade.
- * @param {string} payer - The payer's keypair for the transaction.
+ * @param {number} no_of_tokens - The exact amount of tokens to buy instead, null to spend no_of_sol.
  * @returns {Promise<void>} - A promise that resolves when the swap is completed.
  */
-async function buy(side:string, address:string, no_of_sol:number, payer:Keypair) {
-  let payer_wallet = null;
-  if (payer_keypair !== null) {
-    payer_wallet = await loadOrCreateKeypair_wallet(payer_keypair);
-    await swap(side, address, no_of_sol, -1, payer_wallet, "trade");
+async function buy(side:string, address:string, no_of_sol:number, no_of_tokens:number | null) {
+  const payer_wallet = payer_keypair !== null ? getSigner(payer_keypair) : wallet;
+  const options = { dryRun, slippageBps, maxPriceImpact };
+  if (no_of_tokens !== null) {
+    await swapExact(side, address, "exactOut", no_of_tokens, payer_wallet, options, quoteMint);
   } else {
-    await swap(side, address, no_of_sol, -1, wallet, "trade");
+    await swap(side, address, no_of_sol, -1, payer_wallet, "trade", options, quoteMint);
   }
 }
 
-buy("buy", token_address, sol, payer_keypair);
+buy("buy", token_address, sol, amount === null ? null : parseFloat(amount)).catch(exitOnPriceImpact);
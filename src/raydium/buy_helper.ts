@@ -1,5 +1,7 @@
 import { Keypair } from "@solana/web3.js";
-import { swap } from "./Pool/swap";
+import { swap, swapExact } from "./Pool/swap";
+import { SwapOptions, SwapResult } from "../helpers/types";
+import { wsol } from "./constants";
 /**
  * Buys a specified amount of a token using a amount of sol.
  *
@@ -7,10 +9,26 @@ import { swap } from "./Pool/swap";
  * @param {string} address - The address of the token.
  * @param {number} no_of_sol - The number of SOL to be used for the trade.
  * @param {Keypair} payer - The payer of the transaction.
- * @returns {Promise<void>} - A promise that resolves when the trade is completed.
+ * @param {SwapOptions} options - Per-call options such as the transaction executor.
+ * @param {string} quoteMint - The mint the token is paired with, WSOL by default.
+ * @returns {Promise<SwapResult | null>} - The result of the trade, null if no pool was found.
  */
-export async function buy(side:string, address:string, no_of_sol:number, payer:Keypair) {
-  await swap(side, address, no_of_sol, -1, payer, "trade");
+export async function buy(side:string, address:string, no_of_sol:number, payer:Keypair, options:SwapOptions = {}, quoteMint:string = wsol): Promise<SwapResult | null> {
+  return await swap(side, address, no_of_sol, -1, payer, "trade", options, quoteMint);
+}
+
+/**
+ * Buys an exact amount of a token, spending at most the quoted SOL plus the slippage.
+ *
+ * @param {string} address - The address of the token.
+ * @param {number} no_of_tokens - The number of tokens to receive.
+ * @param {Keypair} payer - The payer of the transaction.
+ * @param {SwapOptions} options - Per-call options such as the transaction executor.
+ * @param {string} quoteMint - The mint the token is paired with, WSOL by default.
+ * @returns {Promise<SwapResult | null>} - The result of the trade, null if no pool was found.
+ */
+export async function buyExactTokens(address:string, no_of_tokens:number, payer:Keypair, options:SwapOptions = {}, quoteMint:string = wsol): Promise<SwapResult | null> {
+  return await swapExact("buy", address, "exactOut", no_of_tokens, payer, options, quoteMint);
 }
 
 export async function get_buy_transaction(
@@ -1,3 +1,4 @@
 export const wsol = "So11111111111111111111111111111111111111112";
 export const usdc = "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v";
 export const usdt =  "Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB"; // USDT
+export const amm_create_fee_destination = "7YttLkHDoNj9wyDur5pM1ejNaAvT9X4eqaYcHQqtj2G5"; // receives the AMM v4 pool creation fee
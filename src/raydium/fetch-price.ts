@@ -1,13 +1,29 @@
 import { initSdk } from "./raydium_config";
-import {fetchAMMPoolId} from "./Pool/fetch_pool";
+import {resolveRaydiumPool} from "./Pool/fetch_pool";
+import {ammReserveCache} from "./Pool/reserve_cache";
 import Decimal from "decimal.js";
 import {wsol} from "./constants";
-import { sol } from "@metaplex-foundation/js";
+import {getPoolEntry} from "../helpers/pool_registry";
 let sdkCache = { sdk: null, expiry: 0 };
-export async function getCurrentPriceInSOL(
-  tokenAddress:string
+/**
+ * Gets the price of a token in the quote token of its deepest Raydium pool with that quote,
+ * or of the pool pinned in the pool registry.
+ * AMM v4 and CP-Swap prices come from the reserves, CLMM prices from the current sqrt price.
+ * AMM v4 pools tracked by ammReserveCache are priced from the cache, without looking the pool up.
+ * @param {string} tokenAddress - The address of the token.
+ * @param {string} quoteMint - The mint the price is expressed in, WSOL by default.
+ * @returns {Promise<number | undefined>} The price of one token in quote tokens, undefined on error.
+ */
+export async function getCurrentPrice(
+  tokenAddress:string,
+  quoteMint:string = wsol
 ) {
   try {
+    // tracked pools are priced without rpc or api calls, the registered pool of the token first
+    const entry = getPoolEntry(tokenAddress, "raydium", quoteMint);
+    const trackedId = entry ? entry.poolId : ammReserveCache.findPool(tokenAddress, quoteMint);
+    const trackedPrice = trackedId ? ammReserveCache.getPrice(trackedId, tokenAddress) : null;
+    if (trackedPrice !== null) return trackedPrice;
     // Check if poolId is already set
     let raydium:any = null;
     if (sdkCache.sdk) {
@@ -16,47 +32,55 @@ export async function getCurrentPriceInSOL(
       raydium = await initSdk();
       sdkCache.sdk = raydium;
     }
-    let poolId = null;
-    poolId = await fetchAMMPoolId(tokenAddress);
-    
+    const pool = await resolveRaydiumPool(tokenAddress, quoteMint);
+    if (!pool) return undefined;
+    const poolId = pool.id;
+    if (pool.type === "clmm") {
+      // price of mintA in mintB, decimals applied
+      const clmmInfo = await raydium.clmm.getRpcClmmPoolInfo({ poolId });
+      const price = new Decimal(clmmInfo.currentPrice);
+      return clmmInfo.mintA.toBase58() === tokenAddress
+        ? price.toNumber()
+        : new Decimal(1).div(price).toNumber();
+    }
+    if (pool.type === "cpmm") {
+      // price of mintA in mintB, decimals applied
+      const cpmmInfo = await raydium.cpmm.getRpcPoolInfo(poolId);
+      return cpmmInfo.mintA.toBase58() === tokenAddress
+        ? cpmmInfo.poolPrice.toNumber()
+        : new Decimal(1).div(cpmmInfo.poolPrice).toNumber();
+    }
+
+    // pools tracked by the reserve cache are priced without rpc
+    const cachedPrice = ammReserveCache.getPrice(poolId, tokenAddress);
+    if (cachedPrice !== null) return cachedPrice;
     const res = await raydium.liquidity.getRpcPoolInfos([poolId]);
     const poolInfo = res[poolId];
 
     const baseMint = poolInfo.baseMint.toString();
-    const quoteMint = poolInfo.quoteMint.toString();
     const baseDecimals = new Decimal(poolInfo.baseDecimal.toString());
     const quoteDecimals = new Decimal(poolInfo.quoteDecimal.toString());
-    const solMintAddress = wsol;
-    //const solPrice = await getCurrentSolPrice();
-    let solReserve = null;
-    let tokenReserve = null;
-    let priceInSOL;
-
-    if (baseMint === solMintAddress) {
-      // baseMint is SOL, (this is pump token)
-      solReserve = new Decimal(poolInfo.baseReserve.toString()).div(
-        new Decimal(10).pow(baseDecimals)
-      );
-      tokenReserve = new Decimal(poolInfo.quoteReserve.toString()).div(
-        new Decimal(10).pow(quoteDecimals)
-      );
-      priceInSOL = solReserve.div(tokenReserve);
-    } else {
-      // Neither baseMint nor quoteMint is SOL, use the pool price directly
-      solReserve = new Decimal(poolInfo.quoteReserve.toString()).div(
-        new Decimal(10).pow(quoteDecimals)
-      );
-      tokenReserve = new Decimal(poolInfo.baseReserve.toString()).div(
-        new Decimal(10).pow(baseDecimals)
-      );
-      priceInSOL = poolInfo.poolPrice;
-    }
-    //console.log(`Current price of ${tokenAddress} in SOL: ${priceInSOL}`);
-    return priceInSOL;
+    const baseReserve = new Decimal(poolInfo.baseReserve.toString()).div(
+      new Decimal(10).pow(baseDecimals)
+    );
+    const quoteReserve = new Decimal(poolInfo.quoteReserve.toString()).div(
+      new Decimal(10).pow(quoteDecimals)
+    );
+    // the token can be either side of the pool
+    const price =
+      baseMint === tokenAddress
+        ? quoteReserve.div(baseReserve)
+        : baseReserve.div(quoteReserve);
+    return price.toNumber();
   } catch (e) {
     console.log(`Error when getting current price of ${tokenAddress} `, e);
   }
 }
+export async function getCurrentPriceInSOL(
+  tokenAddress:string
+):Promise<any> {
+  return await getCurrentPrice(tokenAddress, wsol);
+}
 export async function getCurrentSolPrice(){
     try{
         let raydium:any = null
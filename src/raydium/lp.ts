@@ -0,0 +1,163 @@
+import { PublicKey } from "@solana/web3.js";
+import { program } from "commander";
+import { createAmmPool, createMarketAndPool } from "./Pool/create_pool";
+import { createMarket, MARKET_SIZES } from "./Pool/create_market";
+import {
+  addLiquidity,
+  getLpPositions,
+  LpPosition,
+  removeLiquidity,
+  setLiquidityShare,
+} from "./Pool/lp_manager";
+import { logger } from "../helpers/logger";
+
+/**
+ * Prints an LP position, the fees and impermanent loss only when its deposits are known.
+ * @param {LpPosition} position - The position to print.
+ */
+function printLpPosition(position: LpPosition) {
+  logger.info(`Pool ${position.poolId}`);
+  logger.info(`  LP tokens: ${position.lpAmount} (${position.share.toFixed(4)}% of the pool)`);
+  logger.info(`  Underlying: ${position.baseAmount} ${position.baseMint}`);
+  logger.info(`              ${position.quoteAmount} ${position.quoteMint}`);
+  logger.info(`  Value: ${position.value} (quote token)`);
+  if (position.feesValue !== null) {
+    logger.info(`  Accrued fees: ${position.feesBase} base, ${position.feesQuote} quote, worth ${position.feesValue}`);
+  }
+  if (position.impermanentLoss !== null) {
+    logger.info(`  Impermanent loss: ${position.impermanentLoss.toFixed(4)}% against holding ${position.holdValue}`);
+  }
+}
+
+/**
+ * Reads the market size options, explicit queue lengths override the --market-size preset.
+ * @param {any} options - The command options.
+ * @returns {MarketQueueLengths} The queue lengths of the market.
+ */
+function getMarketSize(options: any) {
+  const preset = MARKET_SIZES[options.marketSize as keyof typeof MARKET_SIZES];
+  if (!preset) throw new Error(`Unknown market size ${options.marketSize}`);
+  return {
+    eventQueueLength: options.eventQueueLength
+      ? parseInt(options.eventQueueLength)
+      : preset.eventQueueLength,
+    requestQueueLength: options.requestQueueLength
+      ? parseInt(options.requestQueueLength)
+      : preset.requestQueueLength,
+    orderbookLength: options.orderbookLength
+      ? parseInt(options.orderbookLength)
+      : preset.orderbookLength,
+  };
+}
+
+program
+  .command("create-market")
+  .description("Create the OpenBook market an AMM v4 pool is created on")
+  .requiredOption("--token <ADDRESS_TOKEN>", "Specify the base token")
+  .option("--quote-mint <QUOTE_MINT>", "Specify the quote token, WSOL by default")
+  .option("--lot-size <AMOUNT>", "Specify the minimum order size in base token", "1")
+  .option("--tick-size <PRICE>", "Specify the minimum price step in quote token", "0.000001")
+  .option("--market-size <SIZE>", "Specify the queue sizes: small, medium or large", "small")
+  .option("--event-queue-length <LENGTH>", "Override the number of events of the event queue")
+  .option("--request-queue-length <LENGTH>", "Override the number of requests of the request queue")
+  .option("--orderbook-length <LENGTH>", "Override the number of orders of each order book side")
+  .action(async (options: any) => {
+    const res = await createMarket(
+      options.token,
+      options.quoteMint,
+      parseFloat(options.lotSize),
+      parseFloat(options.tickSize),
+      getMarketSize(options)
+    );
+    if (res) logger.info(`Market created: ${res.marketId}`);
+  });
+
+program
+  .command("create")
+  .description("Create an AMM v4 pool with its initial liquidity, and its OpenBook market unless --market is given")
+  .option("--market <MARKET_ID>", "Specify the OpenBook market id")
+  .option("--token <ADDRESS_TOKEN>", "Specify the base token when the market is created")
+  .option("--quote-mint <QUOTE_MINT>", "Specify the quote token when the market is created, WSOL by default")
+  .option("--market-size <SIZE>", "Specify the queue sizes of the created market: small, medium or large", "small")
+  .requiredOption("--base-amount <AMOUNT>", "Specify the amount of base token")
+  .requiredOption("--quote-amount <AMOUNT>", "Specify the amount of quote token")
+  .option("--start-time <UNIX_TIME>", "Open the pool for swaps at this time, in seconds")
+  .action(async (options: any) => {
+    if (!options.market === !options.token) {
+      console.error("❌ Specify either --market or --token");
+      process.exit(1);
+    }
+    const startTime = options.startTime ? parseInt(options.startTime) : undefined;
+    const res = options.market
+      ? await createAmmPool(
+          options.market,
+          parseFloat(options.baseAmount),
+          parseFloat(options.quoteAmount),
+          startTime
+        )
+      : await createMarketAndPool(
+          options.token,
+          parseFloat(options.baseAmount),
+          parseFloat(options.quoteAmount),
+          options.quoteMint,
+          getMarketSize(options),
+          startTime
+        );
+    if (res) logger.info(`Pool created: ${res.poolId}`);
+  });
+
+program
+  .command("add")
+  .description("Add liquidity, the other side is taken at the pool ratio")
+  .requiredOption("--pool <POOL_ID>", "Specify the pool id")
+  .requiredOption("--amount <AMOUNT>", "Specify the amount of the fixed side")
+  .option("--mint <MINT>", "Specify the mint of the fixed side, the base mint by default")
+  .option("--slippage <BPS>", "Specify how much more of the other side may be taken, 100 = 1%")
+  .action(async (options: any) => {
+    await addLiquidity(
+      options.pool,
+      parseFloat(options.amount),
+      options.mint,
+      options.slippage ? parseInt(options.slippage) : undefined
+    );
+  });
+
+program
+  .command("remove")
+  .description("Remove a percentage of the liquidity")
+  .requiredOption("--pool <POOL_ID>", "Specify the pool id")
+  .option("--percentage <PERCENT>", "Specify the percentage of the LP tokens to remove", "100")
+  .action(async (options: any) => {
+    await removeLiquidity(options.pool, parseFloat(options.percentage) / 100);
+  });
+
+program
+  .command("rebalance")
+  .description("Add or remove liquidity so the position is a share of the pool")
+  .requiredOption("--pool <POOL_ID>", "Specify the pool id")
+  .requiredOption("--share <PERCENT>", "Specify the percentage of the pool to hold")
+  .option("--slippage <BPS>", "Specify the slippage of an addition, 100 = 1%")
+  .action(async (options: any) => {
+    const res = await setLiquidityShare(
+      options.pool,
+      parseFloat(options.share) / 100,
+      options.slippage ? parseInt(options.slippage) : undefined
+    );
+    if (res === null) logger.info("The position already has this share");
+  });
+
+program
+  .command("positions")
+  .description("Report the LP positions, their fees and impermanent loss")
+  .option("--owner <ADDRESS>", "Specify the wallet, the configured wallet by default")
+  .option("--pool <POOL_ID>", "Also report the position in this pool")
+  .action(async (options: any) => {
+    const positions = await getLpPositions(
+      options.owner ? new PublicKey(options.owner) : undefined,
+      options.pool ? [options.pool] : []
+    );
+    if (positions.length === 0) logger.info("No LP positions");
+    positions.forEach(printLpPosition);
+  });
+
+program.parse();
@@ -4,14 +4,20 @@ import {
   parseTokenAccountResp,
 } from "@raydium-io/raydium-sdk-v2";
 import { TOKEN_PROGRAM_ID } from "@solana/spl-token";
+import { Keypair } from "@solana/web3.js";
 import { wallet, connection } from "../helpers/config";
 
 const txVersion = TxVersion.V0;
 const cluster = "mainnet";
-export const initSdk = async () => {
+/**
+ * Loads the Raydium sdk.
+ * @param {Keypair} owner - The wallet the sdk builds transactions for, the configured wallet by default.
+ * @returns {Promise<Raydium>} The sdk.
+ */
+export const initSdk = async (owner: Keypair = wallet) => {
 
   const raydium = await Raydium.load({
-    owner: wallet,
+    owner: owner,
     connection: connection,
     cluster: cluster,
     disableFeatureCheck: true,
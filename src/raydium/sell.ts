@@ -1,28 +1,44 @@
-import { swap } from "./Pool/swap";
+import { swap, swapExact } from "./Pool/swap";
 import { program } from "commander";
-import { loadOrCreateKeypair_wallet } from "../helpers/util";
+import { getSigner } from "../helpers/keystore";
 import { wallet } from "../helpers/config";
 import { Keypair } from "@solana/web3.js";
 import { logger } from "../helpers/logger";
+import { wsol } from "./constants";
+import { exitOnPriceImpact } from "../transactions/swap_guard";
 
 let payer_keypair:any = null,
   token_address:any = null,
   percentage:any = null,
+  amount:any = null,
+  sol:any = null,
+  quoteMint:string = wsol,
   cluster = null;
+let dryRun = false;
+let slippageBps: number | undefined, maxPriceImpact: number | undefined;
 program
-  .option("--payer <PATH_TO_SECRET_KEY>", "Specify the path to the secret key")
+  .option("--payer <WALLET_NAME>", "Specify the keystore wallet name")
   .option("--token <ADDRESS_TOKEN>", "Specify the token address")
   .option("--percentage <SELL_PERCENTAGE>", "Specify the percentage")
+  .option("--amount <NUMBER_OF_TOKENS>", "Sell this exact number of tokens instead of a percentage")
+  .option("--sol <NUMBER_OF_SOL>", "Sell as many tokens as needed to receive this exact number of SOL")
+  .option("--quote-mint <QUOTE_MINT>", "Sell for this token instead of SOL, e.g. USDC, --sol is then in this token")
   .option("--cluster <CLUSTER>", "Specify the cluster")
+  .option("--dry-run", "Simulate the swap and print the expected outcome without sending it")
+  .option("--slippage <BPS>", "Specify the slippage in basis points, 100 = 1%")
+  .option("--max-price-impact <PERCENT>", "Abort the swap before signing if the price impact is above this percentage")
   .option("-h, --help", "display help for command")
   .action((options:any) => {
     if (options.help) {
       logger.info(
-        "ts-node sell --token <ADDRESS_TOKEN> --percentage <SELL_PERCENTAGE>"
+        "ts-node sell --token <ADDRESS_TOKEN> --percentage <SELL_PERCENTAGE> | --amount <NUMBER_OF_TOKENS> | --sol <NUMBER_OF_SOL>"
       );
       process.exit(0);
     }
-    if (!options.token || !options.percentage) {
+    const sizes = [options.percentage, options.amount, options.sol].filter(
+      (size) => size !== undefined
+    );
+    if (!options.token || sizes.length !== 1) {
       console.error("❌ Missing required options");
       process.exit(1);
     }
@@ -30,8 +46,16 @@ program
       payer_keypair = options.payer;
     }
     token_address = options.token;
-    percentage = options.percentage;
+    percentage = options.percentage ?? null;
+    amount = options.amount ?? null;
+    sol = options.sol ?? null;
+    if (options.quoteMint) quoteMint = options.quoteMint;
     cluster = options.cluster;
+    dryRun = !!options.dryRun;
+    slippageBps = options.slippage ? parseInt(options.slippage) : undefined;
+    maxPriceImpact = options.maxPriceImpact
+      ? parseFloat(options.maxPriceImpact)
+      : undefined;
   });
 program.parse();
 
@@ -45,15 +69,22 @@ program.parse();
  * @returns {Promise<void>} - A promise that resolves when the swap transaction is completed.
  */
 export async function sell(side:string, address:string, sell_percentage:number, payer:Keypair) {
-  await swap(side, address, -1, sell_percentage, payer, "trade");
+  await swap(side, address, -1, sell_percentage, payer, "trade", { dryRun, slippageBps, maxPriceImpact }, quoteMint);
 }
 export async function main() {
   let payer_wallet = null;
   if (payer_keypair !== null) {
-    payer_wallet = await loadOrCreateKeypair_wallet(payer_keypair); // specified wallet by user in command
-    sell("sell", token_address, percentage, payer_wallet);
+    payer_wallet = getSigner(payer_keypair); // specified wallet by user in command
   } else {
-    sell("sell", token_address, percentage, wallet); // default pre-defined wallet
+    payer_wallet = wallet; // default pre-defined wallet
+  }
+  const options = { dryRun, slippageBps, maxPriceImpact };
+  if (amount !== null) {
+    await swapExact("sell", token_address, "exactIn", parseFloat(amount), payer_wallet, options, quoteMint);
+  } else if (sol !== null) {
+    await swapExact("sell", token_address, "exactOut", parseFloat(sol), payer_wallet, options, quoteMint);
+  } else {
+    await sell("sell", token_address, parseFloat(percentage), payer_wallet);
   }
 }
-main();
+main().catch(exitOnPriceImpact);
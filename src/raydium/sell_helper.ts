@@ -1,5 +1,7 @@
 import { Keypair } from "@solana/web3.js";
-import { swap } from "./Pool/swap";
+import { swap, swapExact } from "./Pool/swap";
+import { SwapOptions, SwapResult } from "../helpers/types";
+import { wsol } from "./constants";
 
 /**
  * Sells a specified percentage of a token.
@@ -7,10 +9,36 @@ import { swap } from "./Pool/swap";
  * @param {string} address - The address of the token.
  * @param {number} sell_percentage - The percentage of the token to sell.
  * @param {string} payer - The payer of the transaction.
- * @returns {Promise<void>} - A promise that resolves when the sell operation is complete.
+ * @param {SwapOptions} options - Per-call options such as the transaction executor.
+ * @param {string} quoteMint - The mint the token is paired with, WSOL by default.
+ * @returns {Promise<SwapResult | null>} - The result of the sell operation, null if no pool was found.
  */
-export async function sell(side:string, address:string, sell_percentage:number, payer:Keypair) {
-  await swap(side, address, -1, sell_percentage, payer, "trade");
+export async function sell(side:string, address:string, sell_percentage:number, payer:Keypair, options:SwapOptions = {}, quoteMint:string = wsol): Promise<SwapResult | null> {
+  return await swap(side, address, -1, sell_percentage, payer, "trade", options, quoteMint);
+}
+/**
+ * Sells an exact amount of a token.
+ * @param {string} address - The address of the token.
+ * @param {number} no_of_tokens - The number of tokens to sell.
+ * @param {Keypair} payer - The payer of the transaction.
+ * @param {SwapOptions} options - Per-call options such as the transaction executor.
+ * @param {string} quoteMint - The mint the token is paired with, WSOL by default.
+ * @returns {Promise<SwapResult | null>} - The result of the sell operation, null if no pool was found.
+ */
+export async function sellExactTokens(address:string, no_of_tokens:number, payer:Keypair, options:SwapOptions = {}, quoteMint:string = wsol): Promise<SwapResult | null> {
+  return await swapExact("sell", address, "exactIn", no_of_tokens, payer, options, quoteMint);
+}
+/**
+ * Sells as few tokens as needed to receive an exact amount of SOL, at most the quoted amount plus the slippage.
+ * @param {string} address - The address of the token.
+ * @param {number} no_of_sol - The number of SOL to receive.
+ * @param {Keypair} payer - The payer of the transaction.
+ * @param {SwapOptions} options - Per-call options such as the transaction executor.
+ * @param {string} quoteMint - The mint the token is paired with, WSOL by default.
+ * @returns {Promise<SwapResult | null>} - The result of the sell operation, null if no pool was found.
+ */
+export async function sellForExactSol(address:string, no_of_sol:number, payer:Keypair, options:SwapOptions = {}, quoteMint:string = wsol): Promise<SwapResult | null> {
+  return await swapExact("sell", address, "exactOut", no_of_sol, payer, options, quoteMint);
 }
 export async function get_sell_transaction(side:string, tokenAddr:string, payer_wallet:Keypair) {
   const innerTransaction = await swap(
@@ -0,0 +1,258 @@
+import { PublicKey, SystemProgram } from "@solana/web3.js";
+import { connection } from "../../helpers/config";
+import { logger } from "../../helpers/logger";
+
+const RAYDIUM_AMM_AUTHORITY = "5Q544fKrFoe6tsEbD7S8EmxGTJYAKtTVhAW5Q5pge4j1";
+const RAYDIUM_CPMM_AUTHORITY = "GpMZbSM2GgvTKHJirzeGfMFoaZ8UR2ZPPm6RDzKrhj7w";
+const PUMP_FUN_PROGRAM = new PublicKey("6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P");
+const SIGNATURE_PAGES = 3; // pages of 1000 signatures searched for the creation of a mint
+const FUNDER_SIGNATURE_PAGES = 2; // pages of 1000 signatures searched for the funding of a holder
+
+// owners whose balance is liquidity or burned, not held by a trader
+const KNOWN_OWNERS: { [address: string]: string } = {
+  [RAYDIUM_AMM_AUTHORITY]: "Raydium AMM v4 authority",
+  [RAYDIUM_CPMM_AUTHORITY]: "Raydium CPMM authority",
+  "1nc1nerator11111111111111111111111111111111": "burn address",
+  [SystemProgram.programId.toBase58()]: "burn address",
+};
+
+export interface Holder {
+  owner: string;
+  tokenAccount: string;
+  amount: number;
+  percent: number; // of the circulating supply
+  funder: string | null; // first wallet that sent SOL to the owner, null if unknown
+}
+
+export interface ExcludedHolder {
+  owner: string;
+  tokenAccount: string;
+  amount: number;
+  reason: string;
+}
+
+/**
+ * Wallets funded from the same source, a likely sign of one insider behind them.
+ */
+export interface HolderCluster {
+  funder: string;
+  wallets: string[];
+  percent: number;
+}
+
+/**
+ * Concentration of a token among its largest holders.
+ * Percents are of the circulating supply, the supply minus the excluded accounts.
+ */
+export interface HolderConcentration {
+  mint: string;
+  supply: number;
+  circulatingSupply: number;
+  topN: number;
+  topConcentration: number; // percent held by the topN largest holders
+  holders: Holder[];
+  excluded: ExcludedHolder[];
+}
+
+/**
+ * Concentration of a token with the holdings of its creator and of the wallets funded from the same source.
+ */
+export interface HolderReport extends HolderConcentration {
+  creator: string | null;
+  creatorPercent: number;
+  clusters: HolderCluster[];
+  clusteredPercent: number; // percent held by the wallets of every cluster
+}
+
+/**
+ * Tells why the owner of a token account does not count as a holder.
+ * @param {PublicKey} owner - The owner of the token account.
+ * @param {PublicKey} bondingCurve - The pump.fun bonding curve of the mint.
+ * @returns {string | null} The reason, null for a holder.
+ */
+function getExclusionReason(owner: PublicKey, bondingCurve: PublicKey) {
+  const address = owner.toBase58();
+  if (KNOWN_OWNERS[address]) return KNOWN_OWNERS[address];
+  if (owner.equals(bondingCurve)) return "pump.fun bonding curve";
+  // pool vaults of Orca, Meteora and the other programs are owned by a PDA
+  if (!PublicKey.isOnCurve(owner.toBytes())) return "program owned";
+  return null;
+}
+
+/**
+ * Finds the signature of the first transaction of an address.
+ * @param {PublicKey} address - The address.
+ * @param {number} pages - How many pages of 1000 signatures are searched, newest first.
+ * @returns {Promise<string | null>} The signature, null if there is none or it is older than the pages searched.
+ */
+async function findFirstSignature(address: PublicKey, pages: number) {
+  let oldest: string | null = null;
+  for (let page = 0; page < pages; page++) {
+    const signatures = await connection.getSignaturesForAddress(address, {
+      before: oldest ?? undefined,
+      limit: 1000,
+    });
+    if (signatures.length === 0) return oldest;
+    oldest = signatures[signatures.length - 1].signature;
+    if (signatures.length < 1000) return oldest;
+  }
+  return null;
+}
+
+/**
+ * Finds the fee payer of the first transaction of an address.
+ * @param {PublicKey} address - The address.
+ * @param {number} pages - How many pages of 1000 signatures are searched, newest first.
+ * @returns {Promise<string | null>} The fee payer, null if the first transaction is older than the pages searched.
+ */
+async function findFirstSigner(address: PublicKey, pages: number) {
+  const signature = await findFirstSignature(address, pages);
+  if (!signature) return null;
+  const tx = await connection.getParsedTransaction(signature, { maxSupportedTransactionVersion: 0 });
+  return tx ? tx.transaction.message.accountKeys[0].pubkey.toBase58() : null;
+}
+
+/**
+ * Finds the wallet that funded a wallet, the sender of the first SOL transfer in its first transaction.
+ * @param {string} wallet - The wallet.
+ * @returns {Promise<string | null>} The funder, null if it was not found or the first transaction is older than FUNDER_SIGNATURE_PAGES.
+ */
+async function findFunder(wallet: string) {
+  const signature = await findFirstSignature(new PublicKey(wallet), FUNDER_SIGNATURE_PAGES);
+  if (!signature) return null;
+  const tx = await connection.getParsedTransaction(signature, { maxSupportedTransactionVersion: 0 });
+  if (!tx) return null;
+  const instructions: any[] = [
+    ...tx.transaction.message.instructions,
+    ...(tx.meta?.innerInstructions || []).flatMap((inner) => inner.instructions),
+  ];
+  const transfer = instructions.find(
+    (ix) =>
+      ix.program === "system" &&
+      (ix.parsed?.type === "transfer" || ix.parsed?.type === "createAccount") &&
+      (ix.parsed.info.destination || ix.parsed.info.newAccount) === wallet
+  );
+  return transfer ? transfer.parsed.info.source : null;
+}
+
+/**
+ * Computes the concentration of the largest holders of a token, on any venue, without the funder and creator lookups.
+ * Pool vaults, the pump.fun bonding curve and burn addresses are left out.
+ * @param {string} tokenAddress - The token mint.
+ * @param {number} topN - How many of the largest holders make the concentration, at most 20.
+ * @returns {Promise<HolderConcentration>} The concentration, the holders with no funder yet, and the excluded accounts.
+ */
+export async function getHolderConcentration(
+  tokenAddress: string,
+  topN: number = 10
+): Promise<HolderConcentration> {
+  const mint = new PublicKey(tokenAddress);
+  const [bondingCurve] = PublicKey.findProgramAddressSync(
+    [Buffer.from("bonding-curve"), mint.toBuffer()],
+    PUMP_FUN_PROGRAM
+  );
+  const [supplyInfo, largest] = await Promise.all([
+    connection.getTokenSupply(mint),
+    connection.getTokenLargestAccounts(mint),
+  ]);
+  const supply = supplyInfo.value.uiAmount || 0;
+  const accounts = largest.value.filter((account) => (account.uiAmount || 0) > 0);
+  const parsed = await connection.getMultipleParsedAccounts(accounts.map((account) => account.address));
+
+  const holders: Holder[] = [];
+  const excluded: ExcludedHolder[] = [];
+  accounts.forEach((account, i) => {
+    const data: any = parsed.value[i]?.data;
+    const owner = data?.parsed?.info?.owner;
+    if (!owner) return;
+    const amount = account.uiAmount || 0;
+    const reason = getExclusionReason(new PublicKey(owner), bondingCurve);
+    if (reason) {
+      excluded.push({ owner, tokenAccount: account.address.toBase58(), amount, reason });
+    } else {
+      holders.push({ owner, tokenAccount: account.address.toBase58(), amount, percent: 0, funder: null });
+    }
+  });
+
+  const circulatingSupply = supply - excluded.reduce((sum, holder) => sum + holder.amount, 0);
+  const percentOf = (amount: number) => (circulatingSupply > 0 ? (amount / circulatingSupply) * 100 : 0);
+  holders.forEach((holder) => (holder.percent = percentOf(holder.amount)));
+
+  return {
+    mint: tokenAddress,
+    supply,
+    circulatingSupply,
+    topN,
+    topConcentration: holders.slice(0, topN).reduce((sum, holder) => sum + holder.percent, 0),
+    holders,
+    excluded,
+  };
+}
+
+/**
+ * Analyzes the largest holders of a token, on any venue.
+ * Pool vaults, the pump.fun bonding curve and burn addresses are left out,
+ * the remaining holders are grouped by the wallet that funded them.
+ * @param {string} tokenAddress - The token mint.
+ * @param {number} topN - How many of the largest holders make the concentration, at most 20.
+ * @param {HolderConcentration} concentration - The concentration if it was computed already.
+ * @returns {Promise<HolderReport>} The concentration, the creator holdings and the funding clusters.
+ */
+export async function getHolderReport(
+  tokenAddress: string,
+  topN: number = 10,
+  concentration?: HolderConcentration
+): Promise<HolderReport> {
+  const mint = new PublicKey(tokenAddress);
+  const base = concentration || (await getHolderConcentration(tokenAddress, topN));
+  // copies, the concentration may be shared with other readers
+  const holders: Holder[] = base.holders.map((holder) => ({ ...holder }));
+
+  const [creator, funders] = await Promise.all([
+    findFirstSigner(mint, SIGNATURE_PAGES).catch(() => null),
+    Promise.all(holders.map((holder) => findFunder(holder.owner).catch(() => null))),
+  ]);
+  holders.forEach((holder, i) => (holder.funder = funders[i]));
+
+  const byFunder: Map<string, Holder[]> = new Map();
+  for (const holder of holders) {
+    if (!holder.funder) continue;
+    byFunder.set(holder.funder, [...(byFunder.get(holder.funder) || []), holder]);
+  }
+  const clusters: HolderCluster[] = [...byFunder.entries()]
+    // a single wallet funded by the creator is an insider too
+    .filter(([funder, wallets]) => wallets.length > 1 || funder === creator)
+    .map(([funder, wallets]) => ({
+      funder,
+      wallets: wallets.map((wallet) => wallet.owner),
+      percent: wallets.reduce((sum, wallet) => sum + wallet.percent, 0),
+    }))
+    .sort((a, b) => b.percent - a.percent);
+
+  const creatorHolding = holders.find((holder) => holder.owner === creator);
+  return {
+    ...base,
+    holders,
+    creator,
+    creatorPercent: creatorHolding ? creatorHolding.percent : 0,
+    clusters,
+    clusteredPercent: clusters.reduce((sum, cluster) => sum + cluster.percent, 0),
+  };
+}
+
+/**
+ * Prints a holder report.
+ * @param {HolderReport} report - The report to print.
+ */
+export function printHolderReport(report: HolderReport) {
+  logger.info(`${report.mint}: circulating supply ${report.circulatingSupply} of ${report.supply}`);
+  logger.info(`  Top ${report.topN} holders: ${report.topConcentration.toFixed(2)}%`);
+  logger.info(`  Creator ${report.creator || "unknown"}: ${report.creatorPercent.toFixed(2)}%`);
+  report.holders.forEach((holder) =>
+    logger.info(`  ${holder.owner} ${holder.percent.toFixed(2)}% (funded by ${holder.funder || "unknown"})`)
+  );
+  report.excluded.forEach((holder) => logger.info(`  excluded ${holder.owner} ${holder.amount} (${holder.reason})`));
+  report.clusters.forEach((cluster) =>
+    logger.info(`  cluster funded by ${cluster.funder}: ${cluster.wallets.length} wallets, ${cluster.percent.toFixed(2)}%`)
+  );
+}
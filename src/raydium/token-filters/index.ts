@@ -1,4 +1,5 @@
 export * from "./lp-burn";
 export * from "./marketcap";
 export * from "./pool-sol";
-export * from "./volume";
\ No newline at end of file
+export * from "./volume";
+export * from "./holders";
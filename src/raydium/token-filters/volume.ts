@@ -1,21 +1,28 @@
 const fetch = require('node-fetch');
 import {fetchAMMPoolId} from "../Pool/fetch_pool";
+
+const MAX_ATTEMPTS = 3;
+
+/**
+ * Fetches the day, week and month statistics of the AMM pool of a token from the Raydium API.
+ * @param {string} tokenAddress - The token address.
+ * @returns {Promise<any>} The pool info of the API.
+ * @throws {Error} If the API did not answer successfully after MAX_ATTEMPTS attempts.
+ */
+async function fetchPoolStats(tokenAddress:string){
+    const poolId = await fetchAMMPoolId(tokenAddress);
+    for(let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++){
+        const response = await( await fetch(`https://api-v3.raydium.io/pools/info/ids?ids=${poolId}`)).json();
+        if(response.success && response.data[0]) return response.data[0];
+        console.log(`The response was not successful when getting the volume, attempt ${attempt}`)
+    }
+    throw new Error(`Raydium API did not return the pool ${poolId}`);
+}
+
 export async function getDayVolume(tokenAddress:string){
     try{
-        const poolId = await fetchAMMPoolId(tokenAddress);
-        let response = await( await fetch(`https://api-v3.raydium.io/pools/info/ids?ids=${poolId}`)).json();
-        let dayVolume = 0;
-        response.success = false;
-        while(!response.success){
-            console.log("The response was not successful when getting day volume, trying again")
-            response = await( await fetch(`https://api-v3.raydium.io/pools/info/ids?ids=${poolId}`)).json();
-            if(response.success) dayVolume = response.data[0].day.volume
-        }
+        const dayVolume = (await fetchPoolStats(tokenAddress)).day.volume;
         console.log(dayVolume)
-        if(dayVolume !== 0) return dayVolume;
-        else{
-            dayVolume = response.data[0].day.volume
-        }
         return dayVolume;
     }catch(e){
         console.log("Error getting 24h volume: ", e)
@@ -23,45 +30,22 @@ export async function getDayVolume(tokenAddress:string){
 }
 export async function getWeekVolume(tokenAddress:string){
     try{
-        const poolId = await fetchAMMPoolId(tokenAddress);
-        let response = await( await fetch(`https://api-v3.raydium.io/pools/info/ids?ids=${poolId}`)).json();
-        let weekVolume = 0;
-        while(!response.success){
-            console.log("The response was not successful when getting week volume, trying again")
-            response = await( await fetch(`https://api-v3.raydium.io/pools/info/ids?ids=${poolId}`)).json();
-            if(response.success) weekVolume = response.data[0].week.volume
-        }
+        const weekVolume = (await fetchPoolStats(tokenAddress)).week.volume;
         console.log(weekVolume);
-        if(weekVolume !== 0) return weekVolume;
-        else{
-            weekVolume = response.data[0].week.volume
-        }
-
         return weekVolume;
     }catch(e){
-        console.log("Error getting 24h volume: ", e)
+        console.log("Error getting week volume: ", e)
     }
 }
 
 export async function getMonthVolume(tokenAddress:string){
     try{
-        const poolId = await fetchAMMPoolId(tokenAddress);
-        let response = await( await fetch(`https://api-v3.raydium.io/pools/info/ids?ids=${poolId}`)).json();
-        let monthVolume = 0;
-        while(!response.success){
-            console.log("The response was not successful when getting month volume, trying again")
-            response = await( await fetch(`https://api-v3.raydium.io/pools/info/ids?ids=${poolId}`)).json();
-            if(response.success) monthVolume = response.data[0].month.volume
-        }
+        const monthVolume = (await fetchPoolStats(tokenAddress)).month.volume;
         console.log(monthVolume);
-        if(monthVolume !== 0) return monthVolume;
-        else{
-            monthVolume = response.data[0].month.volume
-        }
         return monthVolume;
     }catch(e){
-        console.log("Error getting 24h volume: ", e)
+        console.log("Error getting month volume: ", e)
     }
 }
 
-//getMonthVolume("GiMsMKgMq3cX3PJwPZCxh6CsrsVTc5P975eeAMPLpump");
\ No newline at end of file
+//getMonthVolume("GiMsMKgMq3cX3PJwPZCxh6CsrsVTc5P975eeAMPLpump");
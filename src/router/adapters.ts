@@ -0,0 +1,241 @@
+import { PublicKey } from "@solana/web3.js";
+import { connection, wallet } from "../helpers/config";
+import { getSPLTokenBalance } from "../helpers/check_balance";
+import { getDecimals } from "../helpers/util";
+import { SwapOptions, SwapResult } from "../helpers/types";
+import { getSlippageBps } from "../transactions/swap_guard";
+import {
+  swap as raydiumSwap,
+  quoteSwap as raydiumQuote,
+} from "../raydium/Pool/swap";
+import { swap as orcaSwap, quoteSwap as orcaQuote } from "../orca/Pool/swap";
+import {
+  swap as meteoraSwap,
+  quoteSwap as meteoraQuote,
+} from "../meteora/Pool/swap";
+import {
+  buy as pumpfunBuy,
+  sell as pumpfunSell,
+  quote as pumpfunQuote,
+} from "../pumpfunsdk/pumpdotfun-sdk/src/tools";
+import { getQuote, executeSwap } from "../jupiter/swap/swap-helper";
+
+export const WSOL_MINT = "So11111111111111111111111111111111111111112";
+const JUPITER_SLIPPAGE_BPS = 100;
+
+export type VenueName = "raydium" | "orca" | "meteora" | "pumpfun" | "jupiter";
+
+/**
+ * Quote of one venue, amounts in UI units.
+ */
+export interface VenueQuote {
+  venue: VenueName;
+  inputMint: string;
+  outputMint: string;
+  inAmount: number;
+  outAmount: number; // after the pool fees
+  minOutAmount: number | null;
+  priceImpact: number | null; // in percent
+  poolId: string | null;
+  networkFee: number; // estimated base fee, priority fee and tip in SOL
+  netOutAmount: number; // outAmount less the network fee, counted in the output token
+  route?: any; // venue data reused at execution, e.g. the jupiter quote response
+}
+
+export type AdapterQuote = Pick<
+  VenueQuote,
+  "outAmount" | "minOutAmount" | "priceImpact" | "poolId" | "route"
+>;
+
+/**
+ * A venue the router can quote and swap through.
+ */
+export interface VenueAdapter {
+  readonly name: VenueName;
+  readonly computeUnits: number; // typical units of a swap, used to price the priority fee
+  quote(
+    inputMint: string,
+    outputMint: string,
+    amount: number,
+    options: SwapOptions
+  ): Promise<AdapterQuote | null>;
+  execute(quote: VenueQuote, options: SwapOptions): Promise<SwapResult | null>;
+}
+
+/**
+ * Maps a mint pair to the buy/sell side of the SOL paired venues.
+ * @param {string} inputMint - The mint to sell.
+ * @param {string} outputMint - The mint to buy.
+ * @returns {{ side: string, token: string } | null} The side and the non-SOL token, null if the pair has no SOL leg.
+ */
+export function toSide(inputMint: string, outputMint: string) {
+  if (inputMint === WSOL_MINT && outputMint !== WSOL_MINT) {
+    return { side: "buy", token: outputMint };
+  }
+  if (outputMint === WSOL_MINT && inputMint !== WSOL_MINT) {
+    return { side: "sell", token: inputMint };
+  }
+  return null;
+}
+
+// the venue sell functions take a share of the balance
+async function toSellPercentage(token: string, amount: number) {
+  const balance = await getSPLTokenBalance(
+    connection,
+    new PublicKey(token),
+    wallet.publicKey
+  );
+  if (!balance) throw new Error(`No balance of ${token} to sell`);
+  return Math.min(100, (amount / balance) * 100);
+}
+
+export const raydiumAdapter: VenueAdapter = {
+  name: "raydium",
+  computeUnits: 60_000,
+  async quote(inputMint, outputMint, amount, options) {
+    const pair = toSide(inputMint, outputMint);
+    if (!pair) return null;
+    const res = await raydiumQuote(pair.side, pair.token, amount, options);
+    return res && { ...res, outAmount: res.amountOut, minOutAmount: res.minAmountOut };
+  },
+  async execute(quote, options) {
+    const { side, token } = toSide(quote.inputMint, quote.outputMint)!;
+    return side === "buy"
+      ? await raydiumSwap("buy", token, quote.inAmount, -1, wallet, "trade", options)
+      : await raydiumSwap(
+          "sell",
+          token,
+          -1,
+          await toSellPercentage(token, quote.inAmount),
+          wallet,
+          "trade",
+          options
+        );
+  },
+};
+
+export const orcaAdapter: VenueAdapter = {
+  name: "orca",
+  computeUnits: 150_000,
+  async quote(inputMint, outputMint, amount, options) {
+    const pair = toSide(inputMint, outputMint);
+    if (!pair) return null;
+    const res = await orcaQuote(pair.side, pair.token, amount, options);
+    return {
+      poolId: res.poolId,
+      outAmount: res.amountOut,
+      minOutAmount: res.minAmountOut,
+      priceImpact: res.priceImpact,
+    };
+  },
+  async execute(quote, options) {
+    const { side, token } = toSide(quote.inputMint, quote.outputMint)!;
+    return side === "buy"
+      ? await orcaSwap("buy", token, quote.inAmount, -1, options)
+      : await orcaSwap(
+          "sell",
+          token,
+          -1,
+          await toSellPercentage(token, quote.inAmount),
+          options
+        );
+  },
+};
+
+export const meteoraAdapter: VenueAdapter = {
+  name: "meteora",
+  computeUnits: 120_000,
+  async quote(inputMint, outputMint, amount, options) {
+    const pair = toSide(inputMint, outputMint);
+    if (!pair) return null;
+    const res = await meteoraQuote(pair.side, pair.token, amount, options);
+    return {
+      poolId: res.poolId,
+      outAmount: res.amountOut,
+      minOutAmount: res.minAmountOut,
+      priceImpact: res.priceImpact,
+    };
+  },
+  async execute(quote, options) {
+    const { side, token } = toSide(quote.inputMint, quote.outputMint)!;
+    return side === "buy"
+      ? await meteoraSwap("buy", token, quote.inAmount, -1, options)
+      : await meteoraSwap(
+          "sell",
+          token,
+          -1,
+          await toSellPercentage(token, quote.inAmount),
+          options
+        );
+  },
+};
+
+export const pumpfunAdapter: VenueAdapter = {
+  name: "pumpfun",
+  computeUnits: 70_000,
+  async quote(inputMint, outputMint, amount, options) {
+    const pair = toSide(inputMint, outputMint);
+    if (!pair) return null;
+    const res = await pumpfunQuote(pair.side, new PublicKey(pair.token), amount);
+    if (!res) return null;
+    return {
+      poolId: res.bondingCurve,
+      outAmount: res.amountOut,
+      minOutAmount: null,
+      priceImpact: res.priceImpact,
+    };
+  },
+  async execute(quote, options) {
+    const { side, token } = toSide(quote.inputMint, quote.outputMint)!;
+    const mint = new PublicKey(token);
+    return side === "buy"
+      ? await pumpfunBuy(mint, quote.inAmount, options)
+      : await pumpfunSell(
+          mint,
+          (await toSellPercentage(token, quote.inAmount)) / 100, // pump.fun sells a fraction
+          options
+        );
+  },
+};
+
+export const jupiterAdapter: VenueAdapter = {
+  name: "jupiter",
+  computeUnits: 300_000,
+  async quote(inputMint, outputMint, amount, options) {
+    const [inDecimals, outDecimals] = await Promise.all([
+      getDecimals(new PublicKey(inputMint)),
+      getDecimals(new PublicKey(outputMint)),
+    ]);
+    const route = await getQuote(
+      inputMint,
+      outputMint,
+      Math.floor(amount * 10 ** inDecimals),
+      getSlippageBps(options, JUPITER_SLIPPAGE_BPS)
+    );
+    if (route.error || !route.outAmount) return null;
+    return {
+      poolId: null,
+      outAmount: Number(route.outAmount) / 10 ** outDecimals,
+      minOutAmount: Number(route.otherAmountThreshold) / 10 ** outDecimals,
+      priceImpact: parseFloat(route.priceImpactPct) * 100,
+      route,
+    };
+  },
+  async execute(quote, options) {
+    // the route is quoted again when sending, the amount is the one of the quote
+    return await executeSwap(
+      quote.inputMint,
+      quote.outputMint,
+      Number(quote.route.inAmount),
+      getSlippageBps(options, JUPITER_SLIPPAGE_BPS),
+      options
+    );
+  },
+};
+
+export const localAdapters: VenueAdapter[] = [
+  raydiumAdapter,
+  orcaAdapter,
+  meteoraAdapter,
+  pumpfunAdapter,
+];
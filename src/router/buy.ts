@@ -0,0 +1,59 @@
+import { logger } from "../helpers/logger";
+import { program } from "commander";
+import { Router, printRouteQuote } from "./router";
+import { WSOL_MINT } from "./adapters";
+
+let token: string = "",
+  sol: number = 0;
+let dryRun = false,
+  slippageBps: number | undefined,
+  maxPriceImpact: number | undefined,
+  quoteOnly = false,
+  useJupiter: boolean | undefined = undefined;
+program
+  .option("--token <ADDRESS_TOKEN>", "Specify the token address")
+  .option("--sol <NUMBER_OF_SOL>", "Specify the number of SOL")
+  .option("--jupiter", "Also quote through Jupiter")
+  .option("--quote", "Only print the quote of every venue")
+  .option("--dry-run", "Simulate the swap and print the expected outcome without sending it")
+  .option("--slippage <BPS>", "Specify the slippage in basis points, 100 = 1%")
+  .option("--max-price-impact <PERCENT>", "Abort the swap before signing if the price impact is above this percentage")
+  .option("-h, --help", "display help for command")
+  .action((options) => {
+    if (options.help) {
+      logger.info(
+        "ts-node buy --token <ADDRESS_TOKEN> --sol <NUMBER_OF_SOL> [--jupiter] [--quote] [--dry-run] [--slippage <BPS>] [--max-price-impact <PERCENT>]"
+      );
+      process.exit(0);
+    }
+    if (!options.token || !options.sol) {
+      console.error("❌ Missing required options");
+      process.exit(1);
+    }
+    token = options.token;
+    sol = parseFloat(options.sol);
+    dryRun = !!options.dryRun;
+    slippageBps = options.slippage ? parseInt(options.slippage) : undefined;
+    maxPriceImpact = options.maxPriceImpact
+      ? parseFloat(options.maxPriceImpact)
+      : undefined;
+    quoteOnly = !!options.quote;
+    if (options.jupiter) useJupiter = true;
+  });
+program.parse();
+
+/**
+ * Buys a token on the venue with the best net output.
+ * @param {string} token_address - The address of the token to buy.
+ * @param {number} no_of_sol - The amount of SOL to spend.
+ * @returns {Promise<void>} - A promise that resolves when the swap is completed.
+ */
+async function buy(token_address: string, no_of_sol: number) {
+  const router = new Router({ useJupiter });
+  if (quoteOnly) {
+    printRouteQuote(await router.quote(WSOL_MINT, token_address, no_of_sol, { slippageBps, maxPriceImpact }));
+    return;
+  }
+  await router.swap(WSOL_MINT, token_address, no_of_sol, { dryRun, slippageBps, maxPriceImpact });
+}
+buy(token, sol);
@@ -0,0 +1,223 @@
+import { LAMPORTS_PER_SOL, PublicKey } from "@solana/web3.js";
+import {
+  tx_executor,
+  router_use_jupiter,
+  router_quote_timeout_ms,
+} from "../helpers/config";
+import { withTimeout } from "../helpers/util";
+import { SwapOptions, SwapResult } from "../helpers/types";
+import { estimatePriorityFee, estimateTip } from "../transactions/fee_estimator";
+import { checkPriceImpact } from "../transactions/swap_guard";
+import {
+  VenueAdapter,
+  VenueName,
+  VenueQuote,
+  WSOL_MINT,
+  jupiterAdapter,
+  localAdapters,
+} from "./adapters";
+
+const BASE_FEE_LAMPORTS = 5000; // one signature
+
+export interface RouterOptions {
+  adapters?: VenueAdapter[]; // defaults to raydium, orca, meteora and pump.fun
+  useJupiter?: boolean; // also quote through jupiter, defaults to ROUTER_USE_JUPITER
+  quoteTimeoutMs?: number; // defaults to ROUTER_QUOTE_TIMEOUT_MS
+}
+
+export interface RouteQuote {
+  best: VenueQuote | null;
+  quotes: VenueQuote[]; // best net output first
+  failures: { venue: VenueName; error: string }[]; // venues that errored or timed out
+}
+
+/**
+ * Converts the network fee to the output token and subtracts it from the output.
+ * A token to token quote is left as is, the venues cost about the same to land there.
+ */
+function netOutput(
+  inputMint: string,
+  outputMint: string,
+  inAmount: number,
+  outAmount: number,
+  networkFee: number
+) {
+  if (outputMint === WSOL_MINT) return outAmount - networkFee;
+  if (inputMint === WSOL_MINT) return outAmount * (1 - networkFee / inAmount);
+  return outAmount;
+}
+
+/**
+ * Quotes a swap on every venue at once and sends it through the best one.
+ *
+ * Venues are compared on their net output: the amount out of the pool minus
+ * the estimated base fee, priority fee and tip of landing the swap there.
+ */
+export class Router {
+  readonly adapters: VenueAdapter[];
+  private quoteTimeoutMs: number;
+
+  constructor(opts: RouterOptions = {}) {
+    const adapters = opts.adapters || localAdapters;
+    this.adapters =
+      opts.useJupiter ?? router_use_jupiter
+        ? [...adapters, jupiterAdapter]
+        : adapters;
+    this.quoteTimeoutMs = opts.quoteTimeoutMs ?? router_quote_timeout_ms;
+  }
+
+  /**
+   * Estimates what landing a swap on a venue costs.
+   * @param {VenueAdapter} adapter - The venue.
+   * @param {string | null} poolId - The pool the swap write-locks.
+   * @param {SwapOptions} options - The executor and urgency of the swap.
+   * @returns {Promise<number>} The network fee in SOL.
+   */
+  private async estimateNetworkFee(
+    adapter: VenueAdapter,
+    poolId: string | null,
+    options: SwapOptions
+  ) {
+    const executor =
+      typeof options.executor === "object"
+        ? options.executor.name
+        : options.executor || tx_executor;
+    const [microLamports, tip] = await Promise.all([
+      estimatePriorityFee(poolId ? [new PublicKey(poolId)] : [], options.urgency),
+      estimateTip(executor, options.urgency),
+    ]);
+    const lamports =
+      BASE_FEE_LAMPORTS + (microLamports * adapter.computeUnits) / 1_000_000;
+    return lamports / LAMPORTS_PER_SOL + tip;
+  }
+
+  private async quoteVenue(
+    adapter: VenueAdapter,
+    inputMint: string,
+    outputMint: string,
+    amount: number,
+    options: SwapOptions
+  ): Promise<VenueQuote | null> {
+    const res = await adapter.quote(inputMint, outputMint, amount, options);
+    if (!res || !(res.outAmount > 0)) return null;
+    checkPriceImpact(adapter.name, res.priceImpact, options);
+    const networkFee = await this.estimateNetworkFee(adapter, res.poolId, options);
+    return {
+      ...res,
+      venue: adapter.name,
+      inputMint,
+      outputMint,
+      inAmount: amount,
+      networkFee,
+      netOutAmount: netOutput(
+        inputMint,
+        outputMint,
+        amount,
+        res.outAmount,
+        networkFee
+      ),
+    };
+  }
+
+  /**
+   * Asks every venue for an on-chain quote in parallel and ranks them by net output.
+   * Quotes above options.maxPriceImpact are reported with the failures.
+   * @param {string} inputMint - The mint to sell, WSOL for SOL.
+   * @param {string} outputMint - The mint to buy, WSOL for SOL.
+   * @param {number} amount - The amount of input token, in UI units.
+   * @param {SwapOptions} options - The executor and urgency used to estimate the network fee, the slippage and the maximum price impact.
+   * @returns {Promise<RouteQuote>} The best quote, every quote, and the venues that failed.
+   */
+  async quote(
+    inputMint: string,
+    outputMint: string,
+    amount: number,
+    options: SwapOptions = {}
+  ): Promise<RouteQuote> {
+    const settled = await Promise.allSettled(
+      this.adapters.map((adapter) =>
+        withTimeout(
+          this.quoteVenue(adapter, inputMint, outputMint, amount, options),
+          this.quoteTimeoutMs,
+          `${adapter.name} quote`
+        )
+      )
+    );
+    const quotes: VenueQuote[] = [];
+    const failures: RouteQuote["failures"] = [];
+    settled.forEach((res, i) => {
+      if (res.status === "fulfilled") {
+        if (res.value) quotes.push(res.value);
+      } else {
+        failures.push({
+          venue: this.adapters[i].name,
+          error:
+            res.reason instanceof Error ? res.reason.message : String(res.reason),
+        });
+      }
+    });
+    quotes.sort((a, b) => b.netOutAmount - a.netOutAmount);
+    return { best: quotes[0] || null, quotes, failures };
+  }
+
+  /**
+   * Sends a quoted swap through the venue of the quote.
+   * @param {VenueQuote} quote - A quote returned by Router.quote.
+   * @param {SwapOptions} options - Per-call options such as the transaction executor.
+   * @returns {Promise<SwapResult | null>} The result of the swap, null if the venue could not build it.
+   */
+  async execute(
+    quote: VenueQuote,
+    options: SwapOptions = {}
+  ): Promise<SwapResult | null> {
+    const adapter = this.adapters.find((a) => a.name === quote.venue);
+    if (!adapter) throw new Error(`Unknown venue: ${quote.venue}`);
+    console.log(
+      `Routing through ${quote.venue}: ${quote.inAmount} -> ${quote.outAmount} (net ${quote.netOutAmount})`
+    );
+    return await adapter.execute(quote, options);
+  }
+
+  /**
+   * Quotes every venue and swaps through the best one.
+   * @param {string} inputMint - The mint to sell, WSOL for SOL.
+   * @param {string} outputMint - The mint to buy, WSOL for SOL.
+   * @param {number} amount - The amount of input token, in UI units.
+   * @param {SwapOptions} options - Per-call options such as the transaction executor.
+   * @returns {Promise<SwapResult | null>} The result of the swap, null if no venue quoted the pair.
+   */
+  async swap(
+    inputMint: string,
+    outputMint: string,
+    amount: number,
+    options: SwapOptions = {}
+  ): Promise<SwapResult | null> {
+    const { best, quotes, failures } = await this.quote(
+      inputMint,
+      outputMint,
+      amount,
+      options
+    );
+    printRouteQuote({ best, quotes, failures });
+    if (!best) {
+      console.log("No venue quoted this pair");
+      return null;
+    }
+    return await this.execute(best, options);
+  }
+}
+
+/**
+ * Prints the quotes of a route, best first.
+ * @param {RouteQuote} route - The route to print.
+ */
+export function printRouteQuote(route: RouteQuote) {
+  for (const q of route.quotes) {
+    console.log(
+      `${q === route.best ? "🏆" : "  "} ${q.venue}: out ${q.outAmount}, net ${q.netOutAmount}, impact ${q.priceImpact ?? "?"}%, network fee ${q.networkFee} SOL`
+    );
+  }
+  for (const f of route.failures) {
+    console.log(`   ${f.venue}: ${f.error}`);
+  }
+}
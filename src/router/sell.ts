@@ -0,0 +1,68 @@
+import { PublicKey } from "@solana/web3.js";
+import { logger } from "../helpers/logger";
+import { program } from "commander";
+import { connection, wallet } from "../helpers/config";
+import { getSPLTokenBalance } from "../helpers/check_balance";
+import { Router, printRouteQuote } from "./router";
+import { WSOL_MINT } from "./adapters";
+
+let token: string = "",
+  percentage: number = 0;
+let dryRun = false,
+  slippageBps: number | undefined,
+  maxPriceImpact: number | undefined,
+  quoteOnly = false,
+  useJupiter: boolean | undefined = undefined;
+program
+  .option("--token <ADDRESS_TOKEN>", "Specify the token address")
+  .option("--percentage <SELL_PERCENTAGE>", "Specify the sell percentage")
+  .option("--jupiter", "Also quote through Jupiter")
+  .option("--quote", "Only print the quote of every venue")
+  .option("--dry-run", "Simulate the swap and print the expected outcome without sending it")
+  .option("--slippage <BPS>", "Specify the slippage in basis points, 100 = 1%")
+  .option("--max-price-impact <PERCENT>", "Abort the swap before signing if the price impact is above this percentage")
+  .option("-h, --help", "display help for command")
+  .action((options) => {
+    if (options.help) {
+      logger.info(
+        "ts-node sell --token <ADDRESS_TOKEN> --percentage <SELL_PERCENTAGE> [--jupiter] [--quote] [--dry-run] [--slippage <BPS>] [--max-price-impact <PERCENT>]"
+      );
+      process.exit(0);
+    }
+    if (!options.token || !options.percentage) {
+      console.error("❌ Missing required options");
+      process.exit(1);
+    }
+    token = options.token;
+    percentage = parseFloat(options.percentage);
+    dryRun = !!options.dryRun;
+    slippageBps = options.slippage ? parseInt(options.slippage) : undefined;
+    maxPriceImpact = options.maxPriceImpact
+      ? parseFloat(options.maxPriceImpact)
+      : undefined;
+    quoteOnly = !!options.quote;
+    if (options.jupiter) useJupiter = true;
+  });
+program.parse();
+
+/**
+ * Sells a share of a token balance on the venue with the best net output.
+ * @param {string} token_address - The address of the token to sell.
+ * @param {number} sell_percentage - The percentage of the balance to sell.
+ * @returns {Promise<void>} - A promise that resolves when the swap is completed.
+ */
+async function sell(token_address: string, sell_percentage: number) {
+  const balance = await getSPLTokenBalance(
+    connection,
+    new PublicKey(token_address),
+    wallet.publicKey
+  );
+  const amount = balance * (sell_percentage / 100);
+  const router = new Router({ useJupiter });
+  if (quoteOnly) {
+    printRouteQuote(await router.quote(token_address, WSOL_MINT, amount, { slippageBps, maxPriceImpact }));
+    return;
+  }
+  await router.swap(token_address, WSOL_MINT, amount, { dryRun, slippageBps, maxPriceImpact });
+}
+sell(token, percentage);
@@ -16,6 +16,7 @@ import {
 import { connection, dev_connection } from "../helpers/config";
 import { wallet } from "../helpers/config";
 import { logger } from "../helpers/logger";
+import { getSigner } from "../helpers/keystore";
 
 let payer_keypair_path = null,
   token_address:any = null,
@@ -25,7 +26,7 @@ let payer_keypair_path = null,
   payerKeypair = null,
   newConnection:any = null;
 program
-  .option("--payer <PATH_TO_SECRET_KEY>", "Specify the path to the secret key")
+  .option("--payer <WALLET_NAME>", "Specify the keystore wallet name")
   .option("--token_address <ADDRESS_TOKEN>", "Specify the token address")
   .option("--percentage <BURN_PERCENTAGE>", "Specify the percentage to burn")
   .option("--cluster <CLUSTER>", "Specify the cluster")
@@ -33,7 +34,7 @@ program
   .action((options) => {
     if (options.help) {
       logger.info(
-        "ts-node burn --payer <PATH_TO_SECRET_KEY> --token_address <ADDRESS_TOKEN> --percentage <BURN_PERCENTAGE> --cluster <CLUSTER>"
+        "ts-node burn --payer <WALLET_NAME> --token_address <ADDRESS_TOKEN> --percentage <BURN_PERCENTAGE> --cluster <CLUSTER>"
       );
       process.exit(0);
     }
@@ -158,10 +159,6 @@ export async function burnToken(tokenAddress:PublicKey, payer:Keypair, percentag
   }
 }
 
-if (payer_keypair_path) {
-  payerKeypair = Keypair.fromSecretKey(loadOrCreateKeypair(payer_keypair_path));
-} else {
-  payerKeypair = Keypair.fromSecretKey(wallet.secretKey);
-}
+payerKeypair = getSigner(payer_keypair_path);
 
 burnToken(token_address, payerKeypair, percentage);
@@ -31,6 +31,7 @@ import {
   wallet,
 } from "../helpers/config";
 import { logger } from "../helpers/logger";
+import { getSigner } from "../helpers/keystore";
 
 // info
 let payer_keypair_path: any = null,
@@ -49,7 +50,7 @@ let payer_keypair_path: any = null,
 
 // handle the input value from the user's command line here
 program
-  .option("--payer <PATH_TO_SECRET_KEY>", "Specify the path to the secret key")
+  .option("--payer <WALLET_NAME>", "Specify the keystore wallet name")
   .option("--symbol <TOKEN_SYMBOL>", "Specify the token symbol")
   .option("--token_name <TOKEN_NAME>", "Specify the token name")
   .option(
@@ -70,7 +71,7 @@ program
   .action((options) => {
     if (options.help) {
       logger.info(
-        "ts-node create --payer <PATH_TO_SECRET_KEY> --symbol <TOKEN_SYMBOL> --token_name <TOKEN_NAME> --mint <PATH_TO_MINT_KEYPAIR> --supply <SUPPLY_OF_TOKEN> --decimals <DECIMALS> --metadata <PATH_METADATA_JSON> --image <PATH_TO_IMAGE> --cluster <CLUSTER> --priority-fee <PRIORITY_FEE> --file_type <FILE_TYPE>"
+        "ts-node create --payer <WALLET_NAME> --symbol <TOKEN_SYMBOL> --token_name <TOKEN_NAME> --mint <PATH_TO_MINT_KEYPAIR> --supply <SUPPLY_OF_TOKEN> --decimals <DECIMALS> --metadata <PATH_METADATA_JSON> --image <PATH_TO_IMAGE> --cluster <CLUSTER> --priority-fee <PRIORITY_FEE> --file_type <FILE_TYPE>"
       );
       process.exit(0);
     }
@@ -141,7 +142,7 @@ const umi = createUmi(endpoint); //Replace with your RPC Endpoint
 
 // create the payer wallet
 if (payer_keypair_path) {
-  payerSecret = loadOrCreateKeypair(payer_keypair_path);
+  payerSecret = getSigner(payer_keypair_path).secretKey;
   PayerWallet = umi.eddsa.createKeypairFromSecretKey(
     new Uint8Array(payerSecret)
   );
@@ -160,29 +161,6 @@ const mintSigner = createSignerFromKeypair(umi, mintKeypair);
 umi.use(signerIdentity(userWalletSigner));
 umi.use(mplCandyMachine());
 
-/**
- * Loads or creates a keypair for the wallet.
- * If the keypair file exists at the specified filepath, it will be loaded.
- * Otherwise, a new keypair will be generated, saved to the filepath, and returned.
- *
- * @param {string} filepath - The filepath to the keypair file.
- * @returns {Keypair} - The loaded or newly created keypair.
- * @throws {Error} - If there is an error reading or writing the keypair file.
- */
-async function loadOrCreateKeypair_wallet(filepath:string) {
-  try {
-    const keypairString = fs.readFileSync(filepath, { encoding: "utf8" });
-    return Keypair.fromSecretKey(Uint8Array.from(JSON.parse(keypairString)));
-  } catch (error) {
-    const newKeypair = Keypair.generate();
-    fs.writeFileSync(
-      filepath,
-      JSON.stringify(Array.from(newKeypair.secretKey))
-    );
-    console.log(`New keypair created and saved to ${filepath}`);
-    return newKeypair;
-  }
-}
 /**
  * Loads or creates a keypair from the specified file path.
  * @param {string} filepath - The path to the keypair file.
@@ -245,13 +223,11 @@ export async function revokeMint(mint:any, payer:any, owner:any) {
 }
 /**
  * Retrieves the Metaplex instance for interacting with the Metaplex protocol.
- * @param {string} walletPath - The path to the wallet.
+ * @param {string} walletName - The keystore wallet name, the .env wallet if null.
  * @returns {Promise<Metaplex>} The Metaplex instance.
  */
-export async function getMetaplex(walletPath:string) {
-  let WALLET = null;
-  if (walletPath === null) WALLET = wallet;
-  else WALLET = await loadOrCreateKeypair_wallet(walletPath);
+export async function getMetaplex(walletName:string) {
+  const WALLET = getSigner(walletName);
   const METAPLEX = Metaplex.make(newConnection)
     .use(keypairIdentity(WALLET))
     .use(
@@ -1,2 +1,3 @@
 export * from "./burn";
-export * from "./create";
\ No newline at end of file
+export * from "./create";
+export * from "./mint_safety";
@@ -0,0 +1,106 @@
+import { PublicKey } from "@solana/web3.js";
+import {
+  AccountState,
+  ExtensionType,
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+  getDefaultAccountState,
+  getExtensionTypes,
+  getMintCloseAuthority,
+  getNonTransferable,
+  getPermanentDelegate,
+  getTransferFeeConfig,
+  getTransferHook,
+  unpackMint,
+} from "@solana/spl-token";
+import { connection } from "../helpers/config";
+
+/**
+ * What the mint of a token still allows its authorities to do to holders.
+ * Authorities and extension addresses are null when unset or revoked.
+ */
+export interface MintSafety {
+  mint: string;
+  programId: string;
+  token2022: boolean;
+  decimals: number;
+  supply: number;
+  mintAuthority: string | null; // can mint more supply
+  freezeAuthority: string | null; // can freeze any token account
+  extensions: string[]; // Token-2022 mint extensions
+  transferFeeBps: number; // highest of the current and the scheduled transfer fee
+  maxTransferFee: number | null; // cap of the transfer fee, in UI units
+  transferFeeAuthority: string | null; // can raise the transfer fee
+  permanentDelegate: string | null; // can transfer or burn tokens of any holder
+  transferHookProgram: string | null; // runs on every transfer and can block sells
+  mintCloseAuthority: string | null;
+  defaultAccountStateFrozen: boolean; // new token accounts start frozen
+  nonTransferable: boolean;
+  risks: string[]; // one line per finding above, empty for a safe mint
+}
+
+const toAddress = (key: PublicKey | null | undefined) =>
+  key && !key.equals(PublicKey.default) ? key.toBase58() : null;
+
+/**
+ * Inspects the authorities and Token-2022 extensions of a mint.
+ * @param {string} mintAddress - The token mint.
+ * @returns {Promise<MintSafety>} The authorities, extensions and the risks they carry.
+ * @throws {Error} If the account is not a mint of the token or Token-2022 program.
+ */
+export async function analyzeMint(mintAddress: string): Promise<MintSafety> {
+  const address = new PublicKey(mintAddress);
+  const info = await connection.getAccountInfo(address);
+  if (info === null) throw new Error(`Mint ${mintAddress} not found`);
+  if (!info.owner.equals(TOKEN_PROGRAM_ID) && !info.owner.equals(TOKEN_2022_PROGRAM_ID)) {
+    throw new Error(`${mintAddress} is not a token mint`);
+  }
+  const mint = unpackMint(address, info, info.owner);
+  const token2022 = info.owner.equals(TOKEN_2022_PROGRAM_ID);
+  const extensionTypes = token2022 ? getExtensionTypes(mint.tlvData) : [];
+
+  const transferFeeConfig = token2022 ? getTransferFeeConfig(mint) : null;
+  const transferFees = transferFeeConfig
+    ? [transferFeeConfig.olderTransferFee, transferFeeConfig.newerTransferFee]
+    : [];
+  const transferFeeBps = Math.max(0, ...transferFees.map((fee) => fee.transferFeeBasisPoints));
+  const maxTransferFee = transferFeeConfig
+    ? Number(transferFeeConfig.newerTransferFee.maximumFee) / 10 ** mint.decimals
+    : null;
+  const permanentDelegate = token2022 ? toAddress(getPermanentDelegate(mint)?.delegate) : null;
+  const transferHookProgram = token2022 ? toAddress(getTransferHook(mint)?.programId) : null;
+  const mintCloseAuthority = token2022 ? toAddress(getMintCloseAuthority(mint)?.closeAuthority) : null;
+  const defaultAccountStateFrozen =
+    token2022 && getDefaultAccountState(mint)?.state === AccountState.Frozen;
+  const nonTransferable = token2022 && getNonTransferable(mint) !== null;
+
+  const safety: MintSafety = {
+    mint: mintAddress,
+    programId: info.owner.toBase58(),
+    token2022,
+    decimals: mint.decimals,
+    supply: Number(mint.supply) / 10 ** mint.decimals,
+    mintAuthority: toAddress(mint.mintAuthority),
+    freezeAuthority: toAddress(mint.freezeAuthority),
+    extensions: extensionTypes.map((type) => ExtensionType[type] || `Unknown(${type})`),
+    transferFeeBps,
+    maxTransferFee,
+    transferFeeAuthority: toAddress(transferFeeConfig?.transferFeeConfigAuthority),
+    permanentDelegate,
+    transferHookProgram,
+    mintCloseAuthority,
+    defaultAccountStateFrozen,
+    nonTransferable,
+    risks: [],
+  };
+  if (safety.mintAuthority) safety.risks.push(`Mint authority ${safety.mintAuthority} can mint more supply`);
+  if (safety.freezeAuthority) safety.risks.push(`Freeze authority ${safety.freezeAuthority} can freeze holders`);
+  if (transferFeeBps > 0) safety.risks.push(`Transfer fee of ${transferFeeBps / 100}%`);
+  if (safety.transferFeeAuthority) safety.risks.push(`Transfer fee authority ${safety.transferFeeAuthority} can raise the fee`);
+  if (permanentDelegate) safety.risks.push(`Permanent delegate ${permanentDelegate} can move or burn any balance`);
+  if (transferHookProgram) safety.risks.push(`Transfer hook program ${transferHookProgram} runs on every transfer`);
+  if (mintCloseAuthority) safety.risks.push(`Mint close authority ${mintCloseAuthority}`);
+  if (defaultAccountStateFrozen) safety.risks.push("New token accounts start frozen");
+  if (nonTransferable) safety.risks.push("The token is not transferable");
+  return safety;
+}
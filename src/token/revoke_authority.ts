@@ -4,7 +4,7 @@ import fs from "fs";
 import { Connection, PublicKey, Keypair } from "@solana/web3.js";
 import { program } from "commander";
 import { connection, dev_connection } from "../helpers/config";
-import { loadOrCreateKeypair_wallet } from "../helpers/util";
+import { getSigner } from "../helpers/keystore";
 import { wallet } from "../helpers/config";
 
 let newConnection:any = null;
@@ -14,7 +14,7 @@ let payer_keypair_path:any = null,
   freeze = false,
   cluster:any = null;
 program
-  .option("--payer <PATH_TO_SECRET_KEY>", "Specify the path to the secret key")
+  .option("--payer <WALLET_NAME>", "Specify the keystore wallet name")
   .option("--token_address <ADDRESS_TOKEN>", "Specify the token address")
   .option("--cluster <CLUSTER>", "Specify the cluster")
   .option("-m, --mint", "Specify the mint")
@@ -23,7 +23,7 @@ program
   .action((options) => {
     if (options.help) {
       console.log(
-        "node revoke_authority --payer <PATH_TO_SECRET_KEY> --mint_address <ADDRESS_TOKEN> --cluster <CLUSTER> --mint --freeze"
+        "node revoke_authority --payer <WALLET_NAME> --mint_address <ADDRESS_TOKEN> --cluster <CLUSTER> --mint --freeze"
       );
       process.exit(0);
     }
@@ -112,23 +112,13 @@ export async function revokeAuthority() {
   // } else {
   //   await swap(side, address, no_of_sol, -1, wallet);
   // }
-  let payer_wallet = null;
+  const payer_wallet = getSigner(payer_keypair_path);
   const token_mint = new PublicKey(token_address);
-  if (payer_keypair_path !== null) {
-    payer_wallet = await loadOrCreateKeypair_wallet(payer_keypair_path);
-    if (mint) {
-      await revokeMint(token_mint, payer_wallet, payer_wallet);
-    }
-    if (freeze) {
-      await revokeFreeze(token_mint, payer_wallet, payer_wallet);
-    }
-  } else {
-    if (mint) {
-      await revokeMint(token_mint, payer_wallet, wallet);
-    }
-    if (freeze) {
-      await revokeFreeze(token_mint, payer_wallet, wallet);
-    }
+  if (mint) {
+    await revokeMint(token_mint, payer_wallet, payer_wallet);
+  }
+  if (freeze) {
+    await revokeFreeze(token_mint, payer_wallet, payer_wallet);
   }
 }
 
@@ -1,4 +1,4 @@
-import { deleteBoughtTokens, getSPLTokenBalance, loadBoughtTokens, logExitPrice, readBoughtTokens, writeBoughtTokens} from "./utils";
+import { deleteBoughtTokens, getSPLTokenBalance, loadBoughtTokens, logExitPrice, readBoughtTokens, recordFill, writeBoughtTokens} from "./utils";
 import {checkStopLoss } from "./stop-loss"
 import { checkTakeProfit } from "./take-profit";
 import {retriveWalletState, writeLineToLogFile} from "./utils";
@@ -29,7 +29,8 @@ async function checkIsPricesHitTPorSL(){
                 if(balance > 0) {
                 logger.info(`selling ${token}...`);
                 writeLineToLogFile(`selling ${token}...`);
-                sell("sell", token, 100, wallet); // sell all
+                const result = await sell("sell", token, 100, wallet); // sell all
+                await recordFill(token, result, path_To_bought_tokens);
                 
                 }
                 continue;
@@ -41,7 +42,8 @@ async function checkIsPricesHitTPorSL(){
                 if(balance > 0) {
                 logger.info(`selling ${token}...`);
                 writeLineToLogFile(`selling ${token}...`);
-                sell("sell", token, 100, wallet); // sell all
+                const result = await sell("sell", token, 100, wallet); // sell all
+                await recordFill(token, result, path_To_bought_tokens);
                 
                 }
             }
@@ -8,7 +8,9 @@ import {getCurrentMarketCap, getDayVolume, getCurrentSolInPool } from "../../ray
 import {initSdk} from "../../raydium/raydium_config"
 import { getAssociatedTokenAddressSync, TOKEN_PROGRAM_ID } from '@solana/spl-token';
 import {fetchAMMPoolId} from "../../raydium/Pool/fetch_pool"
+import {ammReserveCache} from "../../raydium/Pool/reserve_cache"
 import {logger} from "../../utils"
+import { SwapResult } from "../../helpers/types";
 import path from "path";
 let sdkCache = {sdk: null, expiry: 0}
 const log_path = path.join(__dirname, "info.log");
@@ -147,6 +149,38 @@ export async function logExitPrice(tokenAddress: string, exitPrice:number, path_
     tokenObj.exit_price = exitPrice;
     await writeBoughtTokens(tokenAddress, tokenObj, path_To_bought_tokens);
 }
+/**
+ * Records a fill of our own swap in the bought tokens file.
+ * A buy adds to the position and sets the actual entry price, the average SOL paid per token with fees.
+ * A sell sets the exit price and adds the realized PnL in SOL against the average entry price.
+ * @param {string} tokenAddress - The address of the traded token.
+ * @param {SwapResult} result - The result returned by the swap.
+ * @param {string} path_To_bought_tokens - The path to the bought tokens file.
+ * @returns {Promise<Object | null>} - The updated token object, null if the swap did not fill.
+ */
+export async function recordFill(tokenAddress:string, result:SwapResult | null, path_To_bought_tokens:string){
+    if(!result || result.status !== "confirmed" || !result.inAmount || !result.outAmount){
+        return null;
+    }
+    const tokenObj = (await readBoughtTokens(tokenAddress, path_To_bought_tokens)) || {};
+    const position = tokenObj.position_size || 0, cost = tokenObj.cost_in_sol || 0;
+    if(result.outputMint === tokenAddress){
+        tokenObj.position_size = position + result.outAmount;
+        tokenObj.cost_in_sol = cost + result.inAmount + result.feesPaid;
+        tokenObj.actual_entry_price = tokenObj.cost_in_sol / tokenObj.position_size;
+    }else{
+        const soldCost = position > 0 ? cost * Math.min(1, result.inAmount / position) : 0;
+        const pnl = result.outAmount - result.feesPaid - soldCost;
+        tokenObj.position_size = Math.max(0, position - result.inAmount);
+        tokenObj.cost_in_sol = cost - soldCost;
+        tokenObj.exit_price = result.outAmount / result.inAmount;
+        tokenObj.realized_pnl = (tokenObj.realized_pnl || 0) + pnl;
+        logger.info(`Realized PnL of ${tokenAddress}: ${pnl} SOL`);
+    }
+    await writeBoughtTokens(tokenAddress, tokenObj, path_To_bought_tokens);
+    writeLineToLogFile(`Fill ${result.signature}: ${result.inAmount} ${result.inputMint} -> ${result.outAmount} ${result.outputMint}, fees ${result.feesPaid} SOL`);
+    return tokenObj;
+}
 export async function logTraderEntryPrice(tokenAddress:string, entryPrice:number, path_To_bought_tokens:string){
     const tokenObj = await readBoughtTokens(tokenAddress, path_To_bought_tokens);
     tokenObj.trader_entry_price = entryPrice;
@@ -169,7 +203,6 @@ export async function setInitTokenObj(tokenAddress: string, path_To_bought_token
     const mc = await getCurrentMarketCap(tokenAddress);
     const noOfSolInPool = await getCurrentSolInPool(tokenAddress);
     let solPerOrder = order_size;
-    const poolId = await fetchAMMPoolId(tokenAddress);
     // if((mc||0) >= 10000000){
     //     solPerOrder = 2;
     //     tpPriceDec = ourEntryPriceDec.mul(new Decimal(1).plus(new Decimal(0.05)));
@@ -191,7 +224,6 @@ export async function setInitTokenObj(tokenAddress: string, path_To_bought_token
         "tp_price": tpPriceDec,
         "sl_price": slPriceDec,
         "exit_price": 0,
-        "poolId": poolId,
         "number_of_sol_in_pool": noOfSolInPool,
         "market_cap": mc,
         "sol_per_order": solPerOrder,
@@ -220,20 +252,11 @@ export async function getCurrentPriceRaydium(tokenAddress:string, path_To_bought
             raydium = await initSdk();
             sdkCache.sdk = raydium;
         }
-        const tokenObj = await readBoughtTokens(tokenAddress, path_To_bought_tokens);
-        let poolId:any = null;
-        if (tokenObj === null) {
-            poolId = "";
-        } else {
-            poolId = tokenObj.poolId;
-        }
-        if (poolId === "") {
-            poolId = await fetchAMMPoolId(tokenAddress);
-            if(tokenObj){
-                tokenObj.poolId = poolId;
-                await writeBoughtTokens(tokenAddress, tokenObj, path_To_bought_tokens);
-            }
-        }
+        // the pool id is kept in the pool registry
+        const poolId = await fetchAMMPoolId(tokenAddress);
+        // pools tracked by the reserve cache are priced without rpc
+        const cachedPrice = ammReserveCache.getPrice(poolId, tokenAddress);
+        if (cachedPrice !== null) return cachedPrice;
         const res = await raydium.liquidity.getRpcPoolInfos([poolId]);
         const poolInfo = res[poolId];
         const baseMint = poolInfo.baseMint.toString();
@@ -60,10 +60,11 @@ async function handleTradeDetection(tokenAddress: string, data: any) {
   if (tradeDirection && (!lastState || currentTimestamp - lastState.lastTradeTimestamp > 1000)) {
     const oppositeSizeInSOL = swappedSOLAmount * OPPOSITE_TRADE_PERCENTAGE;
 
-    if (tradeDirection === 'buy') {
-      await sell(tokenAddress, oppositeSizeInSOL, 1); // Sell token
-    } else if (tradeDirection === 'sell') {
-      await buy(tokenAddress, oppositeSizeInSOL, 1); // Buy token
+    const fill = tradeDirection === 'buy'
+      ? await sell(tokenAddress, oppositeSizeInSOL, 1) // Sell token
+      : await buy(tokenAddress, oppositeSizeInSOL, 1); // Buy token
+    if (fill?.status === 'confirmed') {
+      logger.info(`Contrarian fill ${fill.signature}: ${fill.inAmount} ${fill.inputMint} -> ${fill.outAmount} ${fill.outputMint}, fees ${fill.feesPaid} SOL`);
     }
 
     tradeStates[tokenAddress] = {
@@ -4,13 +4,21 @@ import {
   MAINNET_API_UK_HTTP,
   MAINNET_API_NY_HTTP,
 } from "@bloxroute/solana-trader-client-ts";
-import { private_key, bloXRoute_auth_header, bloXroute_fee } from "../helpers/config";
 import {
+  private_key,
+  bloXRoute_auth_header,
+  bloXroute_fee,
+  connection,
+} from "../helpers/config";
+import {
+  BlockhashWithExpiryBlockHeight,
   Connection,
   LAMPORTS_PER_SOL,
   PublicKey,
   Keypair,
   SystemProgram,
+  TransactionMessage,
+  VersionedTransaction,
 } from "@solana/web3.js";
 import base58 from "bs58";
 import { Transaction } from "@solana/web3.js";
@@ -33,26 +41,96 @@ export async function CreateTraderAPITipTransaction(
     })
   );
 }
-export async function bloXroute_executeAndConfirm(transaction:any, signers:any) {
+/**
+ * Builds and signs a standalone tip transaction for the bloXroute Trader API, including its memo.
+ * @param {Keypair} payer - The payer of the tip.
+ * @param {BlockhashWithExpiryBlockHeight} latestBlockhash - The blockhash to sign against.
+ * @param {number} tipInSol - The bloXroute tip in SOL, defaults to BLOXROUTE_FEE.
+ * @returns {Promise<{ transaction: VersionedTransaction, signature: string }>} - The signed tip transaction and its signature.
+ */
+export async function buildTraderAPITipTransaction(
+  payer: Keypair,
+  latestBlockhash: BlockhashWithExpiryBlockHeight,
+  tipInSol?: number
+) {
+  const fee: number = tipInSol ?? parseFloat(bloXroute_fee || "0.001");
+  const tipTx = await CreateTraderAPITipTransaction(
+    payer.publicKey,
+    Math.floor(fee * LAMPORTS_PER_SOL)
+  );
+  const messageV0 = new TransactionMessage({
+    payerKey: payer.publicKey,
+    recentBlockhash: latestBlockhash.blockhash,
+    instructions: [
+      createTraderAPIMemoInstruction("Powered by bloXroute Trader Api"),
+      ...tipTx.instructions,
+    ],
+  }).compileToV0Message();
+  const transaction = new VersionedTransaction(messageV0);
+  transaction.sign([payer]);
+  return {
+    transaction,
+    signature: base58.encode(transaction.signatures[0]),
+  };
+}
+
+/**
+ * Submits signed transactions to the bloXroute Trader API as one atomic bundle.
+ * @param {VersionedTransaction[]} transactions - The signed transactions, in bundle order.
+ * @returns {Promise<boolean>} - True if bloXroute accepted every transaction of the bundle.
+ */
+export async function bloXroute_submitBundle(
+  transactions: VersionedTransaction[]
+) {
+  const response = await provider.postSubmitBatch({
+    entries: transactions.map((tx) => ({
+      transaction: {
+        content: Buffer.from(tx.serialize()).toString("base64"),
+        isCleanup: false,
+      },
+      skipPreFlight: true,
+    })),
+    submitStrategy: "P_SUBMIT_ALL",
+    useBundle: true,
+  });
+  return response.transactions.every((entry) => entry.submitted);
+}
+
+/**
+ * Submits a transaction through the bloXroute Trader API with a tip and waits for confirmation.
+ * @param {Transaction} transaction - The transaction holding the instructions to send.
+ * @param {Keypair[]} signers - The signers of the transaction, the first one pays the fees and the tip.
+ * @param {number} tipInSol - The bloXroute tip in SOL, defaults to BLOXROUTE_FEE.
+ * @returns {Promise<{ confirmed: boolean, signature: string | null, slot: number | null }>} - The confirmation status, signature and slot.
+ */
+export async function bloXroute_executeAndConfirm(
+  transaction: any,
+  signers: Keypair[],
+  tipInSol?: number
+) {
   const memo = createTraderAPIMemoInstruction(
     "Powered by bloXroute Trader Api"
   ); // why not use empty string? see https://docs.bloxroute.com/solana/trader-api-v2/achieve-best-performance-for-landing-a-transaction
-  const wallet = Keypair.fromSecretKey(base58.decode(private_key||""));
+  const wallet =
+    signers && signers.length > 0
+      ? signers[0]
+      : Keypair.fromSecretKey(base58.decode(private_key || ""));
   const recentBlockhash = await provider.getRecentBlockHash({});
+  const latestBlockhash = await connection.getLatestBlockhash("confirmed");
   let tx = new Transaction({
     recentBlockhash: recentBlockhash.blockHash,
     feePayer: wallet.publicKey,
   });
-  const fee:number = parseFloat(bloXroute_fee||"0.001");
+  const fee: number = tipInSol ?? parseFloat(bloXroute_fee || "0.001");
   tx.add(transaction);
   tx.add(memo);
   tx.add(
     await CreateTraderAPITipTransaction(
       wallet.publicKey,
-      (fee) * LAMPORTS_PER_SOL
+      Math.floor(fee * LAMPORTS_PER_SOL)
     )
   ); // why 0.001 SOL?
-  tx.sign(wallet);
+  tx.sign(...(signers && signers.length > 0 ? signers : [wallet]));
   const serializeTxBytes = tx.serialize();
   const buffTx = Buffer.from(serializeTxBytes);
   const encodedTx:any = buffTx.toString("base64");
@@ -74,13 +152,28 @@ export async function bloXroute_executeAndConfirm(transaction:any, signers:any)
    * });
    */
 
-  if (response.signature) {
+  if (!response.signature) {
+    console.log("❌ Transaction failed");
+    return { confirmed: false, signature: null, slot: null };
+  }
+  const confirmation = await connection.confirmTransaction(
+    {
+      signature: response.signature,
+      lastValidBlockHeight: latestBlockhash.lastValidBlockHeight,
+      blockhash: recentBlockhash.blockHash,
+    },
+    "confirmed"
+  );
+  if (confirmation.value.err) {
+    console.log("❌ Transaction failed");
+  } else {
     console.log(
       `✅ txn landed successfully\nSignature: https://solscan.io/tx/${response.signature}`
     );
-  } else {
-    console.log("❌ Transaction failed");
   }
+  return {
+    confirmed: !confirmation.value.err,
+    signature: response.signature,
+    slot: confirmation.context.slot,
+  };
 }
-
-module.exports = { bloXroute_executeAndConfirm };
@@ -0,0 +1,118 @@
+import {
+  AddressLookupTableAccount,
+  ComputeBudgetProgram,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedMessage,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import { connection, compute_unit_margin } from "../helpers/config";
+
+export const MAX_COMPUTE_UNITS = 1_400_000;
+const SET_COMPUTE_UNIT_LIMIT = 2; // ComputeBudgetInstruction discriminator
+
+/**
+ * Fetches the address lookup tables referenced by a v0 message.
+ * @param {VersionedMessage} message - The message to resolve.
+ * @returns {Promise<AddressLookupTableAccount[]>} The lookup table accounts.
+ */
+export async function getLookupTables(message: VersionedMessage) {
+  const tables: AddressLookupTableAccount[] = [];
+  for (const lookup of message.addressTableLookups) {
+    const { value } = await connection.getAddressLookupTable(lookup.accountKey);
+    if (!value) {
+      throw new Error(`Lookup table not found: ${lookup.accountKey.toBase58()}`);
+    }
+    tables.push(value);
+  }
+  return tables;
+}
+
+function isComputeUnitLimit(ix: TransactionInstruction) {
+  return (
+    ix.programId.equals(ComputeBudgetProgram.programId) &&
+    ix.data[0] === SET_COMPUTE_UNIT_LIMIT
+  );
+}
+
+/**
+ * Simulates a transaction with the maximum compute limit and returns the units it consumed.
+ * The blockhash is replaced and signatures are not verified, so the transaction can be unsigned.
+ * @param {TransactionInstruction[]} instructions - The instructions, without a compute unit limit.
+ * @param {TransactionMessage} message - The decompiled message providing the payer and blockhash.
+ * @param {AddressLookupTableAccount[]} lookupTables - The lookup tables to compile against.
+ * @returns {Promise<number | null>} The consumed compute units, null if the simulation failed.
+ */
+export async function simulateComputeUnits(
+  instructions: TransactionInstruction[],
+  message: TransactionMessage,
+  lookupTables: AddressLookupTableAccount[] = []
+) {
+  const transaction = new VersionedTransaction(
+    new TransactionMessage({
+      payerKey: message.payerKey,
+      recentBlockhash: message.recentBlockhash,
+      instructions: [
+        ComputeBudgetProgram.setComputeUnitLimit({ units: MAX_COMPUTE_UNITS }),
+        ...instructions,
+      ],
+    }).compileToV0Message(lookupTables)
+  );
+  const { value } = await connection.simulateTransaction(transaction, {
+    sigVerify: false,
+    replaceRecentBlockhash: true,
+  });
+  if (value.err || !value.unitsConsumed) {
+    console.log("Compute unit simulation failed: ", value.err, value.logs);
+    return null;
+  }
+  return value.unitsConsumed;
+}
+
+/**
+ * Right-sizes the compute unit limit of an unsigned transaction.
+ * Simulates the assembled transaction, adds COMPUTE_UNIT_MARGIN to the consumed units
+ * and replaces any existing setComputeUnitLimit instruction with the result.
+ * The transaction is returned unchanged if the simulation fails.
+ * @param {VersionedTransaction} transaction - The transaction to resize, signed afterwards.
+ * @param {number} margin - The fraction of extra units to request, defaults to COMPUTE_UNIT_MARGIN.
+ * @returns {Promise<VersionedTransaction>} The transaction with its compute unit limit rewritten.
+ */
+export async function fitComputeUnitLimit(
+  transaction: VersionedTransaction,
+  margin: number = compute_unit_margin
+) {
+  try {
+    const lookupTables = await getLookupTables(transaction.message);
+    const message = TransactionMessage.decompile(transaction.message, {
+      addressLookupTableAccounts: lookupTables,
+    });
+    const instructions = message.instructions.filter(
+      (ix) => !isComputeUnitLimit(ix)
+    );
+    const unitsConsumed = await simulateComputeUnits(
+      instructions,
+      message,
+      lookupTables
+    );
+    if (unitsConsumed === null) return transaction;
+    const units = Math.min(
+      MAX_COMPUTE_UNITS,
+      Math.ceil(unitsConsumed * (1 + margin))
+    );
+    console.log(`Compute units: ${unitsConsumed} consumed, limit set to ${units}`);
+    return new VersionedTransaction(
+      new TransactionMessage({
+        payerKey: message.payerKey,
+        recentBlockhash: message.recentBlockhash,
+        instructions: [
+          ComputeBudgetProgram.setComputeUnitLimit({ units }),
+          ...instructions,
+        ],
+      }).compileToV0Message(lookupTables)
+    );
+  } catch (e) {
+    console.log("Error fitting the compute unit limit: ", e);
+    return transaction;
+  }
+}
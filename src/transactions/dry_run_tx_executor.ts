@@ -0,0 +1,248 @@
+import {
+  AccountInfo,
+  Keypair,
+  LAMPORTS_PER_SOL,
+  PublicKey,
+  Transaction,
+  TransactionMessage,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import {
+  AccountLayout,
+  ACCOUNT_SIZE,
+  TOKEN_PROGRAM_ID,
+  TOKEN_2022_PROGRAM_ID,
+} from "@solana/spl-token";
+import { connection } from "../helpers/config";
+import {
+  ExecutorName,
+  SubmitOptions,
+  SubmitResult,
+  TransactionExecutor,
+  toVersionedTransaction,
+} from "./tx_executor";
+import { estimateTip } from "./fee_estimator";
+import { getLookupTables } from "./compute_budget";
+import { CreateTraderAPITipTransaction } from "./bloXroute_tips_tx_executor";
+
+export interface TokenDelta {
+  account: string;
+  mint: string;
+  before: bigint;
+  after: bigint;
+  delta: bigint;
+}
+
+export interface SimulationReport {
+  success: boolean;
+  error: string | null;
+  unitsConsumed: number | null;
+  feeLamports: number | null; // base and priority fee of the transaction
+  tipInSol: number; // tip paid by the tipping executors
+  tipInTransaction: boolean; // the tip is transferred by the simulated transaction and is part of solDelta
+  solDelta: number | null; // lamports change of the payer, fee included
+  tokenDeltas: TokenDelta[]; // token accounts of the payer
+  logs: string[];
+}
+
+const ACCOUNT_TYPE_OFFSET = ACCOUNT_SIZE; // Token-2022 account type byte
+const TOKEN_2022_ACCOUNT_TYPE = 2;
+
+function decodeTokenAccount(owner: PublicKey, data: Buffer) {
+  if (
+    !owner.equals(TOKEN_PROGRAM_ID) &&
+    !owner.equals(TOKEN_2022_PROGRAM_ID)
+  ) {
+    return null;
+  }
+  const isTokenAccount =
+    data.length === ACCOUNT_SIZE ||
+    (data.length > ACCOUNT_SIZE &&
+      data[ACCOUNT_TYPE_OFFSET] === TOKEN_2022_ACCOUNT_TYPE);
+  if (!isTokenAccount) return null;
+  return AccountLayout.decode(data.subarray(0, ACCOUNT_SIZE));
+}
+
+/**
+ * Simulates a transaction and reports what it would do to the payer.
+ * Token deltas are computed from the writable token accounts owned by the payer,
+ * comparing their current state with the state returned by the simulation.
+ * @param {VersionedTransaction} transaction - The assembled transaction, it does not need to be signed.
+ * @param {PublicKey} payer - The fee payer and owner of the reported token accounts.
+ * @param {number} tipInSol - The tip that would be paid along with the transaction.
+ * @param {boolean} tipInTransaction - The transaction itself transfers the tip, as on bloXroute.
+ * @returns {Promise<SimulationReport>} The expected outcome of the transaction.
+ */
+export async function simulateSwapTransaction(
+  transaction: VersionedTransaction,
+  payer: PublicKey,
+  tipInSol: number = 0,
+  tipInTransaction: boolean = false
+): Promise<SimulationReport> {
+  const lookupTables = await getLookupTables(transaction.message);
+  const accountKeys = transaction.message.getAccountKeys({
+    addressLookupTableAccounts: lookupTables,
+  });
+  const writable: PublicKey[] = [];
+  for (let i = 0; i < accountKeys.length; i++) {
+    if (transaction.message.isAccountWritable(i)) {
+      writable.push(accountKeys.get(i) as PublicKey);
+    }
+  }
+  const [before, { value: fee }, { value: sim }] = await Promise.all([
+    connection.getMultipleAccountsInfo(writable),
+    connection.getFeeForMessage(transaction.message),
+    connection.simulateTransaction(transaction, {
+      sigVerify: false,
+      replaceRecentBlockhash: true,
+      accounts: {
+        encoding: "base64",
+        addresses: writable.map((key) => key.toBase58()),
+      },
+    }),
+  ]);
+
+  let solDelta: number | null = null;
+  const tokenDeltas: TokenDelta[] = [];
+  if (!sim.err && sim.accounts) {
+    writable.forEach((key, i) => {
+      const pre: AccountInfo<Buffer> | null = before[i];
+      const post = sim.accounts![i];
+      if (key.equals(payer)) {
+        solDelta = (post?.lamports ?? 0) - (pre?.lamports ?? 0);
+      }
+      const preToken = pre ? decodeTokenAccount(pre.owner, pre.data) : null;
+      const postToken = post
+        ? decodeTokenAccount(
+            new PublicKey(post.owner),
+            Buffer.from(post.data[0], "base64")
+          )
+        : null;
+      const token = postToken || preToken;
+      if (!token || !token.owner.equals(payer)) return;
+      const beforeAmount = preToken ? preToken.amount : 0n;
+      const afterAmount = postToken ? postToken.amount : 0n;
+      tokenDeltas.push({
+        account: key.toBase58(),
+        mint: token.mint.toBase58(),
+        before: beforeAmount,
+        after: afterAmount,
+        delta: afterAmount - beforeAmount,
+      });
+    });
+  }
+  return {
+    success: !sim.err,
+    error: sim.err ? JSON.stringify(sim.err) : null,
+    unitsConsumed: sim.unitsConsumed ?? null,
+    feeLamports: fee,
+    tipInSol,
+    tipInTransaction,
+    solDelta,
+    tokenDeltas,
+    logs: sim.logs || [],
+  };
+}
+
+/**
+ * Prints a simulation report.
+ * @param {SimulationReport} report - The report to print.
+ */
+export function printSimulationReport(report: SimulationReport) {
+  console.log("🧪 Dry run, the transaction was not sent");
+  console.log(`Simulation: ${report.success ? "success" : `failed ${report.error}`}`);
+  console.log(`Compute units: ${report.unitsConsumed}`);
+  if (report.feeLamports !== null) {
+    console.log(`Fee: ${report.feeLamports / LAMPORTS_PER_SOL} SOL`);
+  }
+  if (report.tipInSol > 0) {
+    console.log(
+      `Tip: ${report.tipInSol} SOL${report.tipInTransaction ? " (in the transaction, part of the SOL change)" : ""}`
+    );
+  }
+  if (report.solDelta !== null) {
+    console.log(`SOL change: ${report.solDelta / LAMPORTS_PER_SOL} SOL`);
+  }
+  for (const d of report.tokenDeltas) {
+    console.log(
+      `Token ${d.mint}: ${d.before} -> ${d.after} (${d.delta > 0n ? "+" : ""}${d.delta})`
+    );
+  }
+  console.log("Logs:");
+  for (const log of report.logs) console.log(`  ${log}`);
+}
+
+/**
+ * Adds the bloXroute tip transfer to a transaction, as the bloXroute executor does before sending it.
+ * @param {VersionedTransaction} transaction - The transaction.
+ * @param {PublicKey} payer - The payer of the tip.
+ * @param {number} tipInSol - The tip in SOL.
+ * @returns {Promise<VersionedTransaction>} The transaction with the tip transfer appended.
+ */
+async function addBloXrouteTip(
+  transaction: VersionedTransaction,
+  payer: PublicKey,
+  tipInSol: number
+) {
+  const lookupTables = await getLookupTables(transaction.message);
+  const message = TransactionMessage.decompile(transaction.message, {
+    addressLookupTableAccounts: lookupTables,
+  });
+  const tipTx = await CreateTraderAPITipTransaction(
+    payer,
+    Math.floor(tipInSol * LAMPORTS_PER_SOL)
+  );
+  message.instructions.push(...tipTx.instructions);
+  return new VersionedTransaction(message.compileToV0Message(lookupTables));
+}
+
+/**
+ * Executor used in dry-run mode.
+ * Simulates the transaction instead of sending it, prints the report and
+ * attaches it to the result. The tip is the one the wrapped executor would pay;
+ * bloXroute transfers it in the swap transaction, so it is simulated along.
+ */
+export class DryRunExecutor implements TransactionExecutor {
+  readonly name = "dryrun";
+  readonly tipsFor: ExecutorName;
+
+  constructor(tipsFor: ExecutorName = "rpc") {
+    this.tipsFor = tipsFor;
+  }
+
+  async submit(
+    transaction: VersionedTransaction | Transaction,
+    signers: Keypair[],
+    opts: SubmitOptions = {}
+  ): Promise<SubmitResult> {
+    const latestBlockhash =
+      opts.latestBlockhash || (await connection.getLatestBlockhash());
+    const versionedTx = toVersionedTransaction(
+      transaction,
+      signers[0],
+      latestBlockhash
+    );
+    // an explicit tip only applies to the executors that tip
+    const estimated = await estimateTip(this.tipsFor, opts.urgency);
+    const tip = estimated > 0 ? opts.tip ?? estimated : 0;
+    const tipInTransaction = this.tipsFor === "bloxroute" && tip > 0;
+    const simulation = await simulateSwapTransaction(
+      tipInTransaction
+        ? await addBloXrouteTip(versionedTx, signers[0].publicKey, tip)
+        : versionedTx,
+      signers[0].publicKey,
+      tip,
+      tipInTransaction
+    );
+    printSimulationReport(simulation);
+    return {
+      signature: null,
+      landed: false,
+      slot: null,
+      error: simulation.error,
+      tip,
+      tipInTransaction,
+      simulation,
+    };
+  }
+}
@@ -0,0 +1,186 @@
+import {
+  ComputeBudgetProgram,
+  PublicKey,
+  TransactionInstruction,
+} from "@solana/web3.js";
+import {
+  connection,
+  jito_fee,
+  fee_urgency,
+  priority_fee_floor,
+  priority_fee_cap,
+  jito_tip_floor,
+  jito_tip_cap,
+  bloXroute_fee,
+} from "../helpers/config";
+
+export type Urgency = "low" | "medium" | "high" | "max";
+
+const URGENCY_PERCENTILE: { [urgency in Urgency]: number } = {
+  low: 25,
+  medium: 50,
+  high: 75,
+  max: 95,
+};
+const JITO_TIP_FLOOR_API = "https://bundles.jito.wtf/api/v1/bundles/tip_floor";
+const SAMPLE_WINDOW_SLOTS = 150; // the rpc keeps fees for the last 150 slots
+const REFRESH_INTERVAL_MS = 5000;
+const MAX_TRACKED_ACCOUNT_SETS = 256;
+
+// rolling prioritization fee samples per set of writable accounts: slot -> fee
+const feeSamples: Map<string, { samples: Map<number, number>; updatedAt: number }> =
+  new Map();
+let jitoTipCache: { tips: { [urgency in Urgency]: number }; updatedAt: number } | null =
+  null;
+
+/**
+ * Returns the given percentile of a list of numbers.
+ * @param {number[]} values - The values to rank.
+ * @param {number} p - The percentile, between 0 and 100.
+ * @returns {number} The value at the percentile, 0 if the list is empty.
+ */
+export function percentile(values: number[], p: number) {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const index = Math.min(
+    sorted.length - 1,
+    Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)
+  );
+  return sorted[index];
+}
+
+function clamp(value: number, floor: number, cap: number) {
+  return Math.min(cap, Math.max(floor, value));
+}
+
+/**
+ * Collects the writable accounts of a list of instructions.
+ * @param {TransactionInstruction[]} instructions - The instructions of the transaction.
+ * @returns {PublicKey[]} The unique writable accounts.
+ */
+export function getWritableAccounts(instructions: TransactionInstruction[]) {
+  const accounts: { [key: string]: PublicKey } = {};
+  for (const ix of instructions) {
+    for (const key of ix.keys) {
+      if (key.isWritable) accounts[key.pubkey.toBase58()] = key.pubkey;
+    }
+  }
+  return Object.values(accounts);
+}
+
+async function sampleFees(accounts: PublicKey[]) {
+  const key = accounts
+    .map((a) => a.toBase58())
+    .sort()
+    .join(",");
+  let entry = feeSamples.get(key);
+  if (entry && Date.now() - entry.updatedAt < REFRESH_INTERVAL_MS) {
+    return entry.samples;
+  }
+  const recentFees = await connection.getRecentPrioritizationFees({
+    lockedWritableAccounts: accounts.slice(0, 128), // rpc limit
+  });
+  if (!entry) {
+    if (feeSamples.size >= MAX_TRACKED_ACCOUNT_SETS) {
+      feeSamples.delete(feeSamples.keys().next().value as string);
+    }
+    entry = { samples: new Map(), updatedAt: 0 };
+    feeSamples.set(key, entry);
+  }
+  for (const fee of recentFees) {
+    entry.samples.set(fee.slot, fee.prioritizationFee);
+  }
+  // keep only the rolling window
+  const latestSlot = Math.max(...entry.samples.keys());
+  for (const slot of entry.samples.keys()) {
+    if (slot <= latestSlot - SAMPLE_WINDOW_SLOTS) entry.samples.delete(slot);
+  }
+  entry.updatedAt = Date.now();
+  return entry.samples;
+}
+
+/**
+ * Estimates the compute unit price needed to land a transaction writing to the given accounts.
+ * Samples recent prioritization fees, keeps a rolling window per account set,
+ * and clamps the result to PRIORITY_FEE_FLOOR and PRIORITY_FEE_CAP.
+ * @param {PublicKey[]} accounts - The accounts the transaction writes to.
+ * @param {Urgency} urgency - How aggressively to bid, defaults to FEE_URGENCY.
+ * @returns {Promise<number>} The compute unit price in microLamports.
+ */
+export async function estimatePriorityFee(
+  accounts: PublicKey[],
+  urgency: Urgency = fee_urgency as Urgency
+) {
+  try {
+    const samples = await sampleFees(accounts);
+    const fee = percentile([...samples.values()], URGENCY_PERCENTILE[urgency]);
+    return Math.round(clamp(fee, priority_fee_floor, priority_fee_cap));
+  } catch (e) {
+    console.log("Error estimating priority fee, using the floor: ", e);
+    return priority_fee_floor;
+  }
+}
+
+/**
+ * Estimates the Jito tip from the landed tips percentiles published by the block engine.
+ * Falls back to JITO_FEE if the tip floor api is unreachable, and clamps to JITO_TIP_FLOOR and JITO_TIP_CAP.
+ * @param {Urgency} urgency - How aggressively to tip, defaults to FEE_URGENCY.
+ * @returns {Promise<number>} The tip in SOL.
+ */
+export async function estimateJitoTip(urgency: Urgency = fee_urgency as Urgency) {
+  try {
+    if (!jitoTipCache || Date.now() - jitoTipCache.updatedAt >= REFRESH_INTERVAL_MS) {
+      const response = await (await fetch(JITO_TIP_FLOOR_API)).json();
+      const floor = response[0];
+      jitoTipCache = {
+        tips: {
+          low: floor.landed_tips_25th_percentile,
+          medium: floor.landed_tips_50th_percentile,
+          high: floor.landed_tips_75th_percentile,
+          max: floor.landed_tips_95th_percentile,
+        },
+        updatedAt: Date.now(),
+      };
+    }
+    const tip = jitoTipCache.tips[urgency];
+    return clamp(tip, jito_tip_floor, jito_tip_cap);
+  } catch (e) {
+    console.log("Error estimating jito tip, using JITO_FEE: ", e);
+    return clamp(parseFloat(jito_fee || "0") || jito_tip_floor, jito_tip_floor, jito_tip_cap);
+  }
+}
+
+/**
+ * Estimates the tip an executor pays along with a transaction.
+ * @param {string} executor - The executor name, the rpc and memory executors do not tip.
+ * @param {Urgency} urgency - How aggressively to tip, defaults to FEE_URGENCY.
+ * @returns {Promise<number>} The tip in SOL.
+ */
+export async function estimateTip(executor: string, urgency?: Urgency) {
+  switch (executor) {
+    case "jito":
+    case "race":
+      return await estimateJitoTip(urgency);
+    case "bloxroute":
+      return parseFloat(bloXroute_fee || "0.001");
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Builds the setComputeUnitPrice instruction for a list of instructions.
+ * @param {TransactionInstruction[]} instructions - The instructions of the transaction.
+ * @param {Urgency} urgency - How aggressively to bid.
+ * @returns {Promise<TransactionInstruction>} The compute unit price instruction.
+ */
+export async function getPriorityFeeInstruction(
+  instructions: TransactionInstruction[],
+  urgency?: Urgency
+) {
+  const microLamports = await estimatePriorityFee(
+    getWritableAccounts(instructions),
+    urgency
+  );
+  return ComputeBudgetProgram.setComputeUnitPrice({ microLamports });
+}
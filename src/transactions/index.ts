@@ -1,3 +1,10 @@
 export * from "./bloXroute_tips_tx_executor";
 export * from "./simple_tx_executor";
-export * from "./jito_tips_tx_executor";
\ No newline at end of file
+export * from "./jito_tips_tx_executor";
+export * from "./tx_executor";
+export * from "./race_tx_executor";
+export * from "./fee_estimator";export * from "./compute_budget";
+export * from "./tx_tracker";
+export * from "./dry_run_tx_executor";
+export * from "./swap_result";
+export * from "./swap_guard";
@@ -39,13 +39,69 @@ export async function getRandomValidator() {
     jito_Validators[Math.floor(Math.random() * jito_Validators.length)];
   return new PublicKey(res);
 }
+/**
+ * Builds and signs the tip transfer that pays a random Jito validator for a bundle.
+ * @param {Keypair} payer - The payer of the tip.
+ * @param {Blockhash} lastestBlockhash - The latest blockhash.
+ * @param {number} jitofee - The tip in SOL.
+ * @returns {Promise<{ transaction: VersionedTransaction, signature: string }>} - The signed tip transaction and its signature.
+ */
+export async function buildJitoTipTransaction(
+  payer: Keypair,
+  lastestBlockhash: any,
+  jitofee: any
+) {
+  const jito_validator_wallet = await getRandomValidator();
+  console.log("Selected Jito Validator: ", jito_validator_wallet.toBase58());
+  const fee = new CurrencyAmount(Currency.SOL, jitofee, false).raw.toNumber();
+  console.log(`Jito Fee: ${fee / 10 ** 9} sol`);
+  const jitoFee_message = new TransactionMessage({
+    payerKey: payer.publicKey,
+    recentBlockhash: lastestBlockhash.blockhash,
+    instructions: [
+      SystemProgram.transfer({
+        fromPubkey: payer.publicKey,
+        toPubkey: jito_validator_wallet,
+        lamports: fee,
+      }),
+    ],
+  }).compileToV0Message();
+  const jitoFee_transaction = new VersionedTransaction(jitoFee_message);
+  jitoFee_transaction.sign([payer]);
+  return {
+    transaction: jitoFee_transaction,
+    signature: bs58.encode(jitoFee_transaction.signatures[0]),
+  };
+}
+
+/**
+ * Sends a bundle of signed transactions to every Jito block engine endpoint.
+ * @param {VersionedTransaction[]} transactions - The signed transactions, in bundle order.
+ * @returns {Promise<boolean>} - True if at least one block engine accepted the bundle.
+ */
+export async function sendJitoBundle(transactions: VersionedTransaction[]) {
+  const final_transaction = transactions.map((tx) => bs58.encode(tx.serialize()));
+  const requests = endpoints.map((url) =>
+    axios.post(url, {
+      jsonrpc: "2.0",
+      id: 1,
+      method: "sendBundle",
+      params: [final_transaction],
+    })
+  );
+  console.log("Sending tx to Jito validators...");
+  const res = await Promise.all(requests.map((p) => p.catch((e) => e)));
+  const success_res = res.filter((r) => !(r instanceof Error));
+  return success_res.length > 0;
+}
+
 /**
  * Executes and confirms a Jito transaction.
  * @param {Transaction} transaction - The transaction to be executed and confirmed.
  * @param {Account} payer - The payer account for the transaction.
  * @param {Blockhash} lastestBlockhash - The latest blockhash.
  * @param {number} jitofee - The fee for the Jito transaction.
- * @returns {Promise<{ confirmed: boolean, signature: string | null }>} - A promise that resolves to an object containing the confirmation status and the transaction signature.
+ * @returns {Promise<{ confirmed: boolean, signature: string | null, slot?: number }>} - A promise that resolves to an object containing the confirmation status, the signature of the transaction (not of the tip) and the slot it was confirmed in.
  */
 export async function jito_executeAndConfirm(
   transaction: any,
@@ -54,50 +110,18 @@ export async function jito_executeAndConfirm(
   jitofee: any
 ) {
   console.log("Executing transaction (jito)...");
-  const jito_validator_wallet = await getRandomValidator();
-  console.log("Selected Jito Validator: ", jito_validator_wallet.toBase58());
   try {
-    const fee = new CurrencyAmount(Currency.SOL, jitofee, false).raw.toNumber();
-    console.log(`Jito Fee: ${fee / 10 ** 9} sol`);
-    const jitoFee_message = new TransactionMessage({
-      payerKey: payer.publicKey,
-      recentBlockhash: lastestBlockhash.blockhash,
-      instructions: [
-        SystemProgram.transfer({
-          fromPubkey: payer.publicKey,
-          toPubkey: jito_validator_wallet,
-          lamports: fee,
-        }),
-      ],
-    }).compileToV0Message();
-    const jitoFee_transaction = new VersionedTransaction(jitoFee_message);
-    jitoFee_transaction.sign([payer]);
-    const jitoTxSignature = bs58.encode(jitoFee_transaction.signatures[0]);
-    const serializedJitoFeeTransaction = bs58.encode(
-      jitoFee_transaction.serialize()
-    );
-    const serializedTransaction = bs58.encode(transaction.serialize());
-    const final_transaction = [
-      serializedJitoFeeTransaction,
-      serializedTransaction,
-    ];
-    const requests = endpoints.map((url) =>
-      axios.post(url, {
-        jsonrpc: "2.0",
-        id: 1,
-        method: "sendBundle",
-        params: [final_transaction],
-      })
-    );
-    console.log("Sending tx to Jito validators...");
-    const res = await Promise.all(requests.map((p) => p.catch((e) => e)));
-    const success_res = res.filter((r) => !(r instanceof Error));
-    if (success_res.length > 0) {
+    const { transaction: jitoFee_transaction } =
+      await buildJitoTipTransaction(payer, lastestBlockhash, jitofee);
+    // the bundle lands as a whole, confirm the transaction itself rather than the tip
+    const signature = bs58.encode(transaction.signatures[0]);
+    const accepted = await sendJitoBundle([jitoFee_transaction, transaction]);
+    if (accepted) {
       console.log("Jito validator accepted the tx");
-      return await jito_confirm(jitoTxSignature, lastestBlockhash);
+      return await jito_confirm(signature, lastestBlockhash);
     } else {
       console.log("No Jito validators accepted the tx");
-      return { confirmed: false, signature: jitoTxSignature };
+      return { confirmed: false, signature };
     }
   } catch (e) {
     if (e instanceof axios.AxiosError) {
@@ -113,7 +137,7 @@ export async function jito_executeAndConfirm(
  * Confirms a transaction on the Solana blockchain.
  * @param {string} signature - The signature of the transaction.
  * @param {object} latestBlockhash - The latest blockhash information.
- * @returns {object} - An object containing the confirmation status and the transaction signature.
+ * @returns {object} - An object containing the confirmation status, the transaction signature and the slot.
  */
 export async function jito_confirm(signature: any, latestBlockhash: any) {
   console.log("Confirming the jito transaction...");
@@ -125,6 +149,10 @@ export async function jito_confirm(signature: any, latestBlockhash: any) {
     },
     "confirmed"
   );
-  return { confirmed: !confirmation.value.err, signature };
+  return {
+    confirmed: !confirmation.value.err,
+    signature,
+    slot: confirmation.context.slot,
+  };
 }
 
@@ -0,0 +1,260 @@
+import {
+  BlockhashWithExpiryBlockHeight,
+  Keypair,
+  SignatureStatus,
+  Transaction,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import bs58 from "bs58";
+import { connection, bloXroute_fee, race_landers } from "../helpers/config";
+import { buildJitoTipTransaction, sendJitoBundle } from "./jito_tips_tx_executor";
+import {
+  buildTraderAPITipTransaction,
+  bloXroute_submitBundle,
+} from "./bloXroute_tips_tx_executor";
+import {
+  SubmitOptions,
+  SubmitResult,
+  TransactionExecutor,
+  toVersionedTransaction,
+} from "./tx_executor";
+import { estimateJitoTip } from "./fee_estimator";
+
+export type RacePath = "jito" | "bloxroute" | "rpc";
+
+const MAX_POLL_ERRORS = 5; // consecutive failed status polls before the race gives up
+
+export interface RacePathReport {
+  path: RacePath;
+  accepted: boolean; // the lander took the transaction
+  submitLatencyMs: number | null; // time until the lander answered
+  landed: boolean; // this path delivered the swap
+  landLatencyMs: number | null; // time until the landing was observed
+  trackSignature: string | null; // tip signature for bundles, swap signature for rpc
+  tip: number; // tip of the bundle in SOL, 0 for rpc
+  error: string | null;
+}
+
+export interface RaceResult extends SubmitResult {
+  winner: RacePath | null;
+  paths: RacePathReport[];
+}
+
+/**
+ * Sends one signed transaction through several landers at once.
+ *
+ * Jito and bloXroute receive the swap in an atomic bundle with their own tip
+ * transaction, so a landed tip tells which path delivered the swap. The swap
+ * signature is identical on every path, which deduplicates the confirmation;
+ * the rpc path is credited only when no bundle landed.
+ */
+export class RaceExecutor implements TransactionExecutor {
+  readonly name = "race";
+  readonly paths: RacePath[];
+  private pollIntervalMs: number;
+
+  constructor(
+    paths: RacePath[] = race_landers.split(",").map((p) => p.trim() as RacePath),
+    pollIntervalMs: number = 400
+  ) {
+    this.paths = paths;
+    this.pollIntervalMs = pollIntervalMs;
+  }
+
+  async submit(
+    transaction: VersionedTransaction | Transaction,
+    signers: Keypair[],
+    opts: SubmitOptions = {}
+  ): Promise<RaceResult> {
+    const payer = signers[0];
+    let latestBlockhash: BlockhashWithExpiryBlockHeight,
+      versionedTx: VersionedTransaction;
+    try {
+      latestBlockhash =
+        opts.latestBlockhash || (await connection.getLatestBlockhash());
+      versionedTx = toVersionedTransaction(transaction, payer, latestBlockhash);
+      versionedTx.sign(signers);
+    } catch (e: any) {
+      return {
+        signature: null,
+        landed: false,
+        slot: null,
+        error: e instanceof Error ? e.message : String(e),
+        winner: null,
+        paths: [],
+      };
+    }
+    const signature = bs58.encode(versionedTx.signatures[0]);
+
+    const start = Date.now();
+    const reports: RacePathReport[] = this.paths.map((path) => ({
+      path,
+      accepted: false,
+      submitLatencyMs: null,
+      landed: false,
+      landLatencyMs: null,
+      trackSignature: null,
+      tip: 0,
+      error: null,
+    }));
+    console.log(`Racing transaction through ${this.paths.join(", ")}...`);
+    const sending = Promise.all(
+      reports.map((report) =>
+        this.send(report, versionedTx, payer, latestBlockhash, opts, start)
+      )
+    );
+    const outcome = await this.watch(
+      signature,
+      reports,
+      latestBlockhash,
+      sending,
+      start
+    );
+    await sending;
+
+    const landedPaths = reports
+      .filter((r) => r.landed)
+      .sort((a, b) => (a.landLatencyMs || 0) - (b.landLatencyMs || 0));
+    const winner = landedPaths.length > 0 ? landedPaths[0] : null;
+    for (const r of reports) {
+      console.log(
+        `${r.path}: accepted=${r.accepted} submit=${r.submitLatencyMs}ms landed=${r.landed} land=${r.landLatencyMs}ms${r.error ? ` error=${r.error}` : ""}`
+      );
+    }
+    if (winner) console.log(`🏁 ${winner.path} landed first`);
+    return {
+      signature,
+      landed: outcome.landed,
+      slot: outcome.slot,
+      error: outcome.error,
+      tip: winner ? winner.tip : 0,
+      tipInTransaction: false,
+      winner: winner ? winner.path : null,
+      paths: reports,
+    };
+  }
+
+  private async send(
+    report: RacePathReport,
+    transaction: VersionedTransaction,
+    payer: Keypair,
+    latestBlockhash: BlockhashWithExpiryBlockHeight,
+    opts: SubmitOptions,
+    start: number
+  ) {
+    try {
+      switch (report.path) {
+        case "jito": {
+          report.tip = opts.tip ?? (await estimateJitoTip(opts.urgency));
+          const tipTx = await buildJitoTipTransaction(
+            payer,
+            latestBlockhash,
+            report.tip
+          );
+          report.trackSignature = tipTx.signature;
+          report.accepted = await sendJitoBundle([tipTx.transaction, transaction]);
+          break;
+        }
+        case "bloxroute": {
+          report.tip = opts.tip ?? parseFloat(bloXroute_fee || "0.001");
+          const tipTx = await buildTraderAPITipTransaction(
+            payer,
+            latestBlockhash,
+            report.tip
+          );
+          report.trackSignature = tipTx.signature;
+          report.accepted = await bloXroute_submitBundle([
+            transaction,
+            tipTx.transaction,
+          ]);
+          break;
+        }
+        case "rpc": {
+          report.trackSignature = await connection.sendRawTransaction(
+            transaction.serialize(),
+            { skipPreflight: true, maxRetries: 0 }
+          );
+          report.accepted = true;
+          break;
+        }
+        default:
+          throw new Error(`Unknown race path: ${report.path}`);
+      }
+      if (!report.accepted) report.error = "rejected by lander";
+    } catch (e: any) {
+      report.error = e instanceof Error ? e.message : String(e);
+    }
+    report.submitLatencyMs = Date.now() - start;
+  }
+
+  /**
+   * Polls the swap signature and every path's tip signature until the swap
+   * lands, fails, or its blockhash expires.
+   * A failed poll is retried; after MAX_POLL_ERRORS in a row the swap is reported as not landed.
+   */
+  private async watch(
+    signature: string,
+    reports: RacePathReport[],
+    latestBlockhash: BlockhashWithExpiryBlockHeight,
+    sending: Promise<any>,
+    start: number
+  ): Promise<{ landed: boolean; slot: number | null; error: string | null }> {
+    let allSent = false;
+    let pollErrors = 0;
+    sending.then(() => (allSent = true));
+    while (true) {
+      const bundlePaths = reports.filter(
+        (r) => r.path !== "rpc" && r.accepted && !r.landed
+      );
+      let statuses: (SignatureStatus | null)[];
+      let blockHeight: number;
+      try {
+        [{ value: statuses }, blockHeight] = await Promise.all([
+          connection.getSignatureStatuses([
+            signature,
+            ...bundlePaths.map((r) => r.trackSignature as string),
+          ]),
+          connection.getBlockHeight("confirmed"),
+        ]);
+        pollErrors = 0;
+      } catch (e: any) {
+        // a failed poll is retried, the swap may still land
+        const error = e instanceof Error ? e.message : String(e);
+        if (++pollErrors >= MAX_POLL_ERRORS) {
+          return { landed: false, slot: null, error: `status polling failed: ${error}` };
+        }
+        await new Promise((resolve) => setTimeout(resolve, this.pollIntervalMs));
+        continue;
+      }
+      const now = Date.now();
+      bundlePaths.forEach((r, i) => {
+        if (statuses[i + 1]?.confirmationStatus && !statuses[i + 1]?.err) {
+          r.landed = true;
+          r.landLatencyMs = now - start;
+        }
+      });
+      const status = statuses[0];
+      if (status?.err) {
+        return { landed: false, slot: status.slot, error: JSON.stringify(status.err) };
+      }
+      if (
+        status?.confirmationStatus === "confirmed" ||
+        status?.confirmationStatus === "finalized"
+      ) {
+        const rpc = reports.find((r) => r.path === "rpc" && r.accepted);
+        if (rpc && !reports.some((r) => r.landed)) {
+          rpc.landed = true;
+          rpc.landLatencyMs = now - start;
+        }
+        return { landed: true, slot: status.slot, error: null };
+      }
+      if (allSent && !reports.some((r) => r.accepted)) {
+        return { landed: false, slot: null, error: "no lander accepted the transaction" };
+      }
+      if (blockHeight > latestBlockhash.lastValidBlockHeight) {
+        return { landed: false, slot: null, error: "blockhash expired" };
+      }
+      await new Promise((resolve) => setTimeout(resolve, this.pollIntervalMs));
+    }
+  }
+}
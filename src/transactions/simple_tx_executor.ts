@@ -5,38 +5,36 @@ import {
   Transaction,
   VersionedTransaction,
 } from "@solana/web3.js";
-import { connection } from "../helpers/config";
+import { TxTracker } from "./tx_tracker";
 
 /**
  * Executes a transaction and confirms it on the Solana blockchain.
+ * The raw transaction is rebroadcast until it confirms or its blockhash expires.
  * @param {Transaction} transaction - The transaction to be executed.
  * @param {Account} payer - The account that will pay for the transaction fees.
  * @param {string} lastestBlockhash - The latest blockhash of the Solana blockchain.
- * @returns {Promise<boolean>} - A promise that resolves to true if the transaction is confirmed, false otherwise.
+ * @param {Keypair[]} resignWith - The signers used to re-sign with a fresh blockhash if it expires.
+ * @returns {Promise<{ confirmed: boolean, signature: string, slot: number | null, error: string | null }>} - A promise that resolves to the confirmation status, the signature, the slot and the decoded error.
  */
-export async function simple_executeAndConfirm(transaction:any, payer:any, lastestBlockhash:any) {
+export async function simple_executeAndConfirm(
+  transaction: any,
+  payer: any,
+  lastestBlockhash: any,
+  resignWith?: Keypair[]
+) {
   console.log("Executing transaction...");
-  const signature = await simple_execute(transaction);
-  console.log("Transaction executed. Confirming transaction...");
-  return simple_confirm(signature, lastestBlockhash);
-}
-
-async function simple_execute(transaction:any) {
-  return connection.sendRawTransaction(transaction.serialize(), {
-    skipPreflight: true,
-    maxRetries: 0,
+  const tracker = new TxTracker(transaction, lastestBlockhash, { resignWith });
+  tracker.on("sent", ({ attempt }) => {
+    if (attempt === 1) console.log("Transaction executed. Confirming transaction...");
   });
-}
-
-async function simple_confirm(signature:any, latestBlockhash:any) {
-  const confirmation = await connection.confirmTransaction(
-    {
-      signature,
-      lastValidBlockHeight: latestBlockhash.lastValidBlockHeight,
-      blockhash: latestBlockhash.blockhash,
-    },
-    connection.commitment
+  tracker.on("expired", ({ signature }) =>
+    console.log(`Blockhash expired before ${signature} landed`)
   );
-  return { confirmed: !confirmation.value.err, signature };
+  const res = await tracker.track();
+  return {
+    confirmed: res.status === "confirmed" || res.status === "finalized",
+    signature: res.signature,
+    slot: res.slot,
+    error: res.error ? res.error.message : res.status === "expired" ? "blockhash expired" : null,
+  };
 }
-
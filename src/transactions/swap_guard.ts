@@ -0,0 +1,70 @@
+import { slippage_bps, max_price_impact } from "../helpers/config";
+import { SwapOptions } from "../helpers/types";
+import { logger } from "../helpers/logger";
+
+/**
+ * Thrown before signing when the quoted price impact of a swap exceeds the allowed maximum,
+ * or when a maximum is set and the venue quoted no price impact.
+ */
+export class PriceImpactError extends Error {
+  readonly venue: string;
+  readonly priceImpact: number | null; // in percent, null if the venue quoted none
+  readonly maxPriceImpact: number; // in percent
+
+  constructor(venue: string, priceImpact: number | null, maxPriceImpact: number) {
+    super(
+      priceImpact === null
+        ? `${venue} quoted no price impact, cannot enforce the maximum of ${maxPriceImpact}%`
+        : `${venue} price impact ${priceImpact.toFixed(2)}% exceeds the maximum of ${maxPriceImpact}%`
+    );
+    this.name = "PriceImpactError";
+    this.venue = venue;
+    this.priceImpact = priceImpact;
+    this.maxPriceImpact = maxPriceImpact;
+  }
+}
+
+/**
+ * Resolves the slippage of a swap.
+ * @param {SwapOptions} options - The per-call options.
+ * @param {number} venueDefault - The slippage the venue used before it was configurable, in basis points.
+ * @returns {number} The slippage in basis points.
+ */
+export function getSlippageBps(options: SwapOptions, venueDefault: number) {
+  const bps = options.slippageBps ?? slippage_bps ?? venueDefault;
+  if (!Number.isFinite(bps) || bps < 0 || bps > 10000) {
+    throw new RangeError(`Slippage must be between 0 and 10000 bps, got ${bps}`);
+  }
+  return bps;
+}
+
+/**
+ * Aborts a swap whose quoted price impact exceeds the allowed maximum.
+ * When a maximum is set, a quote without a price impact is aborted too.
+ * @param {string} venue - The venue of the quote, reported in the error.
+ * @param {number | null} priceImpact - The quoted price impact in percent.
+ * @param {SwapOptions} options - The per-call options.
+ * @throws {PriceImpactError} If the price impact is above maxPriceImpact or unknown.
+ */
+export function checkPriceImpact(
+  venue: string,
+  priceImpact: number | null,
+  options: SwapOptions
+) {
+  const max = options.maxPriceImpact ?? max_price_impact;
+  if (max === undefined) return;
+  if (priceImpact === null || priceImpact > max) {
+    throw new PriceImpactError(venue, priceImpact, max);
+  }
+}
+
+/**
+ * Ends a swap CLI with a clean message when the price impact guard aborted the swap.
+ * @param {any} error - The error the swap rejected with.
+ * @throws The error itself if it is not a PriceImpactError.
+ */
+export function exitOnPriceImpact(error: any) {
+  if (!(error instanceof PriceImpactError)) throw error;
+  logger.error(`❌ Swap aborted before signing: ${error.message}`);
+  process.exit(1);
+}
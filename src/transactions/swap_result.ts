@@ -0,0 +1,202 @@
+import { LAMPORTS_PER_SOL, PublicKey } from "@solana/web3.js";
+import { NATIVE_MINT } from "@solana/spl-token";
+import { connection } from "../helpers/config";
+import { getDecimals } from "../helpers/util";
+import { SwapResult } from "../helpers/types";
+import { SubmitResult } from "./tx_executor";
+import { SimulationReport } from "./dry_run_tx_executor";
+
+const WSOL_MINT = NATIVE_MINT.toBase58();
+
+export interface SwapDescription {
+  owner: PublicKey; // fee payer and owner of the swapped token accounts
+  inputMint: string;
+  outputMint: string;
+  priceImpact: number | null;
+  executor: string;
+}
+
+/**
+ * Wall clock marks of a swap, taken with Date.now().
+ */
+export interface SwapTimer {
+  start: number;
+  submitStart: number;
+  submitEnd: number;
+}
+
+/**
+ * Creates a timer to pass to buildSwapResult.
+ * @returns {SwapTimer} A timer whose marks all start now.
+ */
+export function startSwapTimer(): SwapTimer {
+  const now = Date.now();
+  return { start: now, submitStart: now, submitEnd: now };
+}
+
+/**
+ * Reads the balance changes of a landed transaction for one owner.
+ * The SOL change is reported under the WSOL mint with the network fee, an in-transaction
+ * tip and the rent of the token accounts created by the transaction added back and the
+ * rent of the accounts it closed taken out, so it only holds what went into or came out of the pool.
+ * @param {string} signature - The landed transaction.
+ * @param {PublicKey} owner - The fee payer and owner of the token accounts.
+ * @param {number} tipInTransaction - The tip in SOL transferred by the transaction itself.
+ * @returns {Promise<{ deltas: Map<string, number>, feeLamports: number, slot: number } | null>} The UI amount change per mint, null if the transaction could not be fetched.
+ */
+export async function getBalanceChanges(
+  signature: string,
+  owner: PublicKey,
+  tipInTransaction: number = 0
+) {
+  let tx = null;
+  // the rpc can lag behind the signature status for a moment
+  for (let i = 0; i < 5 && !tx; i++) {
+    tx = await connection.getTransaction(signature, {
+      commitment: "confirmed",
+      maxSupportedTransactionVersion: 0,
+    });
+    if (!tx) await new Promise((resolve) => setTimeout(resolve, 500));
+  }
+  if (!tx || !tx.meta) return null;
+  const meta = tx.meta;
+  const ownerAddress = owner.toBase58();
+  const deltas: Map<string, number> = new Map();
+  const add = (mint: string, amount: number) =>
+    deltas.set(mint, (deltas.get(mint) || 0) + amount);
+
+  const pre = (meta.preTokenBalances || []).filter((b) => b.owner === ownerAddress);
+  const post = (meta.postTokenBalances || []).filter((b) => b.owner === ownerAddress);
+  let rentLamports = 0;
+  for (const b of post) {
+    const before = pre.find((p) => p.accountIndex === b.accountIndex);
+    add(
+      b.mint,
+      parseFloat(b.uiTokenAmount.uiAmountString || "0") -
+        parseFloat(before?.uiTokenAmount.uiAmountString || "0")
+    );
+    if (!before) {
+      // the account was created by the transaction, its lamports beyond the wrapped amount are rent
+      const wrapped = b.mint === WSOL_MINT ? Number(b.uiTokenAmount.amount) : 0;
+      rentLamports += meta.postBalances[b.accountIndex] - wrapped;
+    }
+  }
+  for (const b of pre) {
+    if (!post.some((p) => p.accountIndex === b.accountIndex)) {
+      // closed by the transaction, e.g. an unwrapped WSOL account, its lamports beyond the wrapped amount were rent
+      add(b.mint, -parseFloat(b.uiTokenAmount.uiAmountString || "0"));
+      const wrapped = b.mint === WSOL_MINT ? Number(b.uiTokenAmount.amount) : 0;
+      rentLamports -= meta.preBalances[b.accountIndex] - wrapped;
+    }
+  }
+  const lamports =
+    meta.postBalances[0] -
+    meta.preBalances[0] +
+    meta.fee +
+    tipInTransaction * LAMPORTS_PER_SOL +
+    rentLamports;
+  add(WSOL_MINT, lamports / LAMPORTS_PER_SOL);
+  return { deltas, feeLamports: meta.fee, slot: tx.slot };
+}
+
+async function getSimulatedChanges(report: SimulationReport) {
+  const deltas: Map<string, number> = new Map();
+  for (const d of report.tokenDeltas) {
+    const decimals =
+      d.mint === WSOL_MINT ? 9 : await getDecimals(new PublicKey(d.mint));
+    deltas.set(d.mint, (deltas.get(d.mint) || 0) + Number(d.delta) / 10 ** decimals);
+  }
+  if (report.solDelta !== null) {
+    // rent of created accounts is not separated from a simulation
+    const lamports =
+      report.solDelta +
+      (report.feeLamports || 0) +
+      (report.tipInTransaction ? report.tipInSol * LAMPORTS_PER_SOL : 0);
+    deltas.set(
+      WSOL_MINT,
+      (deltas.get(WSOL_MINT) || 0) + lamports / LAMPORTS_PER_SOL
+    );
+  }
+  return deltas;
+}
+
+/**
+ * Builds the SwapResult of a submitted or simulated swap.
+ * Landed swaps report the amounts read from the post-balances of the transaction,
+ * dry runs the amounts of the simulation.
+ * @param {SwapDescription} swap - The owner, mints, quoted price impact and executor of the swap.
+ * @param {SubmitResult} res - The result of the executor.
+ * @param {SwapTimer} timer - The marks taken while building and submitting the swap.
+ * @returns {Promise<SwapResult>} The common result of the swap.
+ */
+export async function buildSwapResult(
+  swap: SwapDescription,
+  res: SubmitResult,
+  timer: SwapTimer
+): Promise<SwapResult> {
+  const tip = res.tip || 0;
+  let deltas: Map<string, number> | null = null,
+    feeLamports: number | null = null,
+    slot = res.slot,
+    error = res.error;
+  if (res.simulation) {
+    deltas = await getSimulatedChanges(res.simulation);
+    feeLamports = res.simulation.feeLamports;
+  } else if (res.signature && (res.landed || res.slot !== null)) {
+    // a transaction that failed on chain still paid its fee
+    try {
+      const changes = await getBalanceChanges(
+        res.signature,
+        swap.owner,
+        res.tipInTransaction ? tip : 0
+      );
+      if (changes) {
+        if (res.landed) deltas = changes.deltas;
+        feeLamports = changes.feeLamports;
+        slot = slot ?? changes.slot;
+      } else if (res.landed) {
+        error = "transaction landed but could not be fetched";
+      }
+    } catch (e: any) {
+      error = `could not read the balances: ${e instanceof Error ? e.message : e}`;
+    }
+  }
+  const inDelta = deltas?.get(swap.inputMint);
+  const outDelta = deltas?.get(swap.outputMint);
+  return {
+    signature: res.signature,
+    status: res.simulation
+      ? "simulated"
+      : res.landed
+      ? "confirmed"
+      : "failed",
+    inputMint: swap.inputMint,
+    outputMint: swap.outputMint,
+    inAmount: inDelta === undefined ? null : -inDelta,
+    outAmount: outDelta === undefined ? null : outDelta,
+    priceImpact: swap.priceImpact,
+    feesPaid:
+      (feeLamports || 0) / LAMPORTS_PER_SOL +
+      (res.landed || res.simulation ? tip : 0), // a reverted transaction reverts its tip too
+    executor: swap.executor,
+    slot,
+    error: res.simulation ? res.simulation.error : error,
+    timings: {
+      buildMs: timer.submitStart - timer.start,
+      submitMs: timer.submitEnd - timer.submitStart,
+      totalMs: Date.now() - timer.start,
+    },
+  };
+}
+
+/**
+ * Prints a one line summary of a swap.
+ * @param {SwapResult} result - The swap to print.
+ */
+export function printSwapResult(result: SwapResult) {
+  console.log(
+    `Swap ${result.status}: ${result.inAmount ?? "?"} ${result.inputMint} -> ${result.outAmount ?? "?"} ${result.outputMint}, impact ${result.priceImpact ?? "?"}%, fees ${result.feesPaid} SOL, via ${result.executor} in ${result.timings.totalMs}ms`
+  );
+  if (result.signature) console.log(`https://solscan.io/tx/${result.signature}`);
+  if (result.error) console.log(`Error: ${result.error}`);
+}
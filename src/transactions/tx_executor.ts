@@ -0,0 +1,308 @@
+import {
+  BlockhashWithExpiryBlockHeight,
+  Keypair,
+  Transaction,
+  TransactionMessage,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import bs58 from "bs58";
+import {
+  connection,
+  tx_executor,
+  dry_run,
+  bloXroute_fee,
+} from "../helpers/config";
+import { jito_executeAndConfirm } from "./jito_tips_tx_executor";
+import { bloXroute_executeAndConfirm } from "./bloXroute_tips_tx_executor";
+import { simple_executeAndConfirm } from "./simple_tx_executor";
+import { RaceExecutor } from "./race_tx_executor";
+import { DryRunExecutor, SimulationReport } from "./dry_run_tx_executor";
+import { Urgency, estimateJitoTip } from "./fee_estimator";
+
+export type ExecutorName =
+  | "jito"
+  | "bloxroute"
+  | "rpc"
+  | "race"
+  | "memory"
+  | "dryrun";
+
+export interface SubmitOptions {
+  latestBlockhash?: BlockhashWithExpiryBlockHeight; // fetched from the rpc if omitted
+  tip?: number; // tip in SOL, only used by the tipping backends
+  urgency?: Urgency; // used to estimate the tip when none is given
+}
+
+export interface SubmitResult {
+  signature: string | null;
+  landed: boolean;
+  slot: number | null;
+  error: string | null;
+  tip?: number; // tip paid in SOL, by the tipping backends
+  tipInTransaction?: boolean; // the tip was added to the transaction itself instead of a separate one
+  simulation?: SimulationReport; // set by the dry-run executor
+}
+
+/**
+ * A backend that lands a transaction on chain.
+ * `signers[0]` is the fee payer; the transaction is signed by the executor.
+ */
+export interface TransactionExecutor {
+  readonly name: ExecutorName;
+  submit(
+    transaction: VersionedTransaction | Transaction,
+    signers: Keypair[],
+    opts?: SubmitOptions
+  ): Promise<SubmitResult>;
+}
+
+/**
+ * Compiles a legacy transaction into a v0 transaction paid by `payer`.
+ * @param {VersionedTransaction | Transaction} transaction - The transaction to convert.
+ * @param {Keypair} payer - The fee payer.
+ * @param {BlockhashWithExpiryBlockHeight} latestBlockhash - The blockhash to compile against.
+ * @returns {VersionedTransaction} The versioned transaction, unchanged if it already was one.
+ */
+export function toVersionedTransaction(
+  transaction: VersionedTransaction | Transaction,
+  payer: Keypair,
+  latestBlockhash: BlockhashWithExpiryBlockHeight
+) {
+  if (transaction instanceof VersionedTransaction) return transaction;
+  const messageV0 = new TransactionMessage({
+    payerKey: payer.publicKey,
+    recentBlockhash: latestBlockhash.blockhash,
+    instructions: transaction.instructions,
+  }).compileToV0Message();
+  return new VersionedTransaction(messageV0);
+}
+
+/**
+ * Extracts the instructions of a transaction so they can be re-packed by a backend.
+ * Versioned transactions using address lookup tables are not supported.
+ * @param {VersionedTransaction | Transaction} transaction - The transaction to unpack.
+ * @returns {Transaction} A legacy transaction holding the same instructions.
+ */
+export function toLegacyTransaction(
+  transaction: VersionedTransaction | Transaction
+) {
+  if (transaction instanceof Transaction) return transaction;
+  const message = TransactionMessage.decompile(transaction.message);
+  return new Transaction().add(...message.instructions);
+}
+
+function errorMessage(e: any) {
+  return e instanceof Error ? e.message : String(e);
+}
+
+export class JitoExecutor implements TransactionExecutor {
+  readonly name = "jito";
+
+  async submit(
+    transaction: VersionedTransaction | Transaction,
+    signers: Keypair[],
+    opts: SubmitOptions = {}
+  ): Promise<SubmitResult> {
+    try {
+      const latestBlockhash =
+        opts.latestBlockhash || (await connection.getLatestBlockhash());
+      const versionedTx = toVersionedTransaction(
+        transaction,
+        signers[0],
+        latestBlockhash
+      );
+      versionedTx.sign(signers);
+      const tip = opts.tip ?? (await estimateJitoTip(opts.urgency));
+      const res: any = await jito_executeAndConfirm(
+        versionedTx,
+        signers[0],
+        latestBlockhash,
+        tip
+      );
+      return {
+        signature: res.signature,
+        landed: res.confirmed,
+        slot: res.slot ?? null,
+        error: res.confirmed ? null : "jito bundle did not land",
+        tip,
+        tipInTransaction: false,
+      };
+    } catch (e: any) {
+      return { signature: null, landed: false, slot: null, error: errorMessage(e) };
+    }
+  }
+}
+
+export class BloXrouteExecutor implements TransactionExecutor {
+  readonly name = "bloxroute";
+
+  async submit(
+    transaction: VersionedTransaction | Transaction,
+    signers: Keypair[],
+    opts: SubmitOptions = {}
+  ): Promise<SubmitResult> {
+    try {
+      const tip = opts.tip ?? parseFloat(bloXroute_fee || "0.001");
+      const res = await bloXroute_executeAndConfirm(
+        toLegacyTransaction(transaction),
+        signers,
+        tip
+      );
+      return {
+        signature: res.signature,
+        landed: res.confirmed,
+        slot: res.slot,
+        error: res.confirmed ? null : "bloXroute transaction did not land",
+        tip,
+        tipInTransaction: true,
+      };
+    } catch (e: any) {
+      return { signature: null, landed: false, slot: null, error: errorMessage(e) };
+    }
+  }
+}
+
+export class RpcExecutor implements TransactionExecutor {
+  readonly name = "rpc";
+
+  async submit(
+    transaction: VersionedTransaction | Transaction,
+    signers: Keypair[],
+    opts: SubmitOptions = {}
+  ): Promise<SubmitResult> {
+    try {
+      const latestBlockhash =
+        opts.latestBlockhash || (await connection.getLatestBlockhash());
+      const versionedTx = toVersionedTransaction(
+        transaction,
+        signers[0],
+        latestBlockhash
+      );
+      versionedTx.sign(signers);
+      const res = await simple_executeAndConfirm(
+        versionedTx,
+        signers[0],
+        latestBlockhash,
+        signers
+      );
+      return {
+        signature: res.signature,
+        landed: res.confirmed,
+        slot: res.slot,
+        error: res.error,
+      };
+    } catch (e: any) {
+      return { signature: null, landed: false, slot: null, error: errorMessage(e) };
+    }
+  }
+}
+
+/**
+ * Offline executor for testing strategy code.
+ * Signs the transaction and records it without touching the network;
+ * slots increase by one per submission, so runs are reproducible.
+ */
+export class MemoryExecutor implements TransactionExecutor {
+  readonly name = "memory";
+  readonly submitted: { transaction: VersionedTransaction; result: SubmitResult }[] = [];
+  private slot: number;
+  private pendingErrors: string[] = [];
+
+  constructor(startSlot: number = 1) {
+    this.slot = startSlot;
+  }
+
+  /**
+   * Makes the next submission fail with the given error.
+   * @param {string} error - The error reported for the failed submission.
+   */
+  failNext(error: string = "simulated failure") {
+    this.pendingErrors.push(error);
+  }
+
+  async submit(
+    transaction: VersionedTransaction | Transaction,
+    signers: Keypair[],
+    opts: SubmitOptions = {}
+  ): Promise<SubmitResult> {
+    const latestBlockhash = opts.latestBlockhash || {
+      blockhash: "11111111111111111111111111111111",
+      lastValidBlockHeight: 0,
+    };
+    const versionedTx = toVersionedTransaction(
+      transaction,
+      signers[0],
+      latestBlockhash
+    );
+    versionedTx.sign(signers);
+    const signature = bs58.encode(versionedTx.signatures[0]);
+    const error = this.pendingErrors.shift() ?? null;
+    const result: SubmitResult = {
+      signature,
+      landed: error === null,
+      slot: error === null ? this.slot++ : null,
+      error,
+    };
+    this.submitted.push({ transaction: versionedTx, result });
+    return result;
+  }
+}
+
+const executors: { [name: string]: TransactionExecutor } = {};
+
+/**
+ * Resolves an executor by name, defaulting to the TX_EXECUTOR setting.
+ * Executor instances passed in are returned as is.
+ * @param {ExecutorName | TransactionExecutor} executor - The executor or its name.
+ * @returns {TransactionExecutor} The executor instance.
+ */
+export function getExecutor(
+  executor: ExecutorName | TransactionExecutor = tx_executor as ExecutorName
+): TransactionExecutor {
+  if (typeof executor !== "string") return executor;
+  if (!(executor in executors)) {
+    switch (executor) {
+      case "jito":
+        executors[executor] = new JitoExecutor();
+        break;
+      case "bloxroute":
+        executors[executor] = new BloXrouteExecutor();
+        break;
+      case "rpc":
+        executors[executor] = new RpcExecutor();
+        break;
+      case "race":
+        executors[executor] = new RaceExecutor();
+        break;
+      case "memory":
+        executors[executor] = new MemoryExecutor();
+        break;
+      case "dryrun":
+        executors[executor] = new DryRunExecutor(tx_executor as ExecutorName);
+        break;
+      default:
+        throw new Error(`Unknown transaction executor: ${executor}`);
+    }
+  }
+  return executors[executor];
+}
+
+/**
+ * Resolves the executor of a swap from its options.
+ * In dry-run mode (`dryRun` or DRY_RUN) the swap is simulated instead of sent,
+ * reporting the tip of the executor that would have been used.
+ * @param {Object} options - The swap options.
+ * @returns {TransactionExecutor} The executor instance.
+ */
+export function resolveExecutor(
+  options: {
+    executor?: ExecutorName | TransactionExecutor;
+    dryRun?: boolean;
+  } = {}
+): TransactionExecutor {
+  if (options.dryRun ?? dry_run) {
+    const target = options.executor || (tx_executor as ExecutorName);
+    return new DryRunExecutor(typeof target === "string" ? target : target.name);
+  }
+  return getExecutor(options.executor);
+}
@@ -0,0 +1,318 @@
+import {
+  BlockhashWithExpiryBlockHeight,
+  Keypair,
+  SignatureStatus,
+  TransactionError,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import { TOKEN_PROGRAM_ID } from "@solana/spl-token";
+import { EventEmitter } from "events";
+import bs58 from "bs58";
+import { connection, tx_rebroadcast_interval_ms } from "../helpers/config";
+
+const RAYDIUM_AMM_V4 = "675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8";
+const MAX_POLL_ERRORS = 5; // consecutive failed status or block height polls before tracking gives up
+const PROGRAM_ERRORS: { [programId: string]: { [code: number]: string } } = {
+  [TOKEN_PROGRAM_ID.toBase58()]: {
+    0: "Lamport balance below rent-exempt threshold",
+    1: "Insufficient funds",
+    2: "Invalid Mint",
+    3: "Account not associated with this Mint",
+    4: "Owner does not match",
+    17: "Account is frozen",
+  },
+  [RAYDIUM_AMM_V4]: {
+    30: "Exceeds desired slippage limit",
+    40: "Insufficient funds",
+  },
+};
+
+export type TxStatus = "confirmed" | "finalized" | "expired" | "failed";
+
+export interface DecodedTxError {
+  instructionIndex: number | null; // null for transaction level errors
+  programId: string | null;
+  code: number | null; // custom program error code
+  message: string;
+  raw: TransactionError | string;
+}
+
+export interface TxTrackerEvents {
+  sent: (e: { signature: string; attempt: number; resigned: boolean }) => void;
+  processed: (e: { signature: string; slot: number }) => void;
+  confirmed: (e: { signature: string; slot: number }) => void;
+  finalized: (e: { signature: string; slot: number }) => void;
+  expired: (e: { signature: string; lastValidBlockHeight: number }) => void;
+  failed: (e: { signature: string; slot: number | null; error: DecodedTxError }) => void;
+}
+
+export interface TxTrackerOptions {
+  commitment?: "confirmed" | "finalized"; // stop tracking at this level, defaults to confirmed
+  rebroadcastIntervalMs?: number; // defaults to TX_REBROADCAST_INTERVAL_MS
+  pollIntervalMs?: number;
+  resignWith?: Keypair[]; // re-sign with a fresh blockhash when the blockhash expires or a send fails with a retryable error
+  maxResigns?: number;
+}
+
+export interface TrackResult {
+  signature: string;
+  status: TxStatus;
+  slot: number | null;
+  error: DecodedTxError | null;
+  sends: number;
+  resigns: number;
+}
+
+/**
+ * Decodes a transaction error into the failing instruction, its program and a readable message.
+ * @param {TransactionError | string} err - The error reported by the rpc.
+ * @param {VersionedTransaction} transaction - The failed transaction, used to resolve the program id.
+ * @returns {DecodedTxError} The decoded error.
+ */
+export function decodeTransactionError(
+  err: TransactionError | string,
+  transaction?: VersionedTransaction
+): DecodedTxError {
+  const decoded: DecodedTxError = {
+    instructionIndex: null,
+    programId: null,
+    code: null,
+    message: typeof err === "string" ? err : JSON.stringify(err),
+    raw: err,
+  };
+  const instructionError = (err as any)?.InstructionError;
+  if (!instructionError) return decoded;
+  const [index, detail] = instructionError;
+  decoded.instructionIndex = index;
+  if (transaction) {
+    const ix = transaction.message.compiledInstructions[index];
+    if (ix) {
+      decoded.programId = transaction.message.staticAccountKeys[
+        ix.programIdIndex
+      ].toBase58();
+    }
+  }
+  if (detail && typeof detail === "object" && "Custom" in detail) {
+    decoded.code = detail.Custom;
+    const known =
+      decoded.programId && PROGRAM_ERRORS[decoded.programId]?.[detail.Custom];
+    decoded.message = `instruction ${index}: ${
+      known || `custom program error 0x${detail.Custom.toString(16)}`
+    }`;
+  } else {
+    decoded.message = `instruction ${index}: ${
+      typeof detail === "string" ? detail : JSON.stringify(detail)
+    }`;
+  }
+  return decoded;
+}
+
+type AttemptResult = Omit<TrackResult, "resigns"> & {
+  resign: boolean; // stopped on a retryable send error to be re-signed
+};
+
+function isRetryableSendError(e: any) {
+  const message = e instanceof Error ? e.message : String(e);
+  return /blockhash not found|node is behind|too many requests|429|fetch failed|ECONNRESET|ETIMEDOUT|socket hang up/i.test(
+    message
+  );
+}
+
+export declare interface TxTracker {
+  on<E extends keyof TxTrackerEvents>(event: E, listener: TxTrackerEvents[E]): this;
+  once<E extends keyof TxTrackerEvents>(event: E, listener: TxTrackerEvents[E]): this;
+  emit<E extends keyof TxTrackerEvents>(
+    event: E,
+    ...args: Parameters<TxTrackerEvents[E]>
+  ): boolean;
+}
+
+/**
+ * Follows a signed transaction from send to finality.
+ *
+ * The raw transaction is sent again every rebroadcast interval until it reaches
+ * the requested commitment or its lastValidBlockHeight passes. When `resignWith`
+ * is given, an expired blockhash is replaced by a fresh one and the transaction
+ * is signed and tracked again, up to `maxResigns` times. A retryable send error
+ * re-signs it too, as long as no send of the current signature went through,
+ * so the previous transaction cannot land next to the re-signed one.
+ * Failed status polls are retried, tracking fails after MAX_POLL_ERRORS in a row.
+ */
+export class TxTracker extends EventEmitter {
+  private transaction: VersionedTransaction;
+  private latestBlockhash: BlockhashWithExpiryBlockHeight;
+  private commitment: "confirmed" | "finalized";
+  private rebroadcastIntervalMs: number;
+  private pollIntervalMs: number;
+  private resignWith: Keypair[] | undefined;
+  private maxResigns: number;
+
+  constructor(
+    transaction: VersionedTransaction,
+    latestBlockhash: BlockhashWithExpiryBlockHeight,
+    opts: TxTrackerOptions = {}
+  ) {
+    super();
+    this.transaction = transaction;
+    this.latestBlockhash = latestBlockhash;
+    this.commitment = opts.commitment || "confirmed";
+    this.rebroadcastIntervalMs =
+      opts.rebroadcastIntervalMs ?? tx_rebroadcast_interval_ms;
+    this.pollIntervalMs = opts.pollIntervalMs ?? 500;
+    this.resignWith = opts.resignWith;
+    this.maxResigns = opts.maxResigns ?? 2;
+  }
+
+  get signature() {
+    return bs58.encode(this.transaction.signatures[0]);
+  }
+
+  /**
+   * Sends the transaction and tracks it until it lands, fails or expires.
+   * @returns {Promise<TrackResult>} The final status of the transaction.
+   */
+  async track(): Promise<TrackResult> {
+    let sends = 0,
+      resigns = 0;
+    while (true) {
+      const canResign = !!this.resignWith && resigns < this.maxResigns;
+      const { resign, ...result } = await this.trackOnce(sends, resigns > 0, canResign);
+      sends = result.sends;
+      if (!resign && (result.status !== "expired" || !canResign)) {
+        return { ...result, resigns };
+      }
+      resigns++;
+      await this.resign();
+    }
+  }
+
+  private async resign() {
+    this.latestBlockhash = await connection.getLatestBlockhash();
+    this.transaction.message.recentBlockhash = this.latestBlockhash.blockhash;
+    this.transaction.signatures = this.transaction.signatures.map(
+      () => new Uint8Array(64)
+    );
+    this.transaction.sign(this.resignWith as Keypair[]);
+    console.log(`Re-signed with a fresh blockhash: ${this.signature}`);
+  }
+
+  private async send(sends: number, resigned: boolean) {
+    await connection.sendRawTransaction(this.transaction.serialize(), {
+      skipPreflight: true,
+      maxRetries: 0,
+    });
+    this.emit("sent", { signature: this.signature, attempt: sends + 1, resigned });
+  }
+
+  private fail(
+    signature: string,
+    slot: number | null,
+    error: DecodedTxError,
+    sends: number
+  ): AttemptResult {
+    this.emit("failed", { signature, slot, error });
+    return { signature, status: "failed", slot, error, sends, resign: false };
+  }
+
+  private async trackOnce(
+    sends: number,
+    resigned: boolean,
+    canResign: boolean
+  ): Promise<AttemptResult> {
+    const signature = this.signature;
+    const { lastValidBlockHeight } = this.latestBlockhash;
+    let lastSentAt = 0,
+      seen: string | null = null,
+      accepted = false,
+      pollErrors = 0;
+    // a failed poll is retried after the poll interval, null until MAX_POLL_ERRORS in a row
+    const pollFailed = async (e: any) => {
+      const message = e instanceof Error ? e.message : String(e);
+      if (++pollErrors >= MAX_POLL_ERRORS) {
+        const error = decodeTransactionError(`status polling failed: ${message}`);
+        return this.fail(signature, null, error, sends);
+      }
+      await new Promise((resolve) => setTimeout(resolve, this.pollIntervalMs));
+      return null;
+    };
+    while (true) {
+      if (Date.now() - lastSentAt >= this.rebroadcastIntervalMs) {
+        try {
+          await this.send(sends, resigned);
+          sends++;
+          accepted = true;
+        } catch (e) {
+          const message = e instanceof Error ? e.message : String(e);
+          if (!isRetryableSendError(e)) {
+            return this.fail(signature, null, decodeTransactionError(message), sends);
+          }
+          if (canResign && !accepted) {
+            console.log(`Send failed (${message}), re-signing`);
+            return {
+              signature,
+              status: "failed",
+              slot: null,
+              error: decodeTransactionError(message),
+              sends,
+              resign: true,
+            };
+          }
+          console.log(`Send failed (${message}), retrying`);
+        }
+        lastSentAt = Date.now();
+      }
+
+      let status: SignatureStatus | null;
+      try {
+        ({ value: status } = await connection.getSignatureStatus(signature));
+        pollErrors = 0;
+      } catch (e) {
+        const failed = await pollFailed(e);
+        if (failed) return failed;
+        continue;
+      }
+      if (status?.err) {
+        const error = decodeTransactionError(status.err, this.transaction);
+        return this.fail(signature, status.slot, error, sends);
+      }
+      if (status?.confirmationStatus && status.confirmationStatus !== seen) {
+        // emit every level reached since the last poll
+        const levels = ["processed", "confirmed", "finalized"];
+        const from = seen ? levels.indexOf(seen) + 1 : 0;
+        const to = levels.indexOf(status.confirmationStatus);
+        for (const level of levels.slice(from, to + 1)) {
+          this.emit(level as "processed", { signature, slot: status.slot });
+        }
+        seen = status.confirmationStatus;
+        if (to >= levels.indexOf(this.commitment)) {
+          return {
+            signature,
+            status: seen as TxStatus,
+            slot: status.slot,
+            error: null,
+            sends,
+            resign: false,
+          };
+        }
+      }
+
+      // a processed transaction can still be dropped with its fork
+      if (seen === null || seen === "processed") {
+        let blockHeight: number;
+        try {
+          blockHeight = await connection.getBlockHeight("confirmed");
+          pollErrors = 0;
+        } catch (e) {
+          const failed = await pollFailed(e);
+          if (failed) return failed;
+          continue;
+        }
+        if (blockHeight > lastValidBlockHeight) {
+          this.emit("expired", { signature, lastValidBlockHeight });
+          return { signature, status: "expired", slot: null, error: null, sends, resign: false };
+        }
+      }
+      await new Promise((resolve) => setTimeout(resolve, this.pollIntervalMs));
+    }
+  }
+}